@@ -0,0 +1,110 @@
+import * as Hapi from "@hapi/hapi";
+import * as Boom from "@hapi/boom";
+import { createHash, timingSafeEqual } from "crypto";
+import { AuthConfig, AuthCredential, AuthRole } from "../types/auth-config";
+import { ForbiddenError } from "../utils/errors";
+
+export const AUTH_STRATEGY = "ad-chroma";
+
+export type AuthScope = "admin" | "write" | "read";
+
+const ROLE_SCOPES: Record<AuthRole, AuthScope[]> = {
+  admin: ["admin", "write", "read"],
+  writer: ["write", "read"],
+  reader: ["read"],
+};
+
+type CredentialUser = {
+  name: string;
+  role: AuthRole;
+  collections?: string[];
+};
+
+type HashedCredential = AuthCredential & { digest: Buffer };
+
+/**
+ * Hapi auth scheme accepting the static API keys and bearer tokens of an
+ * AuthConfig. Authenticated requests get the scopes of the credential's role
+ * and remember which collections it is restricted to.
+ */
+export function apiKeyScheme(config: AuthConfig): Hapi.ServerAuthScheme {
+  const apiKeys = (config.apiKeys ?? []).map(hashCredential);
+  const bearerTokens = (config.bearerTokens ?? []).map(hashCredential);
+
+  return () => ({
+    authenticate(request, h) {
+      const apiKey = request.headers["x-api-key"];
+      const authorization = request.headers.authorization;
+
+      let credential: HashedCredential | undefined;
+      if (apiKey) {
+        credential = findCredential(apiKeys, apiKey);
+      } else if (authorization) {
+        const [type, token] = authorization.split(/\s+/);
+        if (type.toLowerCase() !== "bearer" || !token) {
+          throw Boom.unauthorized("Malformed authorization header", "Bearer");
+        }
+        credential = findCredential(bearerTokens, token);
+      } else {
+        throw Boom.unauthorized("Missing API key or bearer token", "Bearer");
+      }
+
+      if (!credential) {
+        throw Boom.unauthorized("Invalid API key or bearer token", "Bearer");
+      }
+
+      const user: CredentialUser = {
+        name: credential.name,
+        role: credential.role,
+        collections: credential.collections,
+      };
+      return h.authenticated({
+        credentials: { scope: ROLE_SCOPES[credential.role], user },
+      });
+    },
+  });
+}
+
+/**
+ * Throws a ForbiddenError when the request's credential is restricted to a
+ * list of collections that does not include `collectionName`.
+ */
+export function assertCollectionAccess(
+  request: Hapi.Request,
+  collectionName: string
+) {
+  if (!canAccessCollection(request, collectionName)) {
+    throw new ForbiddenError(
+      `Credential ${credentialName(request)} cannot access collection ${collectionName}`
+    );
+  }
+}
+
+export function canAccessCollection(
+  request: Hapi.Request,
+  collectionName: string
+) {
+  const user = request.auth.credentials?.user as CredentialUser | undefined;
+  return !user?.collections || user.collections.includes(collectionName);
+}
+
+export function credentialName(request: Hapi.Request): string | undefined {
+  const user = request.auth.credentials?.user as CredentialUser | undefined;
+  return user?.name;
+}
+
+function hashCredential(credential: AuthCredential): HashedCredential {
+  return { ...credential, digest: digest(credential.secret) };
+}
+
+// Comparing fixed-length digests keeps the comparison constant-time
+function findCredential(credentials: HashedCredential[], secret: string) {
+  const candidate = digest(secret);
+  return credentials.find((credential) =>
+    timingSafeEqual(credential.digest, candidate)
+  );
+}
+
+function digest(secret: string) {
+  return createHash("sha256").update(secret).digest();
+}
@@ -7,30 +7,109 @@ import { Logger } from "../types/logger";
 import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
 import { Db } from "../types/db";
 import { SqliteDb } from "../db/sqlite-db";
-import * as Joi from "joi";
+import { EmbeddingInput } from "../types/embedding-input";
+import { EmbeddingRow } from "../types/embedding-row";
+import { GetInput, SearchQueryInput } from "../types/query-input";
+import { SearchResult } from "../types/index-search-result";
+import { BatchEmbeddingInput } from "../types/batch-embedding-input";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { ReadinessReport, ReadinessStatus } from "../types/health";
+import {
+  BatchValidationError,
+  ConflictError,
+  ForbiddenError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../utils/errors";
+import {
+  batchEmbeddingInputSchema,
+  benchmarkOptionsSchema,
+  collectionNameParamsSchema,
+  createCollectionSchema,
+  embeddingInputSchema,
+  embeddingParamsSchema,
+  importCollectionQuerySchema,
+  listEmbeddingsQuerySchema,
+  peekQuerySchema,
+  queryInputSchema,
+  searchQueryInputSchema,
+  updateCollectionSchema,
+  updateEmbeddingSchema,
+} from "./schemas";
+import {
+  AUTH_STRATEGY,
+  AuthScope,
+  apiKeyScheme,
+  assertCollectionAccess,
+  canAccessCollection,
+  credentialName,
+} from "./auth";
+import { Validators } from "../utils/validators";
+import { ServerMetrics } from "../metrics/server-metrics";
+import {
+  packSnapshot,
+  SNAPSHOT_CONTENT_TYPE,
+  unpackSnapshot,
+} from "../db/collection-snapshot";
 import * as Hapiswagger from "hapi-swagger";
 
+// Batches of thousands of high-dimensional embeddings exceed Hapi's 1MB default
+const BATCH_PAYLOAD_MAX_BYTES = 256 * 1024 * 1024;
+// Snapshots carry a whole collection along with its index
+const SNAPSHOT_PAYLOAD_MAX_BYTES = 1024 * 1024 * 1024;
+
 export class HapiApi implements ApiServer {
   private _server: Hapi.Server;
   private _db: Db;
+  private _metrics?: ServerMetrics;
+  private _readiness: "starting" | "started" | "failed" = "starting";
+  private _loadingIndexes: Promise<void> = Promise.resolve();
 
   constructor(private apiConfig: ApiConfig, private logger: Logger) {
-    this._db = new SqliteDb(apiConfig, logger);
+    const validator = new Validators();
+    validator.assertValid(validator.validateApiConfig(apiConfig));
+
+    if (apiConfig.metrics) {
+      this._metrics = new ServerMetrics();
+    }
+    this._db = new SqliteDb(apiConfig, logger, undefined, this._metrics);
 
     this._server = Hapi.server({
       port: apiConfig.port,
       host: apiConfig.host,
     });
+    // Route handlers are class methods, so they need this instance as context
+    this._server.bind(this);
 
+    this.addErrorMapping();
+    this.addAuth();
+    this.addMetrics();
     this.addBaseRoutes();
     this.addCollectionRoutes();
     this.addEmbeddingRoutes();
   }
 
+  /**
+   * Migrates the schema, then starts listening and loads the indexes in the
+   * background, so liveness checks pass while readiness reports `starting`
+   * until they are loaded.
+   */
   public async start(): Promise<void> {
+    await this._db.init();
     await this._server.start();
     this.logger.info(`Server running on ${this._server.info.uri}`);
 
+    this._loadingIndexes = this._db.loadIndexes().then(
+      () => {
+        this._readiness = "started";
+        this.logger.info("Finished loading indexes");
+      },
+      (err) => {
+        this._readiness = "failed";
+        this.logger.error(`Unable to load indexes: ${(err as Error).message}`);
+      }
+    );
+
     // Attach error events to process
     process.on("unhandledRejection", (err) => {
       this.logger.error(err);
@@ -40,6 +119,8 @@ export class HapiApi implements ApiServer {
 
   public async stop(): Promise<void> {
     await this._server.stop();
+    await this._loadingIndexes;
+    await this._db.close();
   }
 
   private async addSwaggerGen() {
@@ -67,19 +148,36 @@ export class HapiApi implements ApiServer {
     this._server.route({
       method: "GET",
       path: "/",
+      options: {
+        auth: false,
+      },
       handler: this.welcome,
     });
 
     this._server.route({
       method: "GET",
       path: "/api/v1/heartbeat",
+      options: {
+        auth: false,
+      },
       handler: this.heartbeat,
     });
-
     this._server.route({
       method: "GET",
-      path: "/api/v1/collections",
-      handler: this.listCollections,
+      path: "/api/v1/health/live",
+      options: {
+        auth: false,
+      },
+      handler: this.liveness,
+    });
+    this._server.route({
+      method: "GET",
+      path: "/api/v1/health/ready",
+      options: {
+        // Anyone may probe, credentials only add the collection details
+        auth: this.authEnabled ? { mode: "try" } : false,
+      },
+      handler: this.readiness,
     });
   }
 
@@ -87,33 +185,327 @@ export class HapiApi implements ApiServer {
     this._server.route({
       method: "GET",
       path: "/api/v1/collections",
+      options: {
+        auth: this.access("read"),
+      },
       handler: this.listCollections,
     });
     this._server.route({
       method: "POST",
       path: "/api/v1/collections",
       options: {
+        auth: this.access("admin"),
         validate: {
-          payload: Joi.object({
-            name: Joi.string().required(),
-            metadata: Joi.object({
-              numberOfDimensions: Joi.number().positive().integer().min(1),
-              maxElements: Joi.number().positive().integer().optional(),
-              sizeOfDynamicListOfNearestNeighbors: Joi.number()
-                .positive()
-                .integer()
-                .optional(),
-              indexResizeFactor: Joi.number().positive().optional().default(1),
-            }),
-          }),
+          payload: createCollectionSchema,
         },
       },
       handler: this.createCollection,
     });
+    this._server.route({
+      method: "PUT",
+      path: "/api/v1/collections/{name}",
+      options: {
+        auth: this.access("admin"),
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: updateCollectionSchema,
+        },
+      },
+      handler: this.updateCollection,
+    });
+    this._server.route({
+      method: "DELETE",
+      path: "/api/v1/collections/{name}",
+      options: {
+        auth: this.access("admin"),
+        validate: {
+          params: collectionNameParamsSchema,
+        },
+      },
+      handler: this.deleteCollection,
+    });
+    this._server.route({
+      method: "GET",
+      path: "/api/v1/collections/{name}/export",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+        },
+      },
+      handler: this.exportCollection,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/import",
+      options: {
+        auth: this.access("admin"),
+        payload: {
+          parse: false,
+          output: "data",
+          maxBytes: SNAPSHOT_PAYLOAD_MAX_BYTES,
+          allow: [SNAPSHOT_CONTENT_TYPE, "application/octet-stream"],
+        },
+        validate: {
+          query: importCollectionQuerySchema,
+        },
+      },
+      handler: this.importCollection,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/reindex",
+      options: {
+        auth: this.access("admin"),
+        validate: {
+          params: collectionNameParamsSchema,
+        },
+      },
+      handler: this.reindexCollection,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/benchmark",
+      options: {
+        auth: this.access("admin"),
+        payload: { maxBytes: BATCH_PAYLOAD_MAX_BYTES },
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: benchmarkOptionsSchema,
+        },
+      },
+      handler: this.benchmarkCollection,
+    });
+    this._server.route({
+      method: "GET",
+      path: "/api/v1/collections/{name}/peek",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+          query: peekQuerySchema,
+        },
+      },
+      handler: this.peek,
+    });
   }
 
   private addEmbeddingRoutes() {
-    // ...
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/embeddings",
+      options: {
+        auth: this.access("write"),
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: embeddingInputSchema,
+        },
+      },
+      handler: this.addEmbedding,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/add",
+      options: {
+        auth: this.access("write"),
+        payload: { maxBytes: BATCH_PAYLOAD_MAX_BYTES },
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: batchEmbeddingInputSchema,
+        },
+      },
+      handler: this.addEmbeddings,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/upsert",
+      options: {
+        auth: this.access("write"),
+        payload: { maxBytes: BATCH_PAYLOAD_MAX_BYTES },
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: batchEmbeddingInputSchema,
+        },
+      },
+      handler: this.upsertEmbeddings,
+    });
+    this._server.route({
+      method: "PUT",
+      path: "/api/v1/collections/{name}/embeddings/{embeddingId}",
+      options: {
+        auth: this.access("write"),
+        validate: {
+          params: embeddingParamsSchema,
+          payload: updateEmbeddingSchema,
+        },
+      },
+      handler: this.updateEmbedding,
+    });
+    this._server.route({
+      method: "DELETE",
+      path: "/api/v1/collections/{name}/embeddings/{embeddingId}",
+      options: {
+        auth: this.access("write"),
+        validate: {
+          params: embeddingParamsSchema,
+        },
+      },
+      handler: this.deleteEmbedding,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/get",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: queryInputSchema,
+        },
+      },
+      handler: this.getEmbeddings,
+    });
+    this._server.route({
+      method: "GET",
+      path: "/api/v1/collections/{name}/embeddings",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+          query: listEmbeddingsQuerySchema,
+        },
+      },
+      handler: this.listEmbeddings,
+    });
+    this._server.route({
+      method: "POST",
+      path: "/api/v1/collections/{name}/query",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+          payload: searchQueryInputSchema,
+        },
+      },
+      handler: this.queryNearestNeighbors,
+    });
+    this._server.route({
+      method: "GET",
+      path: "/api/v1/collections/{name}/count",
+      options: {
+        auth: this.access("read"),
+        validate: {
+          params: collectionNameParamsSchema,
+        },
+      },
+      handler: this.countEmbeddings,
+    });
+  }
+
+  /**
+   * Requires an API key or bearer token on every route that does not opt out,
+   * when the config has credentials. Routes restrict roles through scopes,
+   * and credentials limited to some collections are checked against the
+   * `{name}` path parameter.
+   */
+  private addAuth() {
+    if (!this.authEnabled) {
+      return;
+    }
+
+    this._server.auth.scheme(AUTH_STRATEGY, apiKeyScheme(this.apiConfig.auth));
+    this._server.auth.strategy(AUTH_STRATEGY, AUTH_STRATEGY);
+    this._server.auth.default(AUTH_STRATEGY);
+
+    this._server.ext("onPreHandler", (request, h) => {
+      if (request.auth.isAuthenticated && request.params.name) {
+        assertCollectionAccess(request, request.params.name);
+      }
+      return h.continue;
+    });
+  }
+
+  /**
+   * Counts and times every response by route and status code, and serves
+   * the metrics on /metrics. Unmatched paths share Hapi's not found route.
+   */
+  private addMetrics() {
+    if (!this._metrics) {
+      return;
+    }
+
+    this._server.events.on("response", (request) => {
+      const { received, responded } = request.info;
+      this._metrics.observeRequest(
+        request.method.toUpperCase(),
+        request.route.path,
+        request.raw.res.statusCode,
+        ((responded || Date.now()) - received) / 1000
+      );
+    });
+
+    this._server.route({
+      method: "GET",
+      path: "/metrics",
+      options: {
+        auth: this.access("admin"),
+      },
+      handler: this.metrics,
+    });
+  }
+
+  private get authEnabled() {
+    const { auth } = this.apiConfig;
+    return Boolean(auth?.apiKeys?.length || auth?.bearerTokens?.length);
+  }
+
+  private access(scope: AuthScope): Hapi.RouteOptions["auth"] {
+    return this.authEnabled ? { access: { scope: [scope] } } : undefined;
+  }
+
+  /**
+   * Translates the typed errors thrown by the Db layer into matching HTTP
+   * status codes. Anything else is left as a 500.
+   */
+  private addErrorMapping() {
+    this._server.ext("onPreResponse", (request, h) => {
+      const { response } = request;
+      if (!("isBoom" in response) || !response.isBoom) {
+        return h.continue;
+      }
+
+      if (response instanceof ForbiddenError) {
+        response.output.statusCode = 403;
+        response.reformat();
+        response.output.payload.message = response.message;
+      }
+      if ([401, 403].includes(response.output.statusCode)) {
+        this.logger.warn(
+          `Rejected ${request.method.toUpperCase()} ${request.path} from ${
+            credentialName(request) ?? "an unauthenticated client"
+          } with ${response.output.statusCode}: ${response.message}`
+        );
+        return h.continue;
+      }
+
+      let statusCode: number;
+      if (response instanceof NotFoundError) {
+        statusCode = 404;
+      } else if (response instanceof ConflictError) {
+        statusCode = 409;
+      } else if (response instanceof InvalidArgumentError) {
+        statusCode = 400;
+      } else {
+        return h.continue;
+      }
+
+      response.output.statusCode = statusCode;
+      response.reformat();
+      response.output.payload.message = response.message;
+      if (response instanceof BatchValidationError) {
+        response.output.payload.errors = response.errors;
+      }
+      return h.continue;
+    });
   }
 
   private welcome(
@@ -123,24 +515,301 @@ export class HapiApi implements ApiServer {
     return h.response("Welcome to Ad-Chroma!").code(200);
   }
 
+  /**
+   * Kept for clients that poll it, probes should use the health routes.
+   */
   private heartbeat() {
     return {
       db: 1,
     };
   }
 
-  private async listCollections(): Promise<CollectionRow[]> {
-    return await this._db.listCollections();
+  /**
+   * Answers as long as the process can serve requests at all.
+   */
+  private liveness() {
+    return { status: "ok", uptimeSeconds: process.uptime() };
+  }
+
+  /**
+   * Answers 200 only once the indexes are loaded, SQLite answers a probe
+   * and no collection's index has failed, and 503 otherwise.
+   */
+  private async readiness(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const { collections, ...db } = await this._db.checkHealth();
+
+    let status: ReadinessStatus;
+    if (!db.ok || this._readiness === "failed") {
+      status = "unavailable";
+    } else if (this._readiness === "starting") {
+      status = "starting";
+    } else if (collections.some(({ error }) => error)) {
+      status = "degraded";
+    } else {
+      status = "ready";
+    }
+
+    const report: ReadinessReport = { status, ready: status === "ready", db };
+    if (!this.authEnabled || request.auth.isAuthenticated) {
+      report.collections = collections.filter(({ name }) =>
+        canAccessCollection(request, name)
+      );
+    }
+    return h.response(report).code(report.ready ? 200 : 503);
+  }
+
+  private async metrics(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const collections = await this._db.collectionStats();
+    return h
+      .response(this._metrics.render(collections))
+      .type("text/plain; version=0.0.4; charset=utf-8");
+  }
+
+  private async listCollections(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<CollectionRow[]> {
+    const collections = await this._db.listCollections();
+    return collections.filter(({ name }) =>
+      canAccessCollection(request, name)
+    );
   }
 
   private async createCollection(
     request: Hapi.Request<Hapi.ReqRefDefaults>,
     h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
   ) {
-    const { name, metadata } = request.payload as {
+    const { name, metadata, getOrCreate } = request.payload as {
       name: string;
       metadata: CollectionRowMetadata;
+      getOrCreate: boolean;
+    };
+    assertCollectionAccess(request, name);
+    return await this._db.createCollection(name, metadata, getOrCreate);
+  }
+
+  private async updateCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const { newName, metadata } = request.payload as {
+      newName?: string;
+      metadata?: Partial<CollectionRowMetadata>;
     };
-    return await this._db.createCollection(name, metadata, true);
+    // The credential must reach the collection under its new name too
+    if (newName !== undefined) {
+      assertCollectionAccess(request, newName);
+    }
+    return await this._db.updateCollection(
+      request.params.name,
+      newName,
+      metadata
+    );
+  }
+
+  private async deleteCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    await this._db.deleteCollection(request.params.name);
+    return h.response().code(204);
+  }
+
+  private async exportCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const snapshot = await this._db.exportCollection(request.params.name);
+    return h
+      .response(packSnapshot(snapshot))
+      .type(SNAPSHOT_CONTENT_TYPE)
+      .header(
+        "Content-Disposition",
+        `attachment; filename="${encodeURIComponent(snapshot.name)}.tar.gz"`
+      );
+  }
+
+  private async importCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const snapshot = unpackSnapshot(request.payload as Buffer);
+    const name = (request.query.name as string | undefined) ?? snapshot.name;
+    assertCollectionAccess(request, name);
+
+    const collection = await this._db.importCollection(
+      snapshot,
+      name,
+      request.query.idPrefix as string | undefined
+    );
+    return h.response(collection).code(201);
+  }
+
+  private async reindexCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<{ count: number }> {
+    const count = await this._db.reindexCollection(request.params.name);
+    return { count };
+  }
+
+  private async benchmarkCollection(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<BenchmarkResult> {
+    return await this._db.benchmarkCollection(
+      request.params.name,
+      // The whole body is optional
+      (request.payload as BenchmarkOptions) ?? {}
+    );
+  }
+
+  private async peek(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<EmbeddingRow[]> {
+    return await this._db.peek(request.params.name, request.query.n);
+  }
+
+  private async addEmbedding(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const input = request.payload as Omit<EmbeddingInput, "collectionName">;
+    const id = await this._db.addEmbeddingToCollection({
+      ...input,
+      collectionName: request.params.name,
+    });
+    return h.response({ id }).code(201);
+  }
+
+  private async addEmbeddings(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const input = request.payload as Omit<BatchEmbeddingInput, "collectionName">;
+    const ids = await this._db.addEmbeddings({
+      ...input,
+      collectionName: request.params.name,
+    });
+    return h.response({ ids }).code(201);
+  }
+
+  private async upsertEmbeddings(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<{ ids: string[] }> {
+    const input = request.payload as Omit<BatchEmbeddingInput, "collectionName">;
+    const ids = await this._db.upsertEmbeddings({
+      ...input,
+      collectionName: request.params.name,
+    });
+    return { ids };
+  }
+
+  private async updateEmbedding(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const input = request.payload as Omit<EmbeddingInput, "collectionName">;
+    await this._db.updateEmbedding({
+      ...input,
+      collectionName: request.params.name,
+      embeddingId: request.params.embeddingId,
+    });
+    return h.response().code(204);
+  }
+
+  private async deleteEmbedding(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    await this._db.deleteEmbedding(
+      request.params.name,
+      request.params.embeddingId
+    );
+    return h.response().code(204);
+  }
+
+  /**
+   * Responds with the rows of a page, and its total and next cursor in the
+   * X-Total-Count and X-Next-Cursor headers.
+   */
+  private async getEmbeddings(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const input = request.payload as Omit<GetInput, "collectionName">;
+    const { rows, total, nextCursor } = await this._db.getPage({
+      ...input,
+      collectionName: request.params.name,
+    });
+
+    const response = h.response(rows).header("X-Total-Count", String(total));
+    if (nextCursor) {
+      response.header("X-Next-Cursor", nextCursor);
+    }
+    return response;
+  }
+
+  /**
+   * Pages through a collection with query parameters, linking to the next
+   * page both in the body and in a Link header.
+   */
+  private async listEmbeddings(
+    request: Hapi.Request<Hapi.ReqRefDefaults>,
+    h: Hapi.ResponseToolkit<Hapi.ReqRefDefaults>
+  ) {
+    const { orderBy, direction, ...query } = request.query;
+    const page = await this._db.getPage({
+      ...query,
+      orderBy: orderBy ? { field: orderBy, direction } : undefined,
+      collectionName: request.params.name,
+    });
+
+    const self = request.url.pathname + request.url.search;
+    let next: string | undefined;
+    if (page.nextCursor) {
+      const nextUrl = new URL(request.url.href);
+      nextUrl.searchParams.delete("offset");
+      nextUrl.searchParams.set("cursor", page.nextCursor);
+      next = nextUrl.pathname + nextUrl.search;
+    }
+
+    const response = h.response({
+      embeddings: page.rows,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      links: { self, next },
+    });
+    if (next) {
+      response.header("Link", `<${next}>; rel="next"`);
+    }
+    return response;
+  }
+
+  /**
+   * Responds with one result list, or with a list per query when the input
+   * holds searchEmbeddings or searchTexts.
+   */
+  private async queryNearestNeighbors(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<SearchResult[] | SearchResult[][]> {
+    const input = request.payload as Omit<SearchQueryInput, "collectionName">;
+    const queryInput = { ...input, collectionName: request.params.name };
+    if (input.searchEmbeddings || input.searchTexts) {
+      return await this._db.getNearestNeighborsBatch(queryInput);
+    }
+    return await this._db.getNearestNeighbors(queryInput);
+  }
+
+  private async countEmbeddings(
+    request: Hapi.Request<Hapi.ReqRefDefaults>
+  ): Promise<{ count: number }> {
+    const count = await this._db.countEmbeddingsByCollectionName(
+      request.params.name
+    );
+    return { count };
   }
 }
@@ -0,0 +1,197 @@
+import * as Joi from "joi";
+import { EMBEDDING_QUANTIZATIONS } from "../types/embedding-quantization";
+import { INCLUDE_FIELDS } from "../types/query-input";
+import { INDEX_BACKENDS } from "../types/vector-index";
+
+export const DEFAULT_LIST_PAGE_SIZE = 100;
+export const MAX_LIST_PAGE_SIZE = 1000;
+
+export const collectionNameParamsSchema = Joi.object({
+  name: Joi.string().required(),
+});
+
+export const embeddingParamsSchema = Joi.object({
+  name: Joi.string().required(),
+  embeddingId: Joi.string().required(),
+});
+
+export const collectionMetadataSchema = Joi.object({
+  numberOfDimensions: Joi.number().positive().integer().min(1),
+  maxElements: Joi.number().positive().integer().optional(),
+  sizeOfDynamicListOfNearestNeighbors: Joi.number()
+    .positive()
+    .integer()
+    .optional(),
+  indexResizeFactor: Joi.number().positive().optional().default(1),
+  space: Joi.string().valid("l2", "ip", "cosine").default("cosine"),
+  M: Joi.number().integer().min(2).optional(),
+  efConstruction: Joi.number().positive().integer().optional(),
+  randomSeed: Joi.number().integer().min(0).optional(),
+  indexBackend: Joi.string().valid(...INDEX_BACKENDS).optional(),
+  flatIndexThreshold: Joi.number().positive().integer().optional(),
+  quantization: Joi.string().valid(...EMBEDDING_QUANTIZATIONS).optional(),
+  embeddingFunction: Joi.object({
+    name: Joi.string().required(),
+  })
+    .unknown(true)
+    .optional(),
+});
+
+export const createCollectionSchema = Joi.object({
+  name: Joi.string().required(),
+  metadata: collectionMetadataSchema,
+  // Returns an existing collection of the same name instead of a 409
+  getOrCreate: Joi.boolean().default(true),
+});
+
+// Only the given settings change, so defaults must not fill in the rest
+export const updateCollectionSchema = Joi.object({
+  newName: Joi.string().optional(),
+  metadata: collectionMetadataSchema.prefs({ noDefaults: true }).optional(),
+});
+
+export const peekQuerySchema = Joi.object({
+  n: Joi.number().positive().integer().default(10),
+});
+
+export const importCollectionQuerySchema = Joi.object({
+  name: Joi.string(),
+  // Prefixes every record id, to restore next to the source collection
+  idPrefix: Joi.string(),
+});
+
+// Mirrors BenchmarkOptions
+export const benchmarkOptionsSchema = Joi.object({
+  k: Joi.number().positive().integer().optional(),
+  efValues: Joi.array()
+    .items(Joi.number().positive().integer())
+    .min(1)
+    .optional(),
+  queries: Joi.array()
+    .items(Joi.array().items(Joi.number()).min(1))
+    .min(1)
+    .optional(),
+  queryCount: Joi.number().positive().integer().optional(),
+  seed: Joi.number().integer().optional(),
+}).allow(null);
+
+export const metadataSchema = Joi.object().unknown(true);
+
+// Mirrors EmbeddingInput, minus the collection name which comes from the path
+export const embeddingInputSchema = Joi.object({
+  embedding: Joi.array().items(Joi.number()).min(1).optional(),
+  documentId: Joi.string().required(),
+  document: Joi.string().allow("").required(),
+  metadata: metadataSchema.optional(),
+});
+
+export const updateEmbeddingSchema = Joi.object({
+  embedding: Joi.array().items(Joi.number()).min(1).optional(),
+  documentId: Joi.string().optional(),
+  document: Joi.string().allow("").optional(),
+  metadata: metadataSchema.optional(),
+}).min(1);
+
+// Mirrors BatchEmbeddingInput, minus the collection name which comes from the path
+export const batchEmbeddingInputSchema = Joi.object({
+  ids: Joi.array().items(Joi.string()).optional(),
+  embeddings: Joi.array()
+    .items(Joi.array().items(Joi.number()).min(1))
+    .min(1)
+    .optional(),
+  documents: Joi.array().items(Joi.string().allow("")).optional(),
+  documentIds: Joi.array().items(Joi.string()).optional(),
+  metadatas: Joi.array().items(metadataSchema).optional(),
+}).or("embeddings", "documents");
+
+export const whereSchema = Joi.object().unknown(true);
+
+// The operators themselves are checked when the filter is compiled
+export const whereDocumentSchema = Joi.object().unknown(true);
+
+export const hybridSearchSchema = Joi.object({
+  mode: Joi.string().valid("rrf", "alpha").optional(),
+  alpha: Joi.number().min(0).max(1).optional(),
+  rrfK: Joi.number().positive().optional(),
+  fetchK: Joi.number().positive().integer().optional(),
+});
+
+const queryInputKeys = {
+  embeddingIds: Joi.array().items(Joi.string()).optional(),
+  documentId: Joi.string().optional(),
+  where: whereSchema.optional(),
+  whereDocument: whereDocumentSchema.optional(),
+  include: Joi.array()
+    .items(Joi.string().valid(...INCLUDE_FIELDS))
+    .single()
+    .optional(),
+};
+
+const orderBySchema = Joi.object({
+  field: Joi.string().required(),
+  direction: Joi.string().valid("asc", "desc").optional(),
+});
+
+const pageKeys = {
+  limit: Joi.number().integer().min(1).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+  cursor: Joi.string().optional(),
+};
+
+// Mirrors GetInput, minus the collection name which comes from the path
+export const queryInputSchema = Joi.object({
+  ...queryInputKeys,
+  ...pageKeys,
+  orderBy: orderBySchema.optional(),
+}).oxor("offset", "cursor");
+
+// Query strings carry filters as JSON text
+const jsonObjectParamSchema = Joi.string().custom((value, helpers) => {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Reported below
+  }
+  return helpers.error("any.invalid");
+});
+
+// GetInput as a query string. Filters are JSON, include may repeat
+export const listEmbeddingsQuerySchema = Joi.object({
+  ...queryInputKeys,
+  ...pageKeys,
+  where: jsonObjectParamSchema.optional(),
+  whereDocument: jsonObjectParamSchema.optional(),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_LIST_PAGE_SIZE)
+    .default(DEFAULT_LIST_PAGE_SIZE),
+  embeddingIds: Joi.array().items(Joi.string()).single().optional(),
+  orderBy: Joi.string().optional(),
+  direction: Joi.string().valid("asc", "desc").optional(),
+}).oxor("offset", "cursor");
+
+export const mmrSchema = Joi.object({
+  lambda: Joi.number().min(0).max(1).optional(),
+  fetchK: Joi.number().positive().integer().optional(),
+});
+
+// Mirrors SearchQueryInput, minus the collection name which comes from the path
+export const searchQueryInputSchema = Joi.object({
+  ...queryInputKeys,
+  searchEmbedding: Joi.array().items(Joi.number()).min(1),
+  searchText: Joi.string(),
+  searchEmbeddings: Joi.array()
+    .items(Joi.array().items(Joi.number()).min(1))
+    .min(1),
+  searchTexts: Joi.array().items(Joi.string()).min(1),
+  nearestNeighbors: Joi.number().positive().integer().min(1).required(),
+  ef: Joi.number().positive().integer().optional(),
+  hybrid: hybridSearchSchema.optional(),
+  mmr: mmrSchema.optional(),
+})
+  .or("searchEmbedding", "searchText", "searchEmbeddings", "searchTexts")
+  .nand("hybrid", "mmr");
@@ -0,0 +1,168 @@
+import { IndexConfig } from "../types/index-config";
+import { IndexData } from "../types/index-data";
+import { Logger } from "../types/logger";
+import {
+  BenchmarkOptions,
+  BenchmarkResult,
+  BenchmarkRun,
+  LatencyPercentiles,
+} from "../types/benchmark";
+import { HnswIndex, DEFAULT_SPACE } from "../db/hnsw-index";
+import { distance } from "../utils/distance";
+import { InvalidArgumentError } from "../utils/errors";
+import { seededRandom } from "../utils/random";
+import { Validators } from "../utils/validators";
+
+const DEFAULT_K = 10;
+const DEFAULT_EF_VALUES = [10, 20, 50, 100, 200];
+const DEFAULT_QUERY_COUNT = 100;
+
+/**
+ * Measures what a collection's persisted hnsw index trades for its speed.
+ * The exact neighbours of every query are found by brute force over the
+ * stored embeddings, then the index is searched at each ef value and scored
+ * by recall@k and latency. The index is only read, each ef gets its own
+ * copy loaded from disk.
+ */
+export class CollectionBenchmark {
+  private _validator: Validators;
+
+  constructor(private indexConfig: IndexConfig, private logger: Logger) {
+    this._validator = new Validators();
+  }
+
+  public async run(
+    collectionName: string,
+    embeddings: IndexData[],
+    options: BenchmarkOptions = {}
+  ): Promise<BenchmarkResult> {
+    this._validator.assertValid(
+      this._validator.validateBenchmarkOptions(options)
+    );
+
+    const { numberOfDimensions } = this.indexConfig;
+    const space = this.indexConfig.space ?? DEFAULT_SPACE;
+    const k = Math.min(options.k ?? DEFAULT_K, embeddings.length);
+    if (!k) {
+      throw new InvalidArgumentError(
+        `Collection ${collectionName} holds no embeddings to benchmark`
+      );
+    }
+
+    const queries = options.queries ?? this.sampleQueries(embeddings, options);
+    const mismatched = queries.find((q) => q.length !== numberOfDimensions);
+    if (mismatched) {
+      throw new InvalidArgumentError(
+        `Query of dimension ${mismatched.length} does not match collection dimension ${numberOfDimensions}`
+      );
+    }
+
+    const groundTruthStart = process.hrtime.bigint();
+    const exact = queries.map((query) =>
+      nearestIds(embeddings, query, k, space)
+    );
+    const groundTruthMs = elapsedMs(groundTruthStart);
+
+    const index = new HnswIndex(this.indexConfig, this.logger);
+    if (index.loadError) {
+      throw new InvalidArgumentError(index.loadError);
+    }
+
+    const runs: BenchmarkRun[] = [];
+    for (const ef of options.efValues ?? DEFAULT_EF_VALUES) {
+      runs.push(await this.runAtEf(index, ef, queries, exact, k));
+    }
+
+    return {
+      collectionName,
+      backend: "hnsw",
+      space,
+      numberOfDimensions,
+      elementCount: embeddings.length,
+      k,
+      querySource: options.queries ? "provided" : "sampled",
+      queryCount: queries.length,
+      seed: options.queries ? undefined : options.seed,
+      groundTruthMs,
+      runs,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private async runAtEf(
+    index: HnswIndex,
+    ef: number,
+    queries: number[][],
+    exact: Set<string>[],
+    k: number
+  ): Promise<BenchmarkRun> {
+    const latencies: number[] = [];
+    let recallSum = 0;
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < queries.length; i++) {
+      const queryStart = process.hrtime.bigint();
+      const results = await index.search(queries[i], k, [], ef);
+      latencies.push(elapsedMs(queryStart));
+
+      const found = results.filter(({ id }) => exact[i].has(id)).length;
+      recallSum += found / exact[i].size;
+    }
+    const totalMs = elapsedMs(start);
+
+    this.logger.debug(`Benchmarked ef ${ef} over ${queries.length} queries`);
+    return {
+      ef,
+      recall: recallSum / queries.length,
+      latencyMs: percentiles(latencies),
+      queriesPerSecond: totalMs ? (queries.length * 1000) / totalMs : 0,
+    };
+  }
+
+  /**
+   * Picks stored embeddings as queries, without repeats while there are
+   * enough of them.
+   */
+  private sampleQueries(
+    embeddings: IndexData[],
+    { queryCount = DEFAULT_QUERY_COUNT, seed }: BenchmarkOptions
+  ): number[][] {
+    const random = seed === undefined ? Math.random : seededRandom(seed);
+    const order = embeddings.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    return Array.from(
+      { length: queryCount },
+      (_, i) => embeddings[order[i % order.length]].embedding
+    );
+  }
+}
+
+function nearestIds(
+  embeddings: IndexData[],
+  query: number[],
+  k: number,
+  space: IndexConfig["space"]
+): Set<string> {
+  const nearest = embeddings
+    .map(({ id, embedding }) => ({ id, d: distance(space, query, embedding) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, k);
+  return new Set(nearest.map(({ id }) => id));
+}
+
+/**
+ * Nearest-rank percentiles of the latencies, in milliseconds.
+ */
+function percentiles(latencies: number[]): LatencyPercentiles {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const at = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return { p50: at(0.5), p95: at(0.95), p99: at(0.99) };
+}
+
+function elapsedMs(start: bigint) {
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runCli } from "./run-cli";
+
+runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,37 @@
+import { ParseArgsConfig } from "util";
+
+export type CliOptions = NonNullable<ParseArgsConfig["options"]>;
+
+export type CliValues = Record<string, string | boolean | string[] | undefined>;
+
+/**
+ * A top-level command of the CLI. Its options are parsed together with the
+ * connection options every command accepts.
+ */
+export type CliCommand = {
+  name: string;
+  usage: string;
+  summary: string;
+  options: CliOptions;
+  run(values: CliValues, positionals: string[]): Promise<void>;
+};
+
+/**
+ * Wrong or missing arguments. The CLI prints the command's usage with it.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export function parseJsonOption(option: string, value: string) {
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    throw new UsageError(
+      `--${option} is not valid JSON: ${(err as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { ClientTransport } from "../client/client-transport";
+import { HttpTransport } from "../client/http-transport";
+import { InProcessTransport } from "../client/in-process-transport";
+import { SqliteDb } from "../db/sqlite-db";
+import { ApiConfig } from "../types/api-config";
+import { Logger } from "../types/logger";
+import { CliOptions, CliValues, UsageError } from "./cli-command";
+
+const DEFAULT_API_CONFIG: ApiConfig = {
+  port: 8000,
+  host: "localhost",
+  persistDirectory: ".ad-chroma",
+  dbName: "ad-chroma",
+};
+
+/**
+ * Accepted by every command. With `--url` a command talks to a server,
+ * otherwise it opens the database in the persist directory itself.
+ */
+export const CONNECTION_OPTIONS: CliOptions = {
+  url: { type: "string" },
+  "api-key": { type: "string" },
+  token: { type: "string" },
+  config: { type: "string", short: "c" },
+  "persist-directory": { type: "string" },
+  "db-name": { type: "string" },
+  verbose: { type: "boolean", short: "v" },
+};
+
+export type Connection = {
+  transport: ClientTransport;
+  close(): Promise<void>;
+};
+
+/**
+ * Builds an ApiConfig from, in increasing precedence, the defaults, a JSON
+ * config file, `AD_CHROMA_*` environment variables and flags. Credentials
+ * for `auth` can only come from the config file.
+ */
+export function loadApiConfig(
+  values: CliValues,
+  env: NodeJS.ProcessEnv = process.env
+): ApiConfig {
+  const configPath = (values.config as string) ?? env.AD_CHROMA_CONFIG;
+  let fileConfig: Partial<ApiConfig> = {};
+  if (configPath) {
+    if (!existsSync(configPath)) {
+      throw new UsageError(`Config file ${configPath} does not exist`);
+    }
+    try {
+      fileConfig = JSON.parse(readFileSync(configPath, "utf8"));
+    } catch (err) {
+      throw new UsageError(
+        `Config file ${configPath} is not valid JSON: ${(err as Error).message}`
+      );
+    }
+  }
+
+  const port = (values.port as string) ?? env.AD_CHROMA_PORT;
+  const overrides: Partial<ApiConfig> = {
+    port: port === undefined ? undefined : Number(port),
+    host: (values.host as string) ?? env.AD_CHROMA_HOST,
+    persistDirectory:
+      (values["persist-directory"] as string) ??
+      env.AD_CHROMA_PERSIST_DIRECTORY,
+    dbName: (values["db-name"] as string) ?? env.AD_CHROMA_DB_NAME,
+    // Only turns metrics on, a config file can still enable them otherwise
+    metrics:
+      (values.metrics as boolean) ||
+      env.AD_CHROMA_METRICS === "true" ||
+      undefined,
+  };
+
+  const config: ApiConfig = { ...DEFAULT_API_CONFIG, ...fileConfig };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      Object.assign(config, { [key]: value });
+    }
+  }
+  return config;
+}
+
+/**
+ * Connects to the server at `--url` or `AD_CHROMA_URL` when given, and to the
+ * local persist directory otherwise, migrating its schema first.
+ */
+export async function openConnection(
+  values: CliValues,
+  logger: Logger,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Connection> {
+  const url = (values.url as string) ?? env.AD_CHROMA_URL;
+  if (url) {
+    return {
+      transport: new HttpTransport({
+        url,
+        apiKey: (values["api-key"] as string) ?? env.AD_CHROMA_API_KEY,
+        bearerToken: (values.token as string) ?? env.AD_CHROMA_TOKEN,
+      }),
+      close: async () => {},
+    };
+  }
+
+  const db = openLocalDb(values, logger, env);
+  try {
+    await db.init();
+  } catch (err) {
+    await db.close();
+    throw err;
+  }
+  return {
+    transport: new InProcessTransport(db),
+    close: () => db.close(),
+  };
+}
+
+/**
+ * Opens the database in the local persist directory, creating the directory
+ * when missing. The caller initializes and closes it.
+ */
+export function openLocalDb(
+  values: CliValues,
+  logger: Logger,
+  env: NodeJS.ProcessEnv = process.env
+): SqliteDb {
+  const { persistDirectory, dbName } = loadApiConfig(values, env);
+  if (!existsSync(persistDirectory)) {
+    mkdirSync(persistDirectory, { recursive: true });
+  }
+  return new SqliteDb({ persistDirectory, dbName }, logger);
+}
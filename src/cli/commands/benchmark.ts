@@ -0,0 +1,124 @@
+import { readFileSync, writeFileSync } from "fs";
+import { BenchmarkOptions, BenchmarkResult } from "../../types/benchmark";
+import { CliCommand, CliValues, UsageError } from "../cli-command";
+import { formatTable } from "../format-table";
+import { withClient } from "../with-connection";
+
+export const benchmarkCommand: CliCommand = {
+  name: "benchmark",
+  usage: [
+    "benchmark <collection> [-k <results>] [--ef <10,20,...>]",
+    "  [--queries <count> | --query-file <json|jsonl>] [--seed <n>] [--out <file>]",
+  ].join("\n       "),
+  summary:
+    "Measure recall@k and latency of a collection's HNSW index at several ef values",
+  options: {
+    k: { type: "string", short: "k" },
+    ef: { type: "string" },
+    queries: { type: "string" },
+    "query-file": { type: "string" },
+    seed: { type: "string" },
+    out: { type: "string", short: "o" },
+  },
+  async run(values, positionals) {
+    if (positionals.length !== 1) {
+      throw new UsageError("benchmark takes exactly one collection name");
+    }
+    const [name] = positionals;
+    const options = toBenchmarkOptions(values);
+
+    await withClient(values, async (client) => {
+      const result = await client.benchmarkCollection(name, options);
+      const json = JSON.stringify(result, null, 2);
+      if (values.out) {
+        writeFileSync(values.out as string, json + "\n");
+        console.log(formatRuns(result));
+      } else {
+        console.log(json);
+        // The table goes to stderr so stdout stays valid JSON
+        console.error(formatRuns(result));
+      }
+    });
+  },
+};
+
+function toBenchmarkOptions(values: CliValues): BenchmarkOptions {
+  const options: BenchmarkOptions = {};
+  if (values.k) {
+    options.k = parseInteger("k", values.k as string);
+  }
+  if (values.ef) {
+    options.efValues = (values.ef as string)
+      .split(",")
+      .map((ef) => parseInteger("ef", ef.trim()));
+  }
+  if (values.queries && values["query-file"]) {
+    throw new UsageError("Pass either --queries or --query-file");
+  }
+  if (values.queries) {
+    options.queryCount = parseInteger("queries", values.queries as string);
+  }
+  if (values["query-file"]) {
+    options.queries = readQueryFile(values["query-file"] as string);
+  }
+  if (values.seed) {
+    options.seed = parseInteger("seed", values.seed as string);
+  }
+  return options;
+}
+
+function parseInteger(option: string, value: string) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new UsageError(`--${option} must be an integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads query embeddings from a JSON array of arrays, or from JSONL with an
+ * array or an object with an `embedding` on each line.
+ */
+function readQueryFile(path: string): number[][] {
+  const text = readFileSync(path, "utf8").trim();
+  const parse = (line: string, lineNumber: number) => {
+    try {
+      return JSON.parse(line);
+    } catch (err) {
+      throw new UsageError(
+        `Line ${lineNumber} of ${path} is not valid JSON: ${(err as Error).message}`
+      );
+    }
+  };
+
+  const parsed: unknown[] = text.startsWith("[[")
+    ? parse(text, 1)
+    : text
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line, i) => parse(line, i + 1));
+
+  return parsed.map((entry, i) => {
+    const embedding = Array.isArray(entry)
+      ? entry
+      : (entry as { embedding?: unknown })?.embedding;
+    if (!Array.isArray(embedding) || !embedding.every(Number.isFinite)) {
+      throw new UsageError(`Query ${i + 1} of ${path} is not an embedding`);
+    }
+    return embedding;
+  });
+}
+
+function formatRuns(result: BenchmarkResult) {
+  return formatTable(
+    ["EF", `RECALL@${result.k}`, "P50 MS", "P95 MS", "P99 MS", "QPS"],
+    result.runs.map(({ ef, recall, latencyMs, queriesPerSecond }) => [
+      String(ef),
+      recall.toFixed(4),
+      latencyMs.p50.toFixed(3),
+      latencyMs.p95.toFixed(3),
+      latencyMs.p99.toFixed(3),
+      queriesPerSecond.toFixed(0),
+    ])
+  );
+}
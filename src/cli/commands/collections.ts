@@ -0,0 +1,147 @@
+import { AdChromaClient } from "../../client/client";
+import { CollectionRowMetadata } from "../../types/collection-row";
+import {
+  CliCommand,
+  CliValues,
+  parseJsonOption,
+  UsageError,
+} from "../cli-command";
+import { withClient } from "../with-connection";
+import { formatTable } from "../format-table";
+
+const USAGE = [
+  "collections list",
+  "collections create <name> --dimensions <n> [--space l2|ip|cosine] [--embedding-function <json>]",
+  "  [--index hnsw|flat|auto] [--m <n>] [--ef-construction <n>] [--quantization none|int8]",
+  "collections delete <name>",
+  "collections info <name>",
+].join("\n       ");
+
+export const collectionsCommand: CliCommand = {
+  name: "collections",
+  usage: USAGE,
+  summary: "List, create, delete or describe collections",
+  options: {
+    dimensions: { type: "string", short: "d" },
+    space: { type: "string" },
+    "embedding-function": { type: "string" },
+    index: { type: "string" },
+    m: { type: "string" },
+    "ef-construction": { type: "string" },
+    quantization: { type: "string" },
+    json: { type: "boolean" },
+  },
+  async run(values, [subcommand, name, ...rest]) {
+    if (rest.length) {
+      throw new UsageError(`Unexpected arguments: ${rest.join(" ")}`);
+    }
+    if (subcommand !== "list" && !name) {
+      throw new UsageError(`collections ${subcommand ?? ""} needs a name`);
+    }
+
+    await withClient(values, async (client) => {
+      switch (subcommand) {
+        case "list":
+          return list(client, values);
+        case "create":
+          return create(client, name, values);
+        case "delete":
+          await client.deleteCollection(name);
+          console.log(`Deleted collection ${name}`);
+          return;
+        case "info":
+          return info(client, name, values);
+        default:
+          throw new UsageError(
+            `Unknown collections subcommand ${subcommand ?? ""}`
+          );
+      }
+    });
+  },
+};
+
+async function list(client: AdChromaClient, values: CliValues) {
+  const collections = await client.listCollections();
+  const rows = await Promise.all(
+    collections.map(async (collection) => ({
+      name: collection.name,
+      id: collection.id,
+      metadata: collection.metadata,
+      count: await collection.count(),
+    }))
+  );
+
+  if (values.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  console.log(
+    formatTable(
+      ["NAME", "DIMENSIONS", "SPACE", "COUNT", "ID"],
+      rows.map(({ name, id, metadata, count }) => [
+        name,
+        String(metadata.numberOfDimensions),
+        metadata.space,
+        String(count),
+        id,
+      ])
+    )
+  );
+}
+
+async function create(
+  client: AdChromaClient,
+  name: string,
+  values: CliValues
+) {
+  const numberOfDimensions = Number(values.dimensions);
+  if (!values.dimensions || !Number.isInteger(numberOfDimensions)) {
+    throw new UsageError("collections create needs an integer --dimensions");
+  }
+
+  const metadata: CollectionRowMetadata = { numberOfDimensions };
+  if (values.space) {
+    metadata.space = values.space as CollectionRowMetadata["space"];
+  }
+  if (values.index) {
+    metadata.indexBackend = values.index as CollectionRowMetadata["indexBackend"];
+  }
+  if (values.m) {
+    metadata.M = Number(values.m);
+  }
+  if (values["ef-construction"]) {
+    metadata.efConstruction = Number(values["ef-construction"]);
+  }
+  if (values.quantization) {
+    metadata.quantization =
+      values.quantization as CollectionRowMetadata["quantization"];
+  }
+  if (values["embedding-function"]) {
+    metadata.embeddingFunction = parseJsonOption(
+      "embedding-function",
+      values["embedding-function"] as string
+    );
+  }
+
+  const collection = await client.createCollection(name, metadata);
+  console.log(`Created collection ${collection.name} (${collection.id})`);
+}
+
+async function info(client: AdChromaClient, name: string, values: CliValues) {
+  const collection = await client.getCollection(name);
+  const details = {
+    name: collection.name,
+    id: collection.id,
+    count: await collection.count(),
+    metadata: collection.metadata,
+  };
+
+  if (values.json) {
+    console.log(JSON.stringify(details, null, 2));
+    return;
+  }
+  console.log(`Name:  ${details.name}`);
+  console.log(`Id:    ${details.id}`);
+  console.log(`Count: ${details.count}`);
+  console.log(`Metadata:\n${JSON.stringify(details.metadata, null, 2)}`);
+}
@@ -0,0 +1,28 @@
+import { writeFileSync } from "fs";
+import { packSnapshot } from "../../db/collection-snapshot";
+import { CliCommand, UsageError } from "../cli-command";
+import { withClient } from "../with-connection";
+
+export const exportCommand: CliCommand = {
+  name: "export",
+  usage: "export <collection> [--out <file>]",
+  summary: "Write a collection with its index to a portable archive",
+  options: {
+    out: { type: "string", short: "o" },
+  },
+  async run(values, positionals) {
+    if (positionals.length !== 1) {
+      throw new UsageError("export takes exactly one collection name");
+    }
+    const [name] = positionals;
+    const out = (values.out as string) ?? `${name}.tar.gz`;
+
+    await withClient(values, async (client) => {
+      const snapshot = await client.exportCollection(name);
+      writeFileSync(out, packSnapshot(snapshot));
+      console.log(
+        `Exported ${snapshot.records.length} embeddings of ${name} to ${out}`
+      );
+    });
+  },
+};
@@ -0,0 +1,123 @@
+import { readFileSync } from "fs";
+import { unpackSnapshot } from "../../db/collection-snapshot";
+import { AdChromaClient } from "../../client/client";
+import { CollectionImporter } from "../../import/collection-importer";
+import {
+  ImportColumnMapping,
+  ImportFormat,
+  ImportProgress,
+} from "../../types/import-options";
+import { CliCommand, CliValues, UsageError } from "../cli-command";
+import { withConnection } from "../with-connection";
+
+const MAPPED_FIELDS = ["id", "embedding", "document", "documentId", "metadata"];
+
+const USAGE = [
+  "import <archive> [--name <collection>] [--id-prefix <prefix>]",
+  "import <file> --collection <name> --format jsonl|csv|npy [--ids <file>]",
+  "       [--map <field>=<column>]... [--metadata-columns <a,b>] [--delimiter <char>]",
+  "       [--batch-size <n>] [--checkpoint <file>]",
+].join("\n       ");
+
+export const importCommand: CliCommand = {
+  name: "import",
+  usage: USAGE,
+  summary:
+    "Restore a collection from an export archive, or bulk load a JSONL, CSV or .npy file into one",
+  options: {
+    name: { type: "string" },
+    "id-prefix": { type: "string" },
+    collection: { type: "string" },
+    format: { type: "string", short: "f" },
+    ids: { type: "string" },
+    map: { type: "string", multiple: true },
+    "metadata-columns": { type: "string" },
+    delimiter: { type: "string" },
+    "batch-size": { type: "string" },
+    checkpoint: { type: "string" },
+  },
+  async run(values, positionals) {
+    if (positionals.length !== 1) {
+      throw new UsageError("import takes exactly one file");
+    }
+    const [path] = positionals;
+
+    if (!values.format) {
+      await withConnection(values, async ({ transport }) => {
+        const client = new AdChromaClient(transport);
+        const snapshot = unpackSnapshot(readFileSync(path));
+        const collection = await client.importCollection(
+          snapshot,
+          values.name as string | undefined,
+          values["id-prefix"] as string | undefined
+        );
+        console.log(
+          `Imported collection ${collection.name} with ${snapshot.records.length} embeddings`
+        );
+      });
+      return;
+    }
+
+    if (!values.collection) {
+      throw new UsageError("Importing a data file needs --collection");
+    }
+    const batchSize = values["batch-size"]
+      ? Number(values["batch-size"])
+      : undefined;
+
+    await withConnection(values, async ({ transport }, logger) => {
+      const importer = new CollectionImporter(transport, logger);
+      const result = await importer.run({
+        collectionName: values.collection as string,
+        format: values.format as ImportFormat,
+        path,
+        mapping: parseMapping(values),
+        delimiter: values.delimiter as string | undefined,
+        idsPath: values.ids as string | undefined,
+        batchSize,
+        checkpointPath: values.checkpoint as string | undefined,
+        onProgress: reportProgress,
+      });
+
+      if (process.stderr.isTTY) {
+        process.stderr.write("\n");
+      }
+      console.log(
+        `Imported ${result.imported} records into ${values.collection}${
+          result.resumedFrom
+            ? `, resuming after record ${result.resumedFrom.records}`
+            : ""
+        }`
+      );
+    });
+  },
+};
+
+function parseMapping(values: CliValues): ImportColumnMapping | undefined {
+  const mapping: ImportColumnMapping = {};
+
+  for (const entry of (values.map as string[] | undefined) ?? []) {
+    const [field, column] = entry.split("=", 2);
+    if (!MAPPED_FIELDS.includes(field) || !column) {
+      throw new UsageError(
+        `--map ${entry} must look like <field>=<column> with a field of ${MAPPED_FIELDS.join(", ")}`
+      );
+    }
+    Object.assign(mapping, { [field]: column });
+  }
+
+  if (values["metadata-columns"]) {
+    mapping.metadata = (values["metadata-columns"] as string)
+      .split(",")
+      .map((column) => column.trim())
+      .filter((column) => column.length);
+  }
+
+  return Object.keys(mapping).length ? mapping : undefined;
+}
+
+function reportProgress({ processed, bytesRead, totalBytes }: ImportProgress) {
+  const percent = totalBytes ? Math.floor((bytesRead / totalBytes) * 100) : 100;
+  const line = `Processed ${processed} records (${percent}%)`;
+  process.stderr.write(process.stderr.isTTY ? `\r${line}` : `${line}\n`);
+}
@@ -0,0 +1,48 @@
+import { CliCommand, UsageError } from "../cli-command";
+import { openLocalDb } from "../cli-config";
+import { createConsoleLogger } from "../console-logger";
+
+export const migrateCommand: CliCommand = {
+  name: "migrate",
+  usage: "migrate [--status]",
+  summary: "Apply pending schema migrations to the local database",
+  options: {
+    status: { type: "boolean" },
+  },
+  async run(values, positionals) {
+    if (positionals.length) {
+      throw new UsageError("migrate takes no arguments");
+    }
+    if (values.url ?? process.env.AD_CHROMA_URL) {
+      throw new UsageError(
+        "migrate runs against a local persist directory, a server migrates its own on start"
+      );
+    }
+
+    const logger = createConsoleLogger(values.verbose ? "debug" : "warn");
+    const db = openLocalDb(values, logger);
+    try {
+      const { applied, pending } = await db.migrationStatus();
+      if (values.status) {
+        for (const name of applied) {
+          console.log(`applied  ${name}`);
+        }
+        for (const name of pending) {
+          console.log(`pending  ${name}`);
+        }
+        return;
+      }
+
+      if (!pending.length) {
+        console.log("Schema is up to date");
+        return;
+      }
+      await db.init();
+      for (const name of pending) {
+        console.log(`Applied ${name}`);
+      }
+    } finally {
+      await db.close();
+    }
+  },
+};
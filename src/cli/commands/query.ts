@@ -0,0 +1,136 @@
+import { SearchResult } from "../../types/index-search-result";
+import { SearchQueryInput } from "../../types/query-input";
+import {
+  CliCommand,
+  CliValues,
+  parseJsonOption,
+  UsageError,
+} from "../cli-command";
+import { formatTable, truncate } from "../format-table";
+import { withClient } from "../with-connection";
+
+const DEFAULT_RESULTS = 10;
+const DOCUMENT_WIDTH = 60;
+const METADATA_WIDTH = 40;
+
+export const queryCommand: CliCommand = {
+  name: "query",
+  usage: [
+    "query <collection> (--embedding <1,2,...> | --text <text>) [-n <results>]",
+    "  [--where <json>] [--where-document <json>] [--hybrid [--alpha <0..1>]]",
+    "  [--mmr [--lambda <0..1>]] [--ef <n>] [--json]",
+  ].join("\n       "),
+  summary: "Run a vector, text or hybrid search and print the nearest results",
+  options: {
+    embedding: { type: "string", short: "e" },
+    text: { type: "string", short: "t" },
+    n: { type: "string", short: "n" },
+    where: { type: "string" },
+    "where-document": { type: "string" },
+    hybrid: { type: "boolean" },
+    alpha: { type: "string" },
+    mmr: { type: "boolean" },
+    lambda: { type: "string" },
+    ef: { type: "string" },
+    json: { type: "boolean" },
+  },
+  async run(values, positionals) {
+    if (positionals.length !== 1) {
+      throw new UsageError("query takes exactly one collection name");
+    }
+    const [collectionName] = positionals;
+    const queryInput = toSearchQueryInput(values);
+
+    await withClient(values, async (client) => {
+      const collection = await client.getCollection(collectionName);
+      const results = await collection.query(queryInput);
+
+      if (values.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else if (!results.length) {
+        console.log("No results");
+      } else {
+        console.log(formatResults(results, Boolean(values.hybrid)));
+      }
+    });
+  },
+};
+
+function toSearchQueryInput(
+  values: CliValues
+): Omit<SearchQueryInput, "collectionName"> {
+  if (!values.embedding && values.text === undefined) {
+    throw new UsageError("query needs --embedding or --text");
+  }
+
+  const nearestNeighbors = Number(values.n ?? DEFAULT_RESULTS);
+  if (!Number.isInteger(nearestNeighbors) || nearestNeighbors < 1) {
+    throw new UsageError("-n must be a positive integer");
+  }
+
+  const queryInput: Omit<SearchQueryInput, "collectionName"> = {
+    nearestNeighbors,
+    searchText: values.text as string | undefined,
+    // The table never shows embeddings, so they are not fetched
+    include: values.json
+      ? undefined
+      : ["documents", "metadatas", "distances"],
+  };
+  if (values.embedding) {
+    queryInput.searchEmbedding = (values.embedding as string)
+      .replace(/^\[|\]$/g, "")
+      .split(/[\s,]+/)
+      .filter((value) => value.length)
+      .map(Number);
+    if (queryInput.searchEmbedding.some((value) => !Number.isFinite(value))) {
+      throw new UsageError("--embedding must be a list of numbers");
+    }
+  }
+  if (values.where) {
+    queryInput.where = parseJsonOption("where", values.where as string);
+  }
+  if (values["where-document"]) {
+    queryInput.whereDocument = parseJsonOption(
+      "where-document",
+      values["where-document"] as string
+    );
+  }
+  if (values.hybrid) {
+    queryInput.hybrid = values.alpha
+      ? { mode: "alpha", alpha: Number(values.alpha) }
+      : {};
+  }
+  if (values.mmr) {
+    queryInput.mmr = values.lambda ? { lambda: Number(values.lambda) } : {};
+  }
+  if (values.ef) {
+    queryInput.ef = Number(values.ef);
+  }
+
+  return queryInput;
+}
+
+function formatResults(results: SearchResult[], hybrid: boolean) {
+  const headers = ["#", "ID", "DISTANCE"];
+  if (hybrid) {
+    headers.push("SCORE");
+  }
+  headers.push("DOCUMENT", "METADATA");
+
+  const rows = results.map((result, i) => {
+    const row = [String(i + 1), result.id, result.distance.toFixed(4)];
+    if (hybrid) {
+      row.push(result.score?.toFixed(4) ?? "");
+    }
+    row.push(
+      truncate(result.document ?? "", DOCUMENT_WIDTH),
+      truncate(
+        result.metadata ? JSON.stringify(result.metadata) : "",
+        METADATA_WIDTH
+      )
+    );
+    return row;
+  });
+
+  return formatTable(headers, rows);
+}
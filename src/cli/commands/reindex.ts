@@ -0,0 +1,20 @@
+import { CliCommand, UsageError } from "../cli-command";
+import { withClient } from "../with-connection";
+
+export const reindexCommand: CliCommand = {
+  name: "reindex",
+  usage: "reindex <collection>",
+  summary: "Rebuild a collection's HNSW index from the stored embeddings",
+  options: {},
+  async run(values, positionals) {
+    if (positionals.length !== 1) {
+      throw new UsageError("reindex takes exactly one collection name");
+    }
+    const [name] = positionals;
+
+    await withClient(values, async (client) => {
+      const count = await client.reindexCollection(name);
+      console.log(`Reindexed ${count} embeddings of ${name}`);
+    });
+  },
+};
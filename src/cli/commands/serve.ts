@@ -0,0 +1,37 @@
+import { existsSync, mkdirSync } from "fs";
+import { HapiApi } from "../../api/hapi-api";
+import { CliCommand, UsageError } from "../cli-command";
+import { loadApiConfig } from "../cli-config";
+import { createConsoleLogger } from "../console-logger";
+
+export const serveCommand: CliCommand = {
+  name: "serve",
+  usage: "serve [--port <port>] [--host <host>] [--metrics] [--config <file>]",
+  summary: "Run the HTTP server until interrupted",
+  options: {
+    port: { type: "string", short: "p" },
+    host: { type: "string" },
+    metrics: { type: "boolean" },
+  },
+  async run(values) {
+    if (values.url) {
+      throw new UsageError("serve runs a server itself and does not take --url");
+    }
+
+    const config = loadApiConfig(values);
+    if (!existsSync(config.persistDirectory)) {
+      mkdirSync(config.persistDirectory, { recursive: true });
+    }
+
+    const logger = createConsoleLogger(values.verbose ? "debug" : "info");
+    const api = new HapiApi(config, logger);
+    await api.start();
+
+    await new Promise((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    logger.info("Shutting down");
+    await api.stop();
+  },
+};
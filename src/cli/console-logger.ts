@@ -0,0 +1,27 @@
+import { Logger } from "../types/logger";
+
+const LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LEVELS)[number];
+
+/**
+ * Logs to stderr, so command output on stdout stays machine-readable.
+ */
+export function createConsoleLogger(minimumLevel: LogLevel = "info"): Logger {
+  const enabled = (level: LogLevel) =>
+    LEVELS.indexOf(level) >= LEVELS.indexOf(minimumLevel);
+  const log =
+    (level: LogLevel) =>
+    (...args: unknown[]) => {
+      if (enabled(level)) {
+        console.error(`[${level}]`, ...args);
+      }
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
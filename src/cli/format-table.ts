@@ -0,0 +1,22 @@
+/**
+ * Lays out rows as left-aligned, space-separated columns under a header.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (cell ?? "").padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  return [formatRow(headers), ...rows.map(formatRow)].join("\n");
+}
+
+export function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
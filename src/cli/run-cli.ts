@@ -0,0 +1,100 @@
+import { parseArgs } from "util";
+import { CliCommand, UsageError } from "./cli-command";
+import { CONNECTION_OPTIONS } from "./cli-config";
+import { benchmarkCommand } from "./commands/benchmark";
+import { collectionsCommand } from "./commands/collections";
+import { exportCommand } from "./commands/export";
+import { importCommand } from "./commands/import";
+import { migrateCommand } from "./commands/migrate";
+import { queryCommand } from "./commands/query";
+import { reindexCommand } from "./commands/reindex";
+import { serveCommand } from "./commands/serve";
+
+const COMMANDS: CliCommand[] = [
+  serveCommand,
+  collectionsCommand,
+  importCommand,
+  exportCommand,
+  queryCommand,
+  reindexCommand,
+  benchmarkCommand,
+  migrateCommand,
+];
+
+const CONNECTION_HELP = `Connection options:
+  --url <url>                 Use the server at this URL (or AD_CHROMA_URL)
+  --api-key <key>             API key for the server (or AD_CHROMA_API_KEY)
+  --token <token>             Bearer token for the server (or AD_CHROMA_TOKEN)
+  -c, --config <file>         JSON ApiConfig file (or AD_CHROMA_CONFIG)
+  --persist-directory <dir>   Local data directory (or AD_CHROMA_PERSIST_DIRECTORY)
+  --db-name <name>            Local database name (or AD_CHROMA_DB_NAME)
+  -v, --verbose               Log debug output to stderr
+
+Without --url, commands open the local persist directory directly.`;
+
+/**
+ * Runs the command named by the first argument and resolves with the exit
+ * code. Errors are printed rather than thrown.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    console.log(usage());
+    return 0;
+  }
+
+  const command = COMMANDS.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`Unknown command ${name}\n\n${usage()}`);
+    return 2;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: {
+        ...CONNECTION_OPTIONS,
+        ...command.options,
+        help: { type: "boolean", short: "h" },
+      },
+      allowPositionals: true,
+    });
+    if (values.help) {
+      console.log(`Usage: ad-chroma ${command.usage}\n\n${CONNECTION_HELP}`);
+      return 0;
+    }
+
+    await command.run(values, positionals);
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError || isParseArgsError(err)) {
+      console.error(
+        `${(err as Error).message}\n\nUsage: ad-chroma ${command.usage}`
+      );
+      return 2;
+    }
+    console.error(`${(err as Error).name}: ${(err as Error).message}`);
+    return 1;
+  }
+}
+
+function usage() {
+  const commands = COMMANDS.map(
+    ({ name, summary }) => `  ${name.padEnd(12)}${summary}`
+  ).join("\n");
+  return `Usage: ad-chroma <command> [options]
+
+Commands:
+${commands}
+
+Run ad-chroma <command> --help for the options of a command.
+
+${CONNECTION_HELP}`;
+}
+
+function isParseArgsError(err: unknown) {
+  return (
+    err instanceof TypeError &&
+    String((err as NodeJS.ErrnoException).code).startsWith("ERR_PARSE_ARGS")
+  );
+}
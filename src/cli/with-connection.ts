@@ -0,0 +1,31 @@
+import { AdChromaClient } from "../client/client";
+import { Logger } from "../types/logger";
+import { CliValues } from "./cli-command";
+import { Connection, openConnection } from "./cli-config";
+import { createConsoleLogger } from "./console-logger";
+
+/**
+ * Runs a command against a connection and closes it afterwards, also when
+ * the command fails.
+ */
+export async function withConnection<T>(
+  values: CliValues,
+  run: (connection: Connection, logger: Logger) => Promise<T>
+): Promise<T> {
+  const logger = createConsoleLogger(values.verbose ? "debug" : "warn");
+  const connection = await openConnection(values, logger);
+  try {
+    return await run(connection, logger);
+  } finally {
+    await connection.close();
+  }
+}
+
+export async function withClient<T>(
+  values: CliValues,
+  run: (client: AdChromaClient) => Promise<T>
+): Promise<T> {
+  return withConnection(values, ({ transport }) =>
+    run(new AdChromaClient(transport))
+  );
+}
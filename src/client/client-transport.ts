@@ -0,0 +1,54 @@
+import { BatchEmbeddingInput } from "../types/batch-embedding-input";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { CollectionSnapshot } from "../types/collection-snapshot";
+import { EmbeddingInput } from "../types/embedding-input";
+import { EmbeddingPage } from "../types/embedding-page";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "../types/embedding-row";
+import { SearchResult } from "../types/index-search-result";
+import { GetInput, SearchQueryInput } from "../types/query-input";
+
+/**
+ * The operations a client needs, with the signatures of the Db layer. The
+ * HTTP transport calls a server for them, the in-process one calls a Db
+ * directly, and both throw the same typed errors.
+ */
+export interface ClientTransport {
+  createCollection(
+    name: string,
+    metadata: CollectionRowMetadata,
+    getOrCreate: boolean
+  ): Promise<CollectionRow>;
+  listCollections(): Promise<CollectionRow[]>;
+  updateCollection(
+    currentName: string,
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow>;
+  deleteCollection(name: string): Promise<void>;
+  exportCollection(name: string): Promise<CollectionSnapshot>;
+  importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow>;
+  reindexCollection(name: string): Promise<number>;
+  benchmarkCollection(
+    name: string,
+    options?: BenchmarkOptions
+  ): Promise<BenchmarkResult>;
+  peek(collectionName: string, n?: number): Promise<EmbeddingRow[]>;
+  addEmbeddings(input: BatchEmbeddingInput): Promise<string[]>;
+  upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]>;
+  updateEmbedding(
+    input: EmbeddingInput & { embeddingId: string }
+  ): Promise<void>;
+  get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]>;
+  getPage(queryInput: GetInput): Promise<EmbeddingPage>;
+  getNearestNeighbors(queryInput: SearchQueryInput): Promise<SearchResult[]>;
+  getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]>;
+  countEmbeddingsByCollectionName(collectionName: string): Promise<number>;
+  deleteEmbedding(collectionName: string, embeddingId: string): Promise<void>;
+}
@@ -0,0 +1,98 @@
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { CollectionRowMetadata } from "../types/collection-row";
+import { CollectionSnapshot } from "../types/collection-snapshot";
+import { Db } from "../types/db";
+import { HttpClientOptions } from "../types/http-client-options";
+import { NotFoundError } from "../utils/errors";
+import { ClientTransport } from "./client-transport";
+import { Collection } from "./collection";
+import { HttpTransport } from "./http-transport";
+import { InProcessTransport } from "./in-process-transport";
+
+/**
+ * Entry point of the client SDK. Use `AdChromaClient.http` to talk to a
+ * server and `AdChromaClient.inProcess` to use a Db directly; the returned
+ * collections behave the same either way.
+ */
+export class AdChromaClient {
+  constructor(private transport: ClientTransport) {}
+
+  public static http(options: HttpClientOptions): AdChromaClient {
+    return new AdChromaClient(new HttpTransport(options));
+  }
+
+  public static inProcess(db: Db): AdChromaClient {
+    return new AdChromaClient(new InProcessTransport(db));
+  }
+
+  public async listCollections(): Promise<Collection[]> {
+    const rows = await this.transport.listCollections();
+    return rows.map((row) => new Collection(this.transport, row));
+  }
+
+  public async getCollection(name: string): Promise<Collection> {
+    const row = (await this.transport.listCollections()).find(
+      (collection) => collection.name === name
+    );
+    if (!row) {
+      throw new NotFoundError(`Collection ${name} does not exist`);
+    }
+    return new Collection(this.transport, row);
+  }
+
+  public async createCollection(
+    name: string,
+    metadata: CollectionRowMetadata
+  ): Promise<Collection> {
+    const row = await this.transport.createCollection(name, metadata, false);
+    return new Collection(this.transport, row);
+  }
+
+  public async getOrCreateCollection(
+    name: string,
+    metadata: CollectionRowMetadata
+  ): Promise<Collection> {
+    const row = await this.transport.createCollection(name, metadata, true);
+    return new Collection(this.transport, row);
+  }
+
+  public async deleteCollection(name: string): Promise<void> {
+    await this.transport.deleteCollection(name);
+  }
+
+  /**
+   * Rebuilds a collection's index from its stored embeddings and returns how
+   * many were indexed.
+   */
+  public async reindexCollection(name: string): Promise<number> {
+    return this.transport.reindexCollection(name);
+  }
+
+  /**
+   * Measures recall and latency of a collection's hnsw index at several ef
+   * values, against exact search over its stored embeddings.
+   */
+  public async benchmarkCollection(
+    name: string,
+    options?: BenchmarkOptions
+  ): Promise<BenchmarkResult> {
+    return this.transport.benchmarkCollection(name, options);
+  }
+
+  public async exportCollection(name: string): Promise<CollectionSnapshot> {
+    return this.transport.exportCollection(name);
+  }
+
+  public async importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<Collection> {
+    const row = await this.transport.importCollection(
+      snapshot,
+      newName,
+      idPrefix
+    );
+    return new Collection(this.transport, row);
+  }
+}
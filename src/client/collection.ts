@@ -0,0 +1,143 @@
+import { BatchEmbeddingInput } from "../types/batch-embedding-input";
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { EmbeddingInput } from "../types/embedding-input";
+import { EmbeddingPage } from "../types/embedding-page";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "../types/embedding-row";
+import { SearchResult } from "../types/index-search-result";
+import { GetInput, SearchQueryInput } from "../types/query-input";
+import { ClientTransport } from "./client-transport";
+
+type WithoutCollection<T> = Omit<T, "collectionName">;
+
+/**
+ * A handle on one collection. Every call goes through the transport, so the
+ * handle stays valid for as long as the collection exists under its name.
+ */
+export class Collection {
+  private _name: string;
+  private _id: string;
+  private _metadata: CollectionRowMetadata;
+
+  constructor(private transport: ClientTransport, row: CollectionRow) {
+    this.setRow(row);
+  }
+
+  public get name(): string {
+    return this._name;
+  }
+
+  public get id(): string {
+    return this._id;
+  }
+
+  public get metadata(): CollectionRowMetadata {
+    return this._metadata;
+  }
+
+  public add(input: WithoutCollection<BatchEmbeddingInput>): Promise<string[]> {
+    return this.transport.addEmbeddings({
+      ...input,
+      collectionName: this._name,
+    });
+  }
+
+  public upsert(
+    input: WithoutCollection<BatchEmbeddingInput>
+  ): Promise<string[]> {
+    return this.transport.upsertEmbeddings({
+      ...input,
+      collectionName: this._name,
+    });
+  }
+
+  public update(
+    embeddingId: string,
+    input: WithoutCollection<EmbeddingInput>
+  ): Promise<void> {
+    return this.transport.updateEmbedding({
+      ...input,
+      collectionName: this._name,
+      embeddingId,
+    });
+  }
+
+  public get(
+    queryInput: WithoutCollection<GetInput> = {}
+  ): Promise<ProjectedEmbeddingRow[]> {
+    return this.transport.get({ ...queryInput, collectionName: this._name });
+  }
+
+  /**
+   * Gets one page along with the total number of matches. Pass the returned
+   * nextCursor back as `cursor` for the following page.
+   */
+  public getPage(
+    queryInput: WithoutCollection<GetInput> = {}
+  ): Promise<EmbeddingPage> {
+    return this.transport.getPage({
+      ...queryInput,
+      collectionName: this._name,
+    });
+  }
+
+  public query(
+    queryInput: WithoutCollection<SearchQueryInput>
+  ): Promise<SearchResult[]> {
+    return this.transport.getNearestNeighbors({
+      ...queryInput,
+      collectionName: this._name,
+    });
+  }
+
+  /**
+   * Runs several queries, given as searchEmbeddings and/or searchTexts, and
+   * returns one result list per query.
+   */
+  public queryBatch(
+    queryInput: WithoutCollection<SearchQueryInput>
+  ): Promise<SearchResult[][]> {
+    return this.transport.getNearestNeighborsBatch({
+      ...queryInput,
+      collectionName: this._name,
+    });
+  }
+
+  public peek(n?: number): Promise<EmbeddingRow[]> {
+    return this.transport.peek(this._name, n);
+  }
+
+  public count(): Promise<number> {
+    return this.transport.countEmbeddingsByCollectionName(this._name);
+  }
+
+  /**
+   * Deletes embeddings by id, one request each.
+   */
+  public async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.transport.deleteEmbedding(this._name, id);
+    }
+  }
+
+  /**
+   * Renames the collection and/or changes its settings, then points this
+   * handle at the result.
+   */
+  public async modify({
+    name,
+    metadata,
+  }: {
+    name?: string;
+    metadata?: Partial<CollectionRowMetadata>;
+  }): Promise<void> {
+    this.setRow(
+      await this.transport.updateCollection(this._name, name, metadata)
+    );
+  }
+
+  private setRow({ id, name, metadata }: CollectionRow) {
+    this._id = id;
+    this._name = name;
+    this._metadata = JSON.parse(metadata);
+  }
+}
@@ -0,0 +1,412 @@
+import * as http from "http";
+import * as https from "https";
+import { BatchEmbeddingInput } from "../types/batch-embedding-input";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { CollectionSnapshot } from "../types/collection-snapshot";
+import { EmbeddingInput } from "../types/embedding-input";
+import { EmbeddingPage } from "../types/embedding-page";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "../types/embedding-row";
+import { HttpClientOptions } from "../types/http-client-options";
+import { SearchResult } from "../types/index-search-result";
+import { GetInput, SearchQueryInput } from "../types/query-input";
+import {
+  BatchValidationError,
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  InvalidArgumentError,
+  NotFoundError,
+  TimeoutError,
+  UnauthorizedError,
+} from "../utils/errors";
+import { Validators } from "../utils/validators";
+import {
+  packSnapshot,
+  SNAPSHOT_CONTENT_TYPE,
+  unpackSnapshot,
+} from "../db/collection-snapshot";
+import { ClientTransport } from "./client-transport";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 200;
+// Gateway and overload responses that a later attempt may not get
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+const RETRYABLE_NETWORK_ERRORS = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+];
+
+type RequestOptions = {
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  // Only requests that can safely run twice are retried
+  idempotent: boolean;
+  // Overrides the client's timeout, 0 waits indefinitely
+  timeoutMs?: number;
+};
+
+type Response = {
+  statusCode: number;
+  contentType: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+};
+
+/**
+ * Calls an ad-chroma server over HTTP. Error responses are thrown as the
+ * same typed errors the Db layer throws, network failures and timeouts are
+ * retried with exponential backoff when the request is idempotent.
+ */
+export class HttpTransport implements ClientTransport {
+  constructor(private options: HttpClientOptions) {
+    const validator = new Validators();
+    validator.assertValid(validator.validateHttpClientOptions(options));
+  }
+
+  public async createCollection(
+    name: string,
+    metadata: CollectionRowMetadata,
+    getOrCreate: boolean
+  ): Promise<CollectionRow> {
+    return this.json("POST", "/api/v1/collections", {
+      body: { name, metadata, getOrCreate },
+      idempotent: getOrCreate,
+    });
+  }
+
+  public async listCollections(): Promise<CollectionRow[]> {
+    return this.json("GET", "/api/v1/collections", { idempotent: true });
+  }
+
+  public async updateCollection(
+    currentName: string,
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow> {
+    return this.json("PUT", this.collectionPath(currentName), {
+      body: { newName, metadata: newMetadata },
+      idempotent: true,
+    });
+  }
+
+  public async deleteCollection(name: string): Promise<void> {
+    await this.request("DELETE", this.collectionPath(name), {
+      idempotent: true,
+    });
+  }
+
+  public async exportCollection(name: string): Promise<CollectionSnapshot> {
+    const { body } = await this.request(
+      "GET",
+      this.collectionPath(name, "export"),
+      { idempotent: true }
+    );
+    return unpackSnapshot(body);
+  }
+
+  public async importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow> {
+    return this.json("POST", "/api/v1/collections/import", {
+      query: { name: newName, idPrefix },
+      body: packSnapshot(snapshot),
+      idempotent: false,
+    });
+  }
+
+  public async reindexCollection(name: string): Promise<number> {
+    const { count } = await this.json<{ count: number }>(
+      "POST",
+      this.collectionPath(name, "reindex"),
+      { idempotent: true }
+    );
+    return count;
+  }
+
+  public async benchmarkCollection(
+    name: string,
+    options: BenchmarkOptions = {}
+  ): Promise<BenchmarkResult> {
+    return this.json("POST", this.collectionPath(name, "benchmark"), {
+      body: options,
+      idempotent: true,
+      // Runs every query at every ef, which can take far longer than a request
+      timeoutMs: 0,
+    });
+  }
+
+  public async peek(
+    collectionName: string,
+    n?: number
+  ): Promise<EmbeddingRow[]> {
+    return this.json("GET", this.collectionPath(collectionName, "peek"), {
+      query: { n },
+      idempotent: true,
+    });
+  }
+
+  public async addEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    const { collectionName, ...body } = input;
+    const { ids } = await this.json<{ ids: string[] }>(
+      "POST",
+      this.collectionPath(collectionName, "add"),
+      // Without ids, a repeated add would store the batch twice
+      { body, idempotent: Boolean(input.ids) }
+    );
+    return ids;
+  }
+
+  public async upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    const { collectionName, ...body } = input;
+    const { ids } = await this.json<{ ids: string[] }>(
+      "POST",
+      this.collectionPath(collectionName, "upsert"),
+      { body, idempotent: Boolean(input.ids) }
+    );
+    return ids;
+  }
+
+  public async updateEmbedding(
+    input: EmbeddingInput & { embeddingId: string }
+  ): Promise<void> {
+    const { collectionName, embeddingId, ...body } = input;
+    await this.request(
+      "PUT",
+      this.collectionPath(collectionName, "embeddings", embeddingId),
+      { body, idempotent: true }
+    );
+  }
+
+  public async get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]> {
+    const { collectionName, ...body } = queryInput;
+    return this.json("POST", this.collectionPath(collectionName, "get"), {
+      body,
+      idempotent: true,
+    });
+  }
+
+  public async getPage(queryInput: GetInput): Promise<EmbeddingPage> {
+    const { collectionName, ...body } = queryInput;
+    const { headers, body: data } = await this.request(
+      "POST",
+      this.collectionPath(collectionName, "get"),
+      { body, idempotent: true }
+    );
+    return {
+      rows: JSON.parse(data.toString("utf8")),
+      total: Number(headers["x-total-count"]),
+      nextCursor: headers["x-next-cursor"] as string | undefined,
+    };
+  }
+
+  public async getNearestNeighbors(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[]> {
+    const { collectionName, ...body } = queryInput;
+    return this.json("POST", this.collectionPath(collectionName, "query"), {
+      body,
+      idempotent: true,
+    });
+  }
+
+  public async getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]> {
+    const { collectionName, ...body } = queryInput;
+    if (!body.searchEmbeddings && !body.searchTexts) {
+      // The server answers a single query with a single list
+      return [await this.getNearestNeighbors(queryInput)];
+    }
+    return this.json("POST", this.collectionPath(collectionName, "query"), {
+      body,
+      idempotent: true,
+    });
+  }
+
+  public async countEmbeddingsByCollectionName(
+    collectionName: string
+  ): Promise<number> {
+    const { count } = await this.json<{ count: number }>(
+      "GET",
+      this.collectionPath(collectionName, "count"),
+      { idempotent: true }
+    );
+    return count;
+  }
+
+  public async deleteEmbedding(
+    collectionName: string,
+    embeddingId: string
+  ): Promise<void> {
+    await this.request(
+      "DELETE",
+      this.collectionPath(collectionName, "embeddings", embeddingId),
+      { idempotent: true }
+    );
+  }
+
+  private collectionPath(name: string, ...segments: string[]) {
+    return ["/api/v1/collections", name, ...segments]
+      .map((segment, i) => (i ? encodeURIComponent(segment) : segment))
+      .join("/");
+  }
+
+  private async json<T>(
+    method: string,
+    path: string,
+    options: RequestOptions
+  ): Promise<T> {
+    const { body } = await this.request(method, path, options);
+    return JSON.parse(body.toString("utf8"));
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    options: RequestOptions
+  ): Promise<Response> {
+    const retries = options.idempotent
+      ? this.options.retries ?? DEFAULT_RETRIES
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.send(method, path, options);
+        if (
+          attempt < retries &&
+          RETRYABLE_STATUS_CODES.includes(response.statusCode)
+        ) {
+          await this.backoff(attempt);
+          continue;
+        }
+        return this.checkResponse(response);
+      } catch (err) {
+        if (attempt >= retries || !this.isRetryable(err)) {
+          throw err;
+        }
+        await this.backoff(attempt);
+      }
+    }
+  }
+
+  private isRetryable(err: unknown) {
+    return (
+      err instanceof TimeoutError ||
+      RETRYABLE_NETWORK_ERRORS.includes((err as NodeJS.ErrnoException).code)
+    );
+  }
+
+  private backoff(attempt: number) {
+    const delay =
+      (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** attempt;
+    return new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  private checkResponse(response: Response): Response {
+    const { statusCode, contentType, body } = response;
+    if (statusCode >= 200 && statusCode < 300) {
+      return response;
+    }
+
+    let payload: { message?: string; errors?: unknown } = {};
+    if (contentType.includes("application/json")) {
+      try {
+        payload = JSON.parse(body.toString("utf8"));
+      } catch {
+        // Fall back to the status code below
+      }
+    }
+    const message = payload.message ?? `Request failed with ${statusCode}`;
+
+    switch (statusCode) {
+      case 400:
+        if (Array.isArray(payload.errors)) {
+          throw new BatchValidationError(message, payload.errors);
+        }
+        throw new InvalidArgumentError(message);
+      case 401:
+        throw new UnauthorizedError(message);
+      case 403:
+        throw new ForbiddenError(message);
+      case 404:
+        throw new NotFoundError(message);
+      case 409:
+        throw new ConflictError(message);
+      default:
+        throw new HttpError(message, statusCode);
+    }
+  }
+
+  private send(
+    method: string,
+    path: string,
+    { query, body, timeoutMs: requestTimeoutMs }: RequestOptions
+  ): Promise<Response> {
+    const url = new URL(path, this.options.url);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers: http.OutgoingHttpHeaders = {};
+    let data: Buffer | undefined;
+    if (Buffer.isBuffer(body)) {
+      data = body;
+      headers["Content-Type"] = SNAPSHOT_CONTENT_TYPE;
+    } else if (body !== undefined) {
+      data = Buffer.from(JSON.stringify(body));
+      headers["Content-Type"] = "application/json";
+    }
+    if (data) {
+      headers["Content-Length"] = data.length;
+    }
+    if (this.options.apiKey) {
+      headers["x-api-key"] = this.options.apiKey;
+    }
+    if (this.options.bearerToken) {
+      headers["Authorization"] = `Bearer ${this.options.bearerToken}`;
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    const timeoutMs =
+      requestTimeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        { method, headers, timeout: timeoutMs },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("error", reject);
+          response.on("end", () =>
+            resolve({
+              statusCode: response.statusCode,
+              contentType: response.headers["content-type"] ?? "",
+              headers: response.headers,
+              body: Buffer.concat(chunks),
+            })
+          );
+        }
+      );
+
+      request.on("timeout", () => {
+        request.destroy(
+          new TimeoutError(
+            `${method} ${url.pathname} timed out after ${timeoutMs}ms`
+          )
+        );
+      });
+      request.on("error", reject);
+      request.end(data);
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import { BatchEmbeddingInput } from "../types/batch-embedding-input";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { CollectionSnapshot } from "../types/collection-snapshot";
+import { Db } from "../types/db";
+import { EmbeddingInput } from "../types/embedding-input";
+import { EmbeddingPage } from "../types/embedding-page";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "../types/embedding-row";
+import { SearchResult } from "../types/index-search-result";
+import { GetInput, SearchQueryInput } from "../types/query-input";
+import { ClientTransport } from "./client-transport";
+
+/**
+ * Serves a client straight from a Db in the same process, e.g. to run code
+ * written against the HTTP client in tests without a server.
+ */
+export class InProcessTransport implements ClientTransport {
+  constructor(private db: Db) {}
+
+  public createCollection(
+    name: string,
+    metadata: CollectionRowMetadata,
+    getOrCreate: boolean
+  ): Promise<CollectionRow> {
+    return this.db.createCollection(name, metadata, getOrCreate);
+  }
+
+  public listCollections(): Promise<CollectionRow[]> {
+    return this.db.listCollections();
+  }
+
+  public updateCollection(
+    currentName: string,
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow> {
+    return this.db.updateCollection(currentName, newName, newMetadata);
+  }
+
+  public deleteCollection(name: string): Promise<void> {
+    return this.db.deleteCollection(name);
+  }
+
+  public exportCollection(name: string): Promise<CollectionSnapshot> {
+    return this.db.exportCollection(name);
+  }
+
+  public importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow> {
+    return this.db.importCollection(snapshot, newName, idPrefix);
+  }
+
+  public reindexCollection(name: string): Promise<number> {
+    return this.db.reindexCollection(name);
+  }
+
+  public benchmarkCollection(
+    name: string,
+    options?: BenchmarkOptions
+  ): Promise<BenchmarkResult> {
+    return this.db.benchmarkCollection(name, options);
+  }
+
+  public peek(collectionName: string, n?: number): Promise<EmbeddingRow[]> {
+    return this.db.peek(collectionName, n);
+  }
+
+  public addEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.db.addEmbeddings(input);
+  }
+
+  public upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.db.upsertEmbeddings(input);
+  }
+
+  public updateEmbedding(
+    input: EmbeddingInput & { embeddingId: string }
+  ): Promise<void> {
+    return this.db.updateEmbedding(input);
+  }
+
+  public get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]> {
+    return this.db.get(queryInput);
+  }
+
+  public getPage(queryInput: GetInput): Promise<EmbeddingPage> {
+    return this.db.getPage(queryInput);
+  }
+
+  public getNearestNeighbors(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[]> {
+    return this.db.getNearestNeighbors(queryInput);
+  }
+
+  public getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]> {
+    return this.db.getNearestNeighborsBatch(queryInput);
+  }
+
+  public countEmbeddingsByCollectionName(
+    collectionName: string
+  ): Promise<number> {
+    return this.db.countEmbeddingsByCollectionName(collectionName);
+  }
+
+  public deleteEmbedding(
+    collectionName: string,
+    embeddingId: string
+  ): Promise<void> {
+    return this.db.deleteEmbedding(collectionName, embeddingId);
+  }
+}
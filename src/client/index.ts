@@ -0,0 +1,55 @@
+// Public surface of the client SDK
+export { AdChromaClient } from "./client";
+export { Collection } from "./collection";
+export { ClientTransport } from "./client-transport";
+export { HttpTransport } from "./http-transport";
+export { InProcessTransport } from "./in-process-transport";
+export { InMemoryDb } from "../db/in-memory-db";
+export {
+  DB_CONFORMANCE_CASES,
+  runDbConformanceSuite,
+} from "../conformance/db-conformance";
+export {
+  BatchValidationError,
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  InvalidArgumentError,
+  NotFoundError,
+  TimeoutError,
+  UnauthorizedError,
+} from "../utils/errors";
+export { HttpClientOptions } from "../types/http-client-options";
+export { Db } from "../types/db";
+export { Logger } from "../types/logger";
+export {
+  ConformanceCase,
+  ConformanceCaseResult,
+  ConformanceReport,
+} from "../types/conformance";
+export { BatchEmbeddingInput } from "../types/batch-embedding-input";
+export {
+  BenchmarkOptions,
+  BenchmarkResult,
+  BenchmarkRun,
+} from "../types/benchmark";
+export { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+export { CollectionSnapshot } from "../types/collection-snapshot";
+export { EmbeddingInput } from "../types/embedding-input";
+export { EmbeddingPage } from "../types/embedding-page";
+export {
+  EmbeddingRow,
+  ProjectedEmbeddingRow,
+} from "../types/embedding-row";
+export { SearchResult } from "../types/index-search-result";
+export { HybridSearchOptions } from "../types/hybrid-search";
+export { MmrOptions } from "../types/mmr";
+export {
+  GetInput,
+  IncludeField,
+  OrderBy,
+  QueryInput,
+  SearchQueryInput,
+} from "../types/query-input";
+export { WhereFilter } from "../types/where-filter";
+export { WhereDocumentFilter } from "../types/where-document-filter";
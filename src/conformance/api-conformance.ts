@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import { ClientTransport } from "../client/client-transport";
+import { HttpTransport } from "../client/http-transport";
+import { ApiServer } from "../types/api-server";
+import { AuthConfig } from "../types/auth-config";
+import {
+  ApiConformanceCase,
+  ConformanceCaseResult,
+  ConformanceReport,
+} from "../types/conformance";
+import { ForbiddenError } from "../utils/errors";
+import { conformanceReport, runConformanceCase } from "./conformance-case";
+
+const COLLECTION = "conformance";
+const OTHER_COLLECTION = "conformance-other";
+
+const ADMIN_KEY = "conformance-admin-key";
+// An admin limited to COLLECTION
+const SCOPED_ADMIN_KEY = "conformance-scoped-admin-key";
+const READER_KEY = "conformance-reader-key";
+
+/**
+ * The credentials every server the suite runs against must accept.
+ */
+export const API_CONFORMANCE_AUTH: AuthConfig = {
+  apiKeys: [
+    { name: "admin", secret: ADMIN_KEY, role: "admin" },
+    {
+      name: "scoped-admin",
+      secret: SCOPED_ADMIN_KEY,
+      role: "admin",
+      collections: [COLLECTION],
+    },
+    { name: "reader", secret: READER_KEY, role: "reader" },
+  ],
+};
+
+function createCollection(transport: ClientTransport, name: string) {
+  return transport.createCollection(
+    name,
+    { numberOfDimensions: 3, space: "l2" },
+    false
+  );
+}
+
+async function collectionNames(transport: ClientTransport) {
+  const collections = await transport.listCollections();
+  return collections.map(({ name }) => name).sort();
+}
+
+export const API_CONFORMANCE_CASES: ApiConformanceCase[] = [
+  {
+    name: "keeps renames within the collections of a credential",
+    async run(connect) {
+      const admin = connect(ADMIN_KEY);
+      const scoped = connect(SCOPED_ADMIN_KEY);
+      await createCollection(admin, COLLECTION);
+
+      await assert.rejects(
+        scoped.updateCollection(COLLECTION, OTHER_COLLECTION),
+        ForbiddenError
+      );
+      assert.deepStrictEqual(await collectionNames(admin), [COLLECTION]);
+
+      // Updates that keep the name stay within scope
+      await scoped.updateCollection(COLLECTION, undefined, {
+        sizeOfDynamicListOfNearestNeighbors: 20,
+      });
+      await admin.updateCollection(COLLECTION, OTHER_COLLECTION);
+      assert.deepStrictEqual(await collectionNames(admin), [OTHER_COLLECTION]);
+    },
+  },
+  {
+    name: "keeps embedding function headers from readers",
+    async run(connect) {
+      const admin = connect(ADMIN_KEY);
+      const reader = connect(READER_KEY);
+      await admin.createCollection(
+        COLLECTION,
+        {
+          numberOfDimensions: 3,
+          space: "l2",
+          embeddingFunction: {
+            name: "hashing",
+            headers: { Authorization: "Bearer secret" },
+          },
+        },
+        false
+      );
+
+      const [collection] = await reader.listCollections();
+      assert.deepStrictEqual(
+        JSON.parse(collection.metadata).embeddingFunction,
+        { name: "hashing" }
+      );
+      const snapshot = await reader.exportCollection(COLLECTION);
+      assert.deepStrictEqual(snapshot.metadata.embeddingFunction, {
+        name: "hashing",
+      });
+    },
+  },
+];
+
+/**
+ * Runs every API conformance case against a fresh server from `createApi`,
+ * configured with API_CONFORMANCE_AUTH, started first and stopped after the
+ * case whatever its outcome. Failures are collected in the report rather than
+ * thrown.
+ */
+export async function runApiConformanceSuite(
+  implementation: string,
+  createApi: (auth: AuthConfig) => Promise<{ api: ApiServer; url: string }>,
+  cases: ApiConformanceCase[] = API_CONFORMANCE_CASES
+): Promise<ConformanceReport> {
+  const results: ConformanceCaseResult[] = [];
+  for (const { name, run } of cases) {
+    results.push(
+      await runConformanceCase(name, async () => {
+        const { api, url } = await createApi(API_CONFORMANCE_AUTH);
+        await api.start();
+        try {
+          await run((apiKey) => new HttpTransport({ url, apiKey, retries: 0 }));
+        } finally {
+          await api.stop();
+        }
+      })
+    );
+  }
+  return conformanceReport(implementation, results);
+}
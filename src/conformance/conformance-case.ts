@@ -0,0 +1,45 @@
+import { elapsedSeconds } from "../metrics/timing";
+import {
+  ConformanceCaseResult,
+  ConformanceReport,
+} from "../types/conformance";
+
+/**
+ * Runs and times one conformance case. A failure is recorded in the result
+ * rather than thrown.
+ */
+export async function runConformanceCase(
+  name: string,
+  run: () => Promise<void>
+): Promise<ConformanceCaseResult> {
+  const start = process.hrtime.bigint();
+  let error: string | undefined;
+  try {
+    await run();
+  } catch (err) {
+    error = (err as Error).stack ?? String(err);
+  }
+
+  const result: ConformanceCaseResult = {
+    name,
+    passed: error === undefined,
+    durationMs: elapsedSeconds(start) * 1000,
+  };
+  if (error !== undefined) {
+    result.error = error;
+  }
+  return result;
+}
+
+export function conformanceReport(
+  implementation: string,
+  results: ConformanceCaseResult[]
+): ConformanceReport {
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    implementation,
+    results,
+    passed,
+    failed: results.length - passed,
+  };
+}
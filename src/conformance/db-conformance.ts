@@ -0,0 +1,1392 @@
+import * as assert from "assert";
+import { gunzipSync, gzipSync } from "zlib";
+import { Db } from "../types/db";
+import {
+  ConformanceCase,
+  ConformanceCaseResult,
+  ConformanceReport,
+} from "../types/conformance";
+import { CollectionRowMetadata } from "../types/collection-row";
+import { EmbeddingInput } from "../types/embedding-input";
+import { ProjectedEmbeddingRow } from "../types/embedding-row";
+import { SearchResult } from "../types/index-search-result";
+import { Metadata } from "../types/where-filter";
+import { packSnapshot, unpackSnapshot } from "../db/collection-snapshot";
+import { SnapshotRecord } from "../types/collection-snapshot";
+import { packTar, unpackTar } from "../utils/tar";
+import { conformanceReport, runConformanceCase } from "./conformance-case";
+import {
+  BatchValidationError,
+  ConflictError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../utils/errors";
+
+const COLLECTION = "conformance";
+const OTHER_COLLECTION = "conformance-other";
+
+// l2 over small integer vectors keeps every distance exact, so every
+// implementation must rank them the same
+const RECORDS: {
+  id: string;
+  embedding: number[];
+  document?: string;
+  metadata?: Metadata;
+}[] = [
+  {
+    id: "a",
+    embedding: [1, 0, 0],
+    document: "The quick brown fox",
+    metadata: {
+      genre: "fiction",
+      year: 1999,
+      published: true,
+      author: { name: "Ada" },
+    },
+  },
+  {
+    id: "b",
+    embedding: [0, 1, 0],
+    document: "A lazy dog sleeps",
+    metadata: { genre: "poetry", year: 2005, published: false },
+  },
+  {
+    id: "c",
+    embedding: [0, 0, 1],
+    document: "Quick thinking fox hunters",
+    metadata: { genre: "fiction", year: 2010 },
+  },
+  { id: "d", embedding: [1, 1, 0] },
+];
+
+function createCollection(
+  db: Db,
+  name: string = COLLECTION,
+  metadata: Partial<CollectionRowMetadata> = {}
+) {
+  return db.createCollection(
+    name,
+    { numberOfDimensions: 3, space: "l2", ...metadata },
+    false
+  );
+}
+
+/**
+ * Creates the collection holding RECORDS, added in order. A batch gives
+ * either every item a document and metadata or none of them.
+ */
+async function seed(db: Db) {
+  await createCollection(db);
+  for (const { id, embedding, document, metadata } of RECORDS) {
+    await db.addEmbeddings({
+      collectionName: COLLECTION,
+      ids: [id],
+      embeddings: [embedding],
+      documents: document && [document],
+      metadatas: metadata && [metadata],
+    });
+  }
+}
+
+/**
+ * Ids of the rows a get returns for the query, in the order returned.
+ */
+async function getIds(
+  db: Db,
+  query: Omit<Parameters<Db["get"]>[0], "collectionName">
+) {
+  const rows = await db.get({ collectionName: COLLECTION, ...query });
+  return rows.map(({ id }) => id);
+}
+
+function count(db: Db, collectionName: string = COLLECTION) {
+  return db.countEmbeddingsByCollectionName(collectionName);
+}
+
+/**
+ * Updates only the given fields of an embedding, like a PUT that leaves the
+ * others out.
+ */
+function updateEmbedding(
+  db: Db,
+  embeddingId: string,
+  fields: Partial<EmbeddingInput>
+) {
+  return db.updateEmbedding({
+    collectionName: COLLECTION,
+    embeddingId,
+    ...fields,
+  } as EmbeddingInput & { embeddingId: string });
+}
+
+/**
+ * A row's fields with unset optional ones left out, as SQLite returns them
+ * as null where others leave them undefined.
+ */
+function present(row: ProjectedEmbeddingRow | SearchResult) {
+  return Object.fromEntries(
+    Object.entries(row).filter(
+      ([, value]) => value !== null && value !== undefined
+    )
+  );
+}
+
+function byId(ids: string[]) {
+  return [...ids].sort();
+}
+
+export const DB_CONFORMANCE_CASES: ConformanceCase[] = [
+  {
+    name: "creates and lists collections",
+    async run(db) {
+      const collection = await createCollection(db);
+      assert.strictEqual(typeof collection.id, "string");
+      assert.strictEqual(collection.name, COLLECTION);
+      assert.deepStrictEqual(JSON.parse(collection.metadata), {
+        numberOfDimensions: 3,
+        space: "l2",
+        indexResizeFactor: 1,
+      });
+
+      const collections = await db.listCollections();
+      assert.deepStrictEqual(collections, [collection]);
+      assert.deepStrictEqual(
+        await db.createCollection(COLLECTION, { numberOfDimensions: 3 }, true),
+        collection
+      );
+    },
+  },
+  {
+    name: "defaults the space of new collections to cosine",
+    async run(db) {
+      const collection = await db.createCollection(
+        COLLECTION,
+        { numberOfDimensions: 3 },
+        false
+      );
+      assert.strictEqual(JSON.parse(collection.metadata).space, "cosine");
+    },
+  },
+  {
+    name: "never hands back the headers of an embedding function",
+    async run(db) {
+      const embeddingFunction = {
+        name: "hashing",
+        headers: { Authorization: "Bearer secret" },
+        headerEnv: { "X-Api-Key": "EMBEDDINGS_API_KEY" },
+      };
+      const redacted = {
+        name: "hashing",
+        headerEnv: { "X-Api-Key": "EMBEDDINGS_API_KEY" },
+      };
+      const functionOf = ({ metadata }: { metadata: string }) =>
+        JSON.parse(metadata).embeddingFunction;
+
+      const created = await createCollection(db, COLLECTION, {
+        embeddingFunction,
+      });
+      assert.deepStrictEqual(functionOf(created), redacted);
+      const existing = await db.createCollection(
+        COLLECTION,
+        { numberOfDimensions: 3, space: "l2" },
+        true
+      );
+      assert.deepStrictEqual(functionOf(existing), redacted);
+      const [listed] = await db.listCollections();
+      assert.deepStrictEqual(functionOf(listed), redacted);
+      const updated = await db.updateCollection(COLLECTION, undefined, {
+        sizeOfDynamicListOfNearestNeighbors: 20,
+      });
+      assert.deepStrictEqual(functionOf(updated), redacted);
+
+      const snapshot = await db.exportCollection(COLLECTION);
+      assert.deepStrictEqual(snapshot.metadata.embeddingFunction, redacted);
+
+      // Documents are still embedded with the stored headers
+      await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids: ["a"],
+        documents: ["The quick brown fox"],
+      });
+      assert.strictEqual(await count(db), 1);
+    },
+  },
+  {
+    name: "rejects a duplicate collection name",
+    async run(db) {
+      await createCollection(db);
+      await assert.rejects(createCollection(db), ConflictError);
+    },
+  },
+  {
+    name: "rejects invalid collection metadata",
+    async run(db) {
+      await assert.rejects(
+        createCollection(db, COLLECTION, { numberOfDimensions: 0 }),
+        InvalidArgumentError
+      );
+      assert.deepStrictEqual(await db.listCollections(), []);
+    },
+  },
+  {
+    name: "renames collections and merges their metadata",
+    async run(db) {
+      const collection = await createCollection(db);
+      const updated = await db.updateCollection(COLLECTION, OTHER_COLLECTION, {
+        maxElements: 50,
+      });
+      assert.strictEqual(updated.id, collection.id);
+      assert.strictEqual(updated.name, OTHER_COLLECTION);
+      assert.strictEqual(JSON.parse(updated.metadata).maxElements, 50);
+      assert.strictEqual(JSON.parse(updated.metadata).space, "l2");
+      assert.deepStrictEqual(await db.listCollections(), [updated]);
+      await assert.rejects(count(db), NotFoundError);
+    },
+  },
+  {
+    name: "rejects collection updates that conflict or cannot apply",
+    async run(db) {
+      await seed(db);
+      await createCollection(db, OTHER_COLLECTION);
+
+      await assert.rejects(
+        db.updateCollection(COLLECTION, OTHER_COLLECTION),
+        ConflictError
+      );
+      await assert.rejects(
+        db.updateCollection("missing", "renamed"),
+        NotFoundError
+      );
+      await assert.rejects(
+        db.updateCollection(COLLECTION, undefined, { numberOfDimensions: 4 }),
+        InvalidArgumentError
+      );
+
+      // An empty collection may still change its shape
+      await db.updateCollection(OTHER_COLLECTION, undefined, {
+        numberOfDimensions: 4,
+      });
+      await db.addEmbeddings({
+        collectionName: OTHER_COLLECTION,
+        embeddings: [[1, 2, 3, 4]],
+      });
+      assert.strictEqual(await count(db, OTHER_COLLECTION), 1);
+    },
+  },
+  {
+    name: "deletes collections with their embeddings",
+    async run(db) {
+      await seed(db);
+      await db.deleteCollection(COLLECTION);
+
+      assert.deepStrictEqual(await db.listCollections(), []);
+      await assert.rejects(db.deleteCollection(COLLECTION), NotFoundError);
+
+      // The ids of the deleted embeddings are free again
+      await createCollection(db, OTHER_COLLECTION);
+      await db.addEmbeddings({
+        collectionName: OTHER_COLLECTION,
+        ids: ["a"],
+        embeddings: [[1, 0, 0]],
+      });
+    },
+  },
+  {
+    name: "adds embeddings and reads them back in insertion order",
+    async run(db) {
+      await createCollection(db);
+      const ids = await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids: ["z", "y"],
+        embeddings: [
+          [0.5, 0.25, 0],
+          [0, 0, 1],
+        ],
+        documents: ["first", "second"],
+        documentIds: ["doc-1", "doc-2"],
+        metadatas: [{ tag: "x" }, {}],
+      });
+      assert.deepStrictEqual(ids, ["z", "y"]);
+
+      const id = await db.addEmbeddingToCollection({
+        collectionName: COLLECTION,
+        embedding: [1, 1, 1],
+        document: "third",
+        documentId: "doc-3",
+      });
+      assert.strictEqual(typeof id, "string");
+      assert.strictEqual(await count(db), 3);
+
+      const rows = await db.peek(COLLECTION);
+      assert.deepStrictEqual(
+        rows.map((row) => row.id),
+        ["z", "y", id]
+      );
+      assert.deepStrictEqual(present(rows[0]), {
+        id: "z",
+        collectionId: rows[0].collectionId,
+        embedding: [0.5, 0.25, 0],
+        document: "first",
+        documentId: "doc-1",
+        metadata: { tag: "x" },
+      });
+      assert.deepStrictEqual(present(rows[2]), {
+        id,
+        collectionId: rows[0].collectionId,
+        embedding: [1, 1, 1],
+        document: "third",
+        documentId: "doc-3",
+      });
+      assert.deepStrictEqual(
+        (await db.peek(COLLECTION, 1)).map((row) => row.id),
+        ["z"]
+      );
+    },
+  },
+  {
+    name: "generates ids for embeddings added without them",
+    async run(db) {
+      await createCollection(db);
+      const ids = await db.addEmbeddings({
+        collectionName: COLLECTION,
+        embeddings: [
+          [1, 0, 0],
+          [0, 1, 0],
+        ],
+      });
+      assert.strictEqual(ids.length, 2);
+      assert.notStrictEqual(ids[0], ids[1]);
+      assert.deepStrictEqual(byId(await getIds(db, {})), byId(ids));
+    },
+  },
+  {
+    name: "rejects an invalid batch as a whole",
+    async run(db) {
+      await seed(db);
+      await createCollection(db, OTHER_COLLECTION);
+      await db.addEmbeddings({
+        collectionName: OTHER_COLLECTION,
+        ids: ["other"],
+        embeddings: [[1, 0, 0]],
+      });
+
+      await assert.rejects(
+        db.addEmbeddings({
+          collectionName: COLLECTION,
+          ids: ["e", "f", "e", "a", "other"],
+          embeddings: [
+            [1, 0, 0],
+            [1, 0],
+            [0, 1, 0],
+            [0, 0, 1],
+            [0, 0, 1],
+          ],
+        }),
+        (err: BatchValidationError) => {
+          assert.ok(err instanceof BatchValidationError);
+          assert.deepStrictEqual(
+            err.errors.map(({ index, id }) => [index, id]),
+            [
+              [1, "f"],
+              [2, "e"],
+              [3, "a"],
+              [4, "other"],
+            ]
+          );
+          return true;
+        }
+      );
+      assert.strictEqual(await count(db), 4);
+
+      await assert.rejects(
+        db.addEmbeddings({
+          collectionName: COLLECTION,
+          embeddings: [[1, 0, 0]],
+          documents: ["one", "two"],
+        }),
+        InvalidArgumentError
+      );
+      // Without an embedding function, documents cannot stand in for them
+      await assert.rejects(
+        db.addEmbeddings({ collectionName: COLLECTION, documents: ["text"] }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "upserts replace the records of existing ids",
+    async run(db) {
+      await seed(db);
+      const ids = await db.upsertEmbeddings({
+        collectionName: COLLECTION,
+        ids: ["b", "e"],
+        embeddings: [
+          [0, 0, 2],
+          [2, 0, 0],
+        ],
+        documents: ["replaced", "new"],
+      });
+      assert.deepStrictEqual(ids, ["b", "e"]);
+      assert.strictEqual(await count(db), 5);
+
+      const [row] = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["b"],
+      });
+      assert.deepStrictEqual(present(row), {
+        id: "b",
+        collectionId: row.collectionId,
+        embedding: [0, 0, 2],
+        document: "replaced",
+      });
+
+      const [nearest] = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [0, 0, 2],
+        nearestNeighbors: 1,
+      });
+      assert.strictEqual(nearest.id, "b");
+    },
+  },
+  {
+    name: "updates only the fields given",
+    async run(db) {
+      await seed(db);
+      await updateEmbedding(db, "a", { metadata: { genre: "history" } });
+      let [row] = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["a"],
+      });
+      assert.strictEqual(row.document, "The quick brown fox");
+      assert.deepStrictEqual(row.embedding, [1, 0, 0]);
+      assert.deepStrictEqual(row.metadata, { genre: "history" });
+
+      await updateEmbedding(db, "a", {
+        embedding: [0, 5, 0],
+        document: "Moved away",
+      });
+      [row] = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["a"],
+      });
+      assert.strictEqual(row.document, "Moved away");
+      assert.deepStrictEqual(row.embedding, [0, 5, 0]);
+
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [0, 5, 0],
+        nearestNeighbors: 1,
+      });
+      assert.deepStrictEqual(
+        results.map(({ id, distance }) => [id, distance]),
+        [["a", 0]]
+      );
+    },
+  },
+  {
+    name: "leaves a record unchanged by an update without fields",
+    async run(db) {
+      await seed(db);
+      const before = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["a"],
+      });
+
+      await updateEmbedding(db, "a", {});
+      assert.deepStrictEqual(
+        await db.get({ collectionName: COLLECTION, embeddingIds: ["a"] }),
+        before
+      );
+    },
+  },
+  {
+    name: "deletes embeddings from the records and the index",
+    async run(db) {
+      await seed(db);
+      await db.deleteEmbedding(COLLECTION, "b");
+
+      assert.strictEqual(await count(db), 3);
+      assert.deepStrictEqual(await getIds(db, { embeddingIds: ["b"] }), []);
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [0, 1, 0],
+        nearestNeighbors: 3,
+      });
+      assert.ok(results.every(({ id }) => id !== "b"));
+
+      // The id can be added again
+      await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids: ["b"],
+        embeddings: [[0, 1, 0]],
+      });
+    },
+  },
+  {
+    name: "rejects updates and deletes of unknown embeddings",
+    async run(db) {
+      await seed(db);
+      await createCollection(db, OTHER_COLLECTION);
+
+      await assert.rejects(
+        updateEmbedding(db, "missing", { metadata: { genre: "none" } }),
+        NotFoundError
+      );
+      await assert.rejects(
+        db.deleteEmbedding(COLLECTION, "missing"),
+        NotFoundError
+      );
+      // Embeddings are only reachable through their own collection
+      await assert.rejects(
+        db.deleteEmbedding(OTHER_COLLECTION, "a"),
+        NotFoundError
+      );
+      await assert.rejects(
+        updateEmbedding(db, "a", {
+          collectionName: OTHER_COLLECTION,
+          document: "moved",
+        }),
+        NotFoundError
+      );
+      assert.strictEqual(await count(db), 4);
+    },
+  },
+  {
+    name: "rejects an update with an embedding of the wrong size",
+    async run(db) {
+      await seed(db);
+      const before = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["a"],
+      });
+
+      await assert.rejects(
+        updateEmbedding(db, "a", { embedding: [1, 0], document: "changed" }),
+        InvalidArgumentError
+      );
+      assert.deepStrictEqual(
+        await db.get({ collectionName: COLLECTION, embeddingIds: ["a"] }),
+        before
+      );
+
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [1, 0, 0],
+        nearestNeighbors: 4,
+        include: [],
+      });
+      assert.deepStrictEqual(byId(results.map(({ id }) => id)), [
+        "a",
+        "b",
+        "c",
+        "d",
+      ]);
+      assert.strictEqual((await db.checkHealth()).ok, true);
+    },
+  },
+  {
+    name: "keeps records and index in step under concurrent writers",
+    async run(db) {
+      await createCollection(db, COLLECTION, { indexBackend: "flat" });
+      // Every write gets a vector of its own, so each row is nearest to itself
+      let written = 0;
+      const nextVector = () => [++written, written % 7, 1];
+      const ids = (prefix: string, n: number) =>
+        Array.from({ length: n }, (_, i) => `${prefix}${i}`);
+      const initial = ids("w", 20);
+      await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids: initial,
+        embeddings: initial.map(nextVector),
+      });
+
+      const writes: Promise<unknown>[] = [
+        ...ids("n", 10).map((id) =>
+          db.addEmbeddings({
+            collectionName: COLLECTION,
+            ids: [id],
+            embeddings: [nextVector()],
+          })
+        ),
+        ...initial.slice(0, 10).map((id, i) =>
+          db.upsertEmbeddings({
+            collectionName: COLLECTION,
+            ids: i < 5 ? [id, `u${i}`] : [id],
+            embeddings: i < 5 ? [nextVector(), nextVector()] : [nextVector()],
+          })
+        ),
+        ...initial
+          .slice(10, 15)
+          .map((id) => updateEmbedding(db, id, { embedding: nextVector() })),
+        ...initial.slice(15).map((id) => db.deleteEmbedding(COLLECTION, id)),
+      ];
+      // An update racing a delete of the same record may find it gone
+      const races = initial
+        .slice(15)
+        .map((id) => updateEmbedding(db, id, { embedding: nextVector() }));
+      await Promise.all(writes);
+      await Promise.allSettled(races);
+
+      const rows = await db.get({
+        collectionName: COLLECTION,
+        include: ["embeddings"],
+      });
+      assert.deepStrictEqual(
+        byId(rows.map(({ id }) => id)),
+        byId([...initial.slice(0, 15), ...ids("n", 10), ...ids("u", 5)])
+      );
+      const [health] = (await db.checkHealth()).collections;
+      assert.strictEqual(await count(db), rows.length);
+      assert.strictEqual(health.elementCount, rows.length);
+
+      for (const { id, embedding } of rows) {
+        const [nearest] = await db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: embedding,
+          nearestNeighbors: 1,
+          include: ["distances"],
+        });
+        assert.deepStrictEqual(nearest, { id, distance: 0 }, `record ${id}`);
+      }
+    },
+  },
+  {
+    name: "filters by metadata",
+    async run(db) {
+      await seed(db);
+      const cases: [Parameters<Db["get"]>[0]["where"], string[]][] = [
+        [{ genre: "fiction" }, ["a", "c"]],
+        [{ genre: { $ne: "fiction" } }, ["b", "d"]],
+        [{ year: { $gt: 2000 } }, ["b", "c"]],
+        [{ year: { $gte: 1999, $lt: 2010 } }, ["a", "b"]],
+        // Numbers are never compared with strings
+        [{ year: { $gte: "2000" } }, []],
+        [{ published: true }, ["a"]],
+        [{ published: { $ne: true } }, ["b", "c", "d"]],
+        [{ genre: { $in: ["poetry", "drama"] } }, ["b"]],
+        [{ genre: { $nin: ["poetry"] } }, ["a", "c", "d"]],
+        [{ "author.name": "Ada" }, ["a"]],
+        [{ $or: [{ genre: "poetry" }, { year: 1999 }] }, ["a", "b"]],
+        [{ $and: [{ genre: "fiction" }, { year: { $lte: 2000 } }] }, ["a"]],
+      ];
+
+      for (const [where, expected] of cases) {
+        assert.deepStrictEqual(
+          byId(await getIds(db, { where })),
+          expected,
+          `where ${JSON.stringify(where)}`
+        );
+      }
+    },
+  },
+  {
+    name: "filters by document",
+    async run(db) {
+      await seed(db);
+      const cases: [Parameters<Db["get"]>[0]["whereDocument"], string[]][] = [
+        [{ $contains: "quick fox" }, ["a", "c"]],
+        [{ $contains: "QUICK" }, ["a", "c"]],
+        [{ $contains: "fox dog" }, []],
+        [{ $not_contains: "fox" }, ["b", "d"]],
+        [{ $phrase: "quick brown" }, ["a"]],
+        [{ $phrase: "brown quick" }, []],
+        [
+          { $or: [{ $contains: "dog" }, { $phrase: "thinking fox" }] },
+          ["b", "c"],
+        ],
+        [{ $and: [{ $contains: "fox" }, { $not_contains: "brown" }] }, ["c"]],
+      ];
+
+      for (const [whereDocument, expected] of cases) {
+        assert.deepStrictEqual(
+          byId(await getIds(db, { whereDocument })),
+          expected,
+          `whereDocument ${JSON.stringify(whereDocument)}`
+        );
+      }
+    },
+  },
+  {
+    name: "filters by embedding ids and documentId",
+    async run(db) {
+      await seed(db);
+      await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids: ["e"],
+        embeddings: [[0, 1, 1]],
+        documentIds: ["doc-e"],
+      });
+
+      assert.deepStrictEqual(
+        byId(await getIds(db, { embeddingIds: ["d", "a", "missing"] })),
+        ["a", "d"]
+      );
+      assert.deepStrictEqual(await getIds(db, { documentId: "doc-e" }), ["e"]);
+      assert.deepStrictEqual(
+        await getIds(db, { embeddingIds: ["a"], documentId: "doc-e" }),
+        []
+      );
+    },
+  },
+  {
+    name: "rejects malformed filters even when nothing would match",
+    async run(db) {
+      await createCollection(db);
+      const get = (query: Omit<Parameters<Db["get"]>[0], "collectionName">) =>
+        db.get({ collectionName: COLLECTION, ...query });
+
+      await assert.rejects(get({ where: { $not: [] } }), InvalidArgumentError);
+      await assert.rejects(
+        get({ where: { year: { $regex: "x" } as never } }),
+        InvalidArgumentError
+      );
+      await assert.rejects(get({ where: { $or: [] } }), InvalidArgumentError);
+      await assert.rejects(
+        get({ where: { year: { $gt: true } as never } }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        get({ where: { 'say "hi"': "x" } }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        get({ orderBy: { field: 'say "hi"' } }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        get({ whereDocument: {} as never }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        get({ whereDocument: { $contains: " " } }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "pages through results with cursors",
+    async run(db) {
+      await seed(db);
+      const pageThrough = async (direction: "asc" | "desc") => {
+        const ids: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await db.getPage({
+            collectionName: COLLECTION,
+            orderBy: { field: "metadata.year", direction },
+            limit: 3,
+            cursor,
+          });
+          assert.strictEqual(page.total, 4);
+          ids.push(...page.rows.map(({ id }) => id));
+          cursor = page.nextCursor;
+        } while (cursor);
+        return ids;
+      };
+
+      // Records without the field sort first
+      assert.deepStrictEqual(await pageThrough("asc"), ["d", "a", "b", "c"]);
+      assert.deepStrictEqual(await pageThrough("desc"), ["c", "b", "a", "d"]);
+
+      const firstPage = await db.getPage({
+        collectionName: COLLECTION,
+        limit: 2,
+      });
+      assert.deepStrictEqual(
+        firstPage.rows.map(({ id }) => id),
+        ["a", "b"]
+      );
+      const lastPage = await db.getPage({
+        collectionName: COLLECTION,
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      });
+      assert.deepStrictEqual(
+        lastPage.rows.map(({ id }) => id),
+        ["c", "d"]
+      );
+      assert.strictEqual(lastPage.nextCursor, undefined);
+
+      await assert.rejects(
+        db.getPage({
+          collectionName: COLLECTION,
+          orderBy: { field: "metadata.year" },
+          cursor: firstPage.nextCursor,
+        }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        db.getPage({
+          collectionName: COLLECTION,
+          cursor: firstPage.nextCursor,
+          offset: 1,
+        }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "pages through results with offsets",
+    async run(db) {
+      await seed(db);
+      const page = await db.getPage({
+        collectionName: COLLECTION,
+        where: { genre: { $ne: "poetry" } },
+        orderBy: { field: "id", direction: "desc" },
+        offset: 1,
+        limit: 1,
+      });
+      assert.deepStrictEqual(
+        page.rows.map(({ id }) => id),
+        ["c"]
+      );
+      assert.strictEqual(page.total, 3);
+      assert.strictEqual(typeof page.nextCursor, "string");
+    },
+  },
+  {
+    name: "returns only the included fields",
+    async run(db) {
+      await seed(db);
+      const [row] = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["a"],
+        include: ["metadatas"],
+      });
+      assert.deepStrictEqual(Object.keys(present(row)).sort(), [
+        "collectionId",
+        "id",
+        "metadata",
+      ]);
+
+      const [result] = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [1, 0, 0],
+        nearestNeighbors: 1,
+        include: ["distances"],
+      });
+      assert.deepStrictEqual(result, { id: "a", distance: 0 });
+
+      // A cosine index may hold embeddings normalized, yet results report
+      // them as stored
+      await createCollection(db, OTHER_COLLECTION, { space: "cosine" });
+      await db.addEmbeddings({
+        collectionName: OTHER_COLLECTION,
+        ids: ["e"],
+        embeddings: [[3, 4, 0]],
+      });
+      const [cosineResult] = await db.getNearestNeighbors({
+        collectionName: OTHER_COLLECTION,
+        searchEmbedding: [3, 4, 0],
+        nearestNeighbors: 1,
+        include: ["embeddings"],
+      });
+      assert.deepStrictEqual(cosineResult, { id: "e", embedding: [3, 4, 0] });
+    },
+  },
+  {
+    name: "returns the nearest neighbours by distance",
+    async run(db) {
+      await seed(db);
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [1, 0, 0],
+        nearestNeighbors: 2,
+      });
+      assert.deepStrictEqual(results.map(present), [
+        {
+          id: "a",
+          distance: 0,
+          embedding: [1, 0, 0],
+          document: "The quick brown fox",
+          metadata: RECORDS[0].metadata,
+        },
+        { id: "d", distance: 1, embedding: [1, 1, 0] },
+      ]);
+
+      await assert.rejects(
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: [1, 0],
+          nearestNeighbors: 1,
+        }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "returns every record when asked for more neighbours than exist",
+    async run(db) {
+      for (const indexBackend of ["hnsw", "flat", "auto"] as const) {
+        const collectionName = `${COLLECTION}-${indexBackend}`;
+        const search = (nearestNeighbors: number) =>
+          db.getNearestNeighbors({
+            collectionName,
+            searchEmbedding: [1, 0, 0],
+            nearestNeighbors,
+            include: ["distances"],
+          });
+        await createCollection(db, collectionName, { indexBackend });
+        assert.deepStrictEqual(await search(3), [], indexBackend);
+
+        await db.addEmbeddings({
+          collectionName,
+          ids: ["a", "b"],
+          embeddings: [
+            [1, 0, 0],
+            [0, 1, 0],
+          ],
+        });
+        assert.deepStrictEqual(
+          await search(5),
+          [
+            { id: "a", distance: 0 },
+            { id: "b", distance: 2 },
+          ],
+          indexBackend
+        );
+
+        await db.deleteEmbedding(collectionName, "a");
+        await db.deleteEmbedding(collectionName, "b");
+        assert.deepStrictEqual(await search(1), [], indexBackend);
+      }
+    },
+  },
+  {
+    name: "searches int8 collections exactly over their stored values",
+    async run(db) {
+      await createCollection(db, COLLECTION, {
+        indexBackend: "flat",
+        quantization: "int8",
+      });
+      // More records than a search shortlists, so the int8 codes rank them
+      const ids = Array.from({ length: 20 }, (_, i) => `r${i}`);
+      await db.addEmbeddings({
+        collectionName: COLLECTION,
+        ids,
+        embeddings: ids.map((_, i) => [i, 0, 1]),
+      });
+
+      const [stored] = await db.get({
+        collectionName: COLLECTION,
+        embeddingIds: ["r11"],
+        include: ["embeddings"],
+      });
+      assert.deepStrictEqual(
+        stored.embedding.map((value) => Math.round(value * 1000) / 1000),
+        [11, 0, 1.039]
+      );
+
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [5.2, 0, 1],
+        nearestNeighbors: 3,
+        include: ["distances"],
+      });
+      assert.deepStrictEqual(
+        results.map(({ id }) => id),
+        ["r5", "r6", "r4"]
+      );
+      assert.ok(
+        results.every(({ distance }, i) =>
+          i ? distance >= results[i - 1].distance : distance < 0.05
+        )
+      );
+    },
+  },
+  {
+    name: "restricts nearest neighbours to the filtered records",
+    async run(db) {
+      await seed(db);
+      const search = (
+        query: Partial<Parameters<Db["getNearestNeighbors"]>[0]>
+      ) =>
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: [0, 1, 0.5],
+          nearestNeighbors: 2,
+          include: [],
+          ...query,
+        });
+
+      assert.deepStrictEqual(await search({ where: { genre: "fiction" } }), [
+        { id: "c" },
+        { id: "a" },
+      ]);
+      assert.deepStrictEqual(
+        await search({
+          whereDocument: { $contains: "fox" },
+          nearestNeighbors: 1,
+        }),
+        [{ id: "c" }]
+      );
+      // Fewer matches than nearestNeighbors return what there is
+      assert.deepStrictEqual(await search({ embeddingIds: ["d"] }), [
+        { id: "d" },
+      ]);
+      assert.deepStrictEqual(await search({ where: { genre: "drama" } }), []);
+    },
+  },
+  {
+    name: "runs several queries in one batch",
+    async run(db) {
+      await seed(db);
+      const results = await db.getNearestNeighborsBatch({
+        collectionName: COLLECTION,
+        searchEmbeddings: [
+          [0, 0, 1],
+          [0, 1, 0],
+        ],
+        nearestNeighbors: 1,
+        include: [],
+      });
+      assert.deepStrictEqual(results, [[{ id: "c" }], [{ id: "b" }]]);
+
+      await assert.rejects(
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbeddings: [[0, 0, 1]],
+          nearestNeighbors: 1,
+        }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "fuses keyword matches into hybrid searches",
+    async run(db) {
+      await seed(db);
+      const results = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [1, 0, 0],
+        searchText: "lazy dog",
+        nearestNeighbors: 4,
+        hybrid: { mode: "rrf" },
+        include: ["distances"],
+      });
+
+      assert.strictEqual(results.length, 4);
+      const dog = results.find(({ id }) => id === "b");
+      assert.ok(dog.keywordScore > 0);
+      assert.strictEqual(dog.distance, 2);
+      assert.ok(results.every(({ score }) => typeof score === "number"));
+      assert.ok(
+        results.every(
+          ({ id, keywordScore }) => id === "b" || keywordScore === undefined
+        )
+      );
+      // Ranked by both searches, the keyword match overtakes the closest one
+      assert.deepStrictEqual(
+        results.slice(0, 2).map(({ id }) => id),
+        ["b", "a"]
+      );
+
+      // With one vector candidate, the keyword match is outside it
+      const narrow = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [1, 0, 0],
+        searchText: "lazy dog",
+        nearestNeighbors: 2,
+        hybrid: { mode: "rrf", fetchK: 1 },
+        include: ["distances"],
+      });
+      assert.deepStrictEqual(
+        narrow
+          .map(({ id, distance, keywordScore }) => ({
+            id,
+            distance,
+            keyword: keywordScore > 0,
+          }))
+          .sort((a, b) => a.id.localeCompare(b.id)),
+        [
+          { id: "a", distance: 0, keyword: false },
+          { id: "b", distance: 2, keyword: true },
+        ]
+      );
+
+      await assert.rejects(
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: [1, 0, 0],
+          nearestNeighbors: 1,
+          hybrid: {},
+        }),
+        InvalidArgumentError
+      );
+      await assert.rejects(
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: [1, 0, 0],
+          searchText: "dog",
+          nearestNeighbors: 1,
+          hybrid: {},
+          mmr: {},
+        }),
+        InvalidArgumentError
+      );
+    },
+  },
+  {
+    name: "diversifies mmr searches",
+    async run(db) {
+      await seed(db);
+      const search = (mmr?: { lambda: number }) =>
+        db.getNearestNeighbors({
+          collectionName: COLLECTION,
+          searchEmbedding: [1, 0.9, 0],
+          nearestNeighbors: 2,
+          mmr,
+          include: [],
+        });
+
+      assert.deepStrictEqual(await search(), [{ id: "d" }, { id: "a" }]);
+      // a is close to the query but closer still to d, c is far from both
+      assert.deepStrictEqual(await search({ lambda: 0.2 }), [
+        { id: "d" },
+        { id: "c" },
+      ]);
+    },
+  },
+  {
+    name: "counts embeddings per collection",
+    async run(db) {
+      await seed(db);
+      await createCollection(db, OTHER_COLLECTION);
+
+      assert.strictEqual(await count(db), 4);
+      assert.strictEqual(await count(db, OTHER_COLLECTION), 0);
+      await assert.rejects(count(db, "missing"), NotFoundError);
+
+      const stats = await db.collectionStats();
+      assert.deepStrictEqual(
+        stats.map(({ name, embeddingCount, index }) => [
+          name,
+          embeddingCount,
+          index.elementCount,
+        ]),
+        [
+          [COLLECTION, 4, 4],
+          [OTHER_COLLECTION, 0, 0],
+        ]
+      );
+    },
+  },
+  {
+    name: "rejects operations on missing collections",
+    async run(db) {
+      const missing = "missing";
+      await assert.rejects(db.peek(missing), NotFoundError);
+      await assert.rejects(db.get({ collectionName: missing }), NotFoundError);
+      await assert.rejects(
+        db.addEmbeddings({ collectionName: missing, embeddings: [[1, 0, 0]] }),
+        NotFoundError
+      );
+      await assert.rejects(
+        db.getNearestNeighbors({
+          collectionName: missing,
+          searchEmbedding: [1, 0, 0],
+          nearestNeighbors: 1,
+        }),
+        NotFoundError
+      );
+      await assert.rejects(db.deleteEmbedding(missing, "a"), NotFoundError);
+      await assert.rejects(db.exportCollection(missing), NotFoundError);
+      await assert.rejects(db.reindexCollection(missing), NotFoundError);
+    },
+  },
+  {
+    name: "reindexes collections from their records",
+    async run(db) {
+      await seed(db);
+      assert.strictEqual(await db.reindexCollection(COLLECTION), 4);
+      const [nearest] = await db.getNearestNeighbors({
+        collectionName: COLLECTION,
+        searchEmbedding: [0, 0, 1],
+        nearestNeighbors: 1,
+        include: [],
+      });
+      assert.deepStrictEqual(nearest, { id: "c" });
+    },
+  },
+  {
+    name: "exports and imports collections",
+    async run(db) {
+      await seed(db);
+      const snapshot = await db.exportCollection(COLLECTION);
+      assert.strictEqual(snapshot.name, COLLECTION);
+      assert.deepStrictEqual(
+        snapshot.records.map(({ id }) => id),
+        ["a", "b", "c", "d"]
+      );
+      assert.deepStrictEqual(snapshot.records[0].metadata, RECORDS[0].metadata);
+
+      // Archives read back as written, and malformed ones are rejected
+      const archive = packSnapshot(snapshot);
+      assert.deepStrictEqual(
+        unpackSnapshot(archive).records,
+        JSON.parse(JSON.stringify(snapshot.records))
+      );
+      const malformed = [{ id: "x" }, { id: "x", embedding: ["1", "2", "3"] }];
+      for (const record of malformed) {
+        assert.throws(
+          () =>
+            unpackSnapshot(
+              packSnapshot({
+                ...snapshot,
+                records: [record as unknown as SnapshotRecord],
+              })
+            ),
+          InvalidArgumentError
+        );
+      }
+      const entries = unpackTar(gunzipSync(archive));
+      const manifest = JSON.parse(entries[0].data.toString("utf8"));
+      delete manifest.collection;
+      entries[0].data = Buffer.from(JSON.stringify(manifest));
+      assert.throws(
+        () => unpackSnapshot(gzipSync(packTar(entries))),
+        InvalidArgumentError
+      );
+
+      await assert.rejects(db.importCollection(snapshot), ConflictError);
+      // The records keep their ids, which are still taken
+      await assert.rejects(
+        db.importCollection(snapshot, OTHER_COLLECTION),
+        ConflictError
+      );
+
+      const before = await db.get({ collectionName: COLLECTION });
+      await db.deleteCollection(COLLECTION);
+      const imported = await db.importCollection(snapshot, OTHER_COLLECTION);
+      assert.strictEqual(imported.name, OTHER_COLLECTION);
+
+      const after = await db.get({ collectionName: OTHER_COLLECTION });
+      assert.deepStrictEqual(
+        after.map((row) => present({ ...row, collectionId: undefined })),
+        before.map((row) => present({ ...row, collectionId: undefined }))
+      );
+      const [nearest] = await db.getNearestNeighbors({
+        collectionName: OTHER_COLLECTION,
+        searchEmbedding: [0, 1, 0],
+        nearestNeighbors: 1,
+        include: [],
+      });
+      assert.deepStrictEqual(nearest, { id: "b" });
+    },
+  },
+  {
+    name: "imports a snapshot next to its source with prefixed ids",
+    async run(db) {
+      await seed(db);
+      const snapshot = await db.exportCollection(COLLECTION);
+      await db.importCollection(snapshot, OTHER_COLLECTION, "copy-");
+
+      assert.strictEqual(await count(db, OTHER_COLLECTION), 4);
+      assert.deepStrictEqual(await getIds(db, {}), ["a", "b", "c", "d"]);
+      const copies = await db.get({ collectionName: OTHER_COLLECTION });
+      assert.deepStrictEqual(
+        copies.map(({ id }) => id),
+        ["copy-a", "copy-b", "copy-c", "copy-d"]
+      );
+      assert.deepStrictEqual(copies[0].metadata, RECORDS[0].metadata);
+
+      const [nearest] = await db.getNearestNeighbors({
+        collectionName: OTHER_COLLECTION,
+        searchEmbedding: [0, 1, 0],
+        nearestNeighbors: 1,
+        include: [],
+      });
+      assert.deepStrictEqual(nearest, { id: "copy-b" });
+
+      // The copies are written to like any other record
+      await db.deleteEmbedding(OTHER_COLLECTION, "copy-a");
+      assert.strictEqual(await count(db), 4);
+    },
+  },
+  {
+    name: "settles concurrent creates and imports with conflicts",
+    async run(db) {
+      await seed(db);
+      const snapshot = await db.exportCollection(COLLECTION);
+      const assertOneSucceeds = async (writes: Promise<unknown>[]) => {
+        const outcomes = await Promise.allSettled(writes);
+        const rejections = outcomes.flatMap((outcome) =>
+          outcome.status === "rejected" ? [outcome.reason] : []
+        );
+        assert.strictEqual(rejections.length, writes.length - 1);
+        for (const reason of rejections) {
+          assert.ok(reason instanceof ConflictError, String(reason));
+        }
+      };
+
+      // One name
+      await assertOneSucceeds([
+        db.importCollection(snapshot, OTHER_COLLECTION, "first-"),
+        db.importCollection(snapshot, OTHER_COLLECTION, "second-"),
+        createCollection(db, OTHER_COLLECTION),
+      ]);
+      // The same ids under two names
+      await assertOneSucceeds([
+        db.importCollection(snapshot, "conformance-first", "copy-"),
+        db.importCollection(snapshot, "conformance-second", "copy-"),
+      ]);
+      const names = (await db.listCollections()).map(({ name }) => name);
+      assert.strictEqual(names.length, 3);
+
+      // Creates that may get the existing collection all get the same one
+      const [first, second] = await Promise.all(
+        ["conformance-third", "conformance-third"].map((name) =>
+          db.createCollection(
+            name,
+            { numberOfDimensions: 3, space: "l2" },
+            true
+          )
+        )
+      );
+      assert.strictEqual(first.id, second.id);
+    },
+  },
+  {
+    name: "reports every collection as healthy",
+    async run(db) {
+      await seed(db);
+      const health = await db.checkHealth();
+      assert.strictEqual(health.ok, true);
+      assert.deepStrictEqual(
+        health.collections.map(({ name, embeddingCount, error }) => [
+          name,
+          embeddingCount,
+          error,
+        ]),
+        [[COLLECTION, 4, undefined]]
+      );
+    },
+  },
+];
+
+/**
+ * Runs every conformance case against a fresh Db from `createDb`, which is
+ * initialized first and closed after the case whatever its outcome. Failures
+ * are collected in the report rather than thrown.
+ */
+export async function runDbConformanceSuite(
+  implementation: string,
+  createDb: () => Promise<Db>,
+  cases: ConformanceCase[] = DB_CONFORMANCE_CASES
+): Promise<ConformanceReport> {
+  const results: ConformanceCaseResult[] = [];
+  for (const { name, run } of cases) {
+    results.push(
+      await runConformanceCase(name, async () => {
+        const db = await createDb();
+        try {
+          await db.init();
+          await run(db);
+        } finally {
+          await db.close();
+        }
+      })
+    );
+  }
+  return conformanceReport(implementation, results);
+}
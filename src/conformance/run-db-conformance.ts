@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createServer } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HapiApi } from "../api/hapi-api";
+import { createConsoleLogger } from "../cli/console-logger";
+import { InMemoryDb } from "../db/in-memory-db";
+import { SqliteDb } from "../db/sqlite-db";
+import { ConformanceReport } from "../types/conformance";
+import { Db } from "../types/db";
+import { runApiConformanceSuite } from "./api-conformance";
+import { runDbConformanceSuite } from "./db-conformance";
+
+/**
+ * Runs the Db conformance suite against every implementation in this
+ * repository, then the API suite against HapiApi, and prints one line per
+ * case. Each SqliteDb and HapiApi case gets its own directory, all of them
+ * removed once the suites are done.
+ */
+async function main(): Promise<number> {
+  const logger = createConsoleLogger("error");
+  const directories: string[] = [];
+  const createDirectory = () => {
+    const directory = mkdtempSync(join(tmpdir(), "ad-chroma-"));
+    directories.push(directory);
+    return directory;
+  };
+  const implementations: [string, () => Promise<Db>][] = [
+    ["InMemoryDb", async () => new InMemoryDb(logger)],
+    [
+      "SqliteDb",
+      async () =>
+        new SqliteDb(
+          { persistDirectory: createDirectory(), dbName: "conformance" },
+          logger
+        ),
+    ],
+  ];
+
+  const reports: ConformanceReport[] = [];
+  try {
+    for (const [implementation, createDb] of implementations) {
+      reports.push(await runDbConformanceSuite(implementation, createDb));
+    }
+    reports.push(
+      await runApiConformanceSuite("HapiApi", async (auth) => {
+        const port = await freePort();
+        const api = new HapiApi(
+          {
+            port,
+            host: "127.0.0.1",
+            persistDirectory: createDirectory(),
+            dbName: "conformance",
+            auth,
+          },
+          logger
+        );
+        return { api, url: `http://127.0.0.1:${port}` };
+      })
+    );
+  } finally {
+    for (const directory of directories) {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  for (const { implementation, results, passed, failed } of reports) {
+    console.log(`${implementation}: ${passed} passed, ${failed} failed`);
+    for (const { name, passed, error, durationMs } of results) {
+      console.log(
+        `  ${passed ? "ok  " : "FAIL"} ${name} (${durationMs.toFixed(1)}ms)`
+      );
+      if (error) {
+        console.log(error.replace(/^/gm, "       "));
+      }
+    }
+  }
+  return reports.some(({ failed }) => failed) ? 1 : 0;
+}
+
+/**
+ * A port nothing listens on right now, for a server started right after.
+ */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+main().then((exitCode) => {
+  process.exitCode = exitCode;
+});
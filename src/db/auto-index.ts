@@ -0,0 +1,140 @@
+import { DbMetrics } from "../types/db-metrics";
+import { IndexConfig } from "../types/index-config";
+import { IndexSnapshot } from "../types/collection-snapshot";
+import { Logger } from "../types/logger";
+import { IndexData } from "../types/index-data";
+import { IndexSearchResult } from "../types/index-search-result";
+import { IndexStats } from "../types/index-stats";
+import { VectorIndex } from "../types/vector-index";
+import { FlatIndex } from "./flat-index";
+import { HnswIndex } from "./hnsw-index";
+import { persistedBackend } from "./index-files";
+
+export const DEFAULT_FLAT_INDEX_THRESHOLD = 10000;
+
+/**
+ * Searches exactly with a flat index while the collection is small, and
+ * promotes it to hnsw once it holds more than `flatIndexThreshold`
+ * embeddings. A promoted index is not demoted when embeddings are deleted,
+ * only a rebuild picks the backend by size again.
+ */
+export class AutoIndex implements VectorIndex {
+  private _backend: FlatIndex | HnswIndex;
+
+  constructor(
+    private indexConfig: IndexConfig,
+    private logger: Logger,
+    private metrics?: DbMetrics
+  ) {
+    this._backend =
+      persistedBackend(indexConfig) === "hnsw"
+        ? new HnswIndex(indexConfig, logger, metrics)
+        : new FlatIndex(indexConfig, logger, metrics);
+  }
+
+  private get threshold() {
+    return this.indexConfig.flatIndexThreshold ?? DEFAULT_FLAT_INDEX_THRESHOLD;
+  }
+
+  public get space() {
+    return this._backend.space;
+  }
+
+  public get loadError() {
+    return this._backend.loadError;
+  }
+
+  public getElementCount(): number {
+    return this._backend.getElementCount();
+  }
+
+  public async rebuild(indexData: IndexData[]) {
+    const useFlat = indexData.length <= this.threshold;
+    if (useFlat !== this._backend instanceof FlatIndex) {
+      await this._backend.dropIndex();
+      this._backend = useFlat
+        ? new FlatIndex(this.indexConfig, this.logger, this.metrics)
+        : new HnswIndex(this.indexConfig, this.logger, this.metrics);
+    }
+    await this._backend.rebuild(indexData);
+  }
+
+  public async dropIndex() {
+    await this._backend.dropIndex();
+  }
+
+  public async add(indexData: IndexData[], update: boolean = false) {
+    await this._backend.add(indexData, update);
+
+    const backend = this._backend;
+    if (
+      backend instanceof FlatIndex &&
+      backend.getElementCount() > this.threshold
+    ) {
+      this.logger.info(
+        `Promoting index ${this.indexConfig.id} from flat to hnsw at ${backend.getElementCount()} embeddings`
+      );
+      const entries = backend.entries();
+      await backend.dropIndex();
+      this._backend = new HnswIndex(
+        this.indexConfig,
+        this.logger,
+        this.metrics
+      );
+      await this._backend.rebuild(entries);
+    }
+  }
+
+  public async delete(ids: string[]) {
+    await this._backend.delete(ids);
+  }
+
+  public flush() {
+    return this._backend.flush();
+  }
+
+  public search(
+    query: number[],
+    k: number,
+    ids?: string[],
+    ef?: number
+  ): Promise<IndexSearchResult[]> {
+    return this._backend.search(query, k, ids, ef);
+  }
+
+  public distances(
+    query: number[],
+    ids: string[]
+  ): Promise<IndexSearchResult[]> {
+    return this._backend.distances(query, ids);
+  }
+
+  public readSnapshot(): IndexSnapshot | null {
+    return this._backend.readSnapshot();
+  }
+
+  /**
+   * Restores a snapshot with the backend that wrote it.
+   */
+  public restoreSnapshot(snapshot: IndexSnapshot) {
+    const backend = snapshot.sidecar.backend ?? "hnsw";
+    if (backend === "hnsw" && !(this._backend instanceof HnswIndex)) {
+      this._backend = new HnswIndex(
+        this.indexConfig,
+        this.logger,
+        this.metrics
+      );
+    } else if (backend === "flat" && !(this._backend instanceof FlatIndex)) {
+      this._backend = new FlatIndex(
+        this.indexConfig,
+        this.logger,
+        this.metrics
+      );
+    }
+    this._backend.restoreSnapshot(snapshot);
+  }
+
+  public stats(): IndexStats {
+    return this._backend.stats();
+  }
+}
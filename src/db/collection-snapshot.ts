@@ -0,0 +1,233 @@
+import { createHash } from "crypto";
+import { ValidationError } from "fastest-validator";
+import { gunzipSync, gzipSync } from "zlib";
+import {
+  CollectionSnapshot,
+  SnapshotManifest,
+  SnapshotRecord,
+} from "../types/collection-snapshot";
+import { CollectionRowMetadata } from "../types/collection-row";
+import { IndexSidecar } from "../types/index-metadata";
+import { InvalidArgumentError } from "../utils/errors";
+import { packTar, TarEntry, unpackTar } from "../utils/tar";
+import { Validators } from "../utils/validators";
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+export const SNAPSHOT_CONTENT_TYPE = "application/gzip";
+
+const MANIFEST_FILE = "manifest.json";
+const COLLECTION_FILE = "collection.json";
+const RECORDS_FILE = "records.jsonl";
+const INDEX_FILE = "index.bin";
+const INDEX_SIDECAR_FILE = "index.json";
+
+/**
+ * Writes a snapshot as a gzipped tar holding the collection metadata, one
+ * JSON record per line, the index with its label maps and a manifest with a
+ * checksum of every other file.
+ */
+export function packSnapshot(snapshot: CollectionSnapshot): Buffer {
+  const files: TarEntry[] = [
+    {
+      name: COLLECTION_FILE,
+      data: Buffer.from(
+        JSON.stringify({ name: snapshot.name, metadata: snapshot.metadata })
+      ),
+    },
+    {
+      name: RECORDS_FILE,
+      data: Buffer.from(
+        snapshot.records.map((record) => `${JSON.stringify(record)}\n`).join("")
+      ),
+    },
+  ];
+  if (snapshot.index) {
+    files.push(
+      { name: INDEX_FILE, data: snapshot.index.index },
+      {
+        name: INDEX_SIDECAR_FILE,
+        data: Buffer.from(JSON.stringify(snapshot.index.sidecar)),
+      }
+    );
+  }
+
+  const manifest: SnapshotManifest = {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    collection: {
+      name: snapshot.name,
+      numberOfDimensions: snapshot.metadata.numberOfDimensions,
+      recordCount: snapshot.records.length,
+    },
+    files: Object.fromEntries(
+      files.map(({ name, data }) => [
+        name,
+        { sha256: sha256(data), bytes: data.length },
+      ])
+    ),
+  };
+
+  return gzipSync(
+    packTar([
+      { name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest)) },
+      ...files,
+    ])
+  );
+}
+
+/**
+ * Reads an archive written by packSnapshot. Archives of another format
+ * version, with a malformed manifest or record, with a file that fails its
+ * checksum or with embeddings that do not match the collection's dimension
+ * are rejected.
+ */
+export function unpackSnapshot(archive: Buffer): CollectionSnapshot {
+  let entries: TarEntry[];
+  try {
+    entries = unpackTar(gunzipSync(archive));
+  } catch (err) {
+    throw new InvalidArgumentError(
+      `Unable to read snapshot archive: ${(err as Error).message}`
+    );
+  }
+  const files = new Map(entries.map(({ name, data }) => [name, data]));
+
+  const validator = new Validators();
+  const manifest: SnapshotManifest = parseJson(files.get(MANIFEST_FILE), MANIFEST_FILE);
+  assertWellFormed(MANIFEST_FILE, validator.validateSnapshotManifest(manifest));
+  if (manifest.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new InvalidArgumentError(
+      `Unsupported snapshot format version ${manifest.formatVersion}, expected ${SNAPSHOT_FORMAT_VERSION}`
+    );
+  }
+
+  for (const [name, { sha256: expected, bytes }] of Object.entries(
+    manifest.files
+  )) {
+    const data = files.get(name);
+    if (!data) {
+      throw new InvalidArgumentError(`Snapshot is missing ${name}`);
+    }
+    if (data.length !== bytes || sha256(data) !== expected) {
+      throw new InvalidArgumentError(`Checksum mismatch for ${name} in snapshot`);
+    }
+  }
+  for (const name of [COLLECTION_FILE, RECORDS_FILE]) {
+    if (!manifest.files[name]) {
+      throw new InvalidArgumentError(`Snapshot manifest does not list ${name}`);
+    }
+  }
+
+  const { name, metadata }: { name: string; metadata: CollectionRowMetadata } =
+    parseJson(files.get(COLLECTION_FILE), COLLECTION_FILE);
+  const records: SnapshotRecord[] = files
+    .get(RECORDS_FILE)
+    .toString("utf8")
+    .split("\n")
+    .filter((line) => line.length)
+    .map((line, i) => {
+      const record = parseJson(Buffer.from(line), `record ${i + 1}`);
+      assertWellFormed(
+        `record ${i + 1}`,
+        validator.validateSnapshotRecord(record)
+      );
+      return record;
+    });
+
+  const { numberOfDimensions } = metadata;
+  if (manifest.collection.numberOfDimensions !== numberOfDimensions) {
+    throw new InvalidArgumentError(
+      `Snapshot manifest declares dimension ${manifest.collection.numberOfDimensions} but the collection has ${numberOfDimensions}`
+    );
+  }
+  if (manifest.collection.recordCount !== records.length) {
+    throw new InvalidArgumentError(
+      `Snapshot manifest declares ${manifest.collection.recordCount} records but holds ${records.length}`
+    );
+  }
+  const mismatched = records.find(
+    ({ embedding }) => embedding.length !== numberOfDimensions
+  );
+  if (mismatched) {
+    throw new InvalidArgumentError(
+      `Record ${mismatched.id} has dimension ${mismatched.embedding.length} but the collection has ${numberOfDimensions}`
+    );
+  }
+
+  const snapshot: CollectionSnapshot = { name, metadata, records };
+  if (manifest.files[INDEX_FILE] && manifest.files[INDEX_SIDECAR_FILE]) {
+    const sidecar: IndexSidecar = parseJson(
+      files.get(INDEX_SIDECAR_FILE),
+      INDEX_SIDECAR_FILE
+    );
+    snapshot.index = { index: files.get(INDEX_FILE), sidecar };
+  }
+
+  return snapshot;
+}
+
+/**
+ * A copy of a snapshot whose record ids start with `idPrefix`, so it can be
+ * restored next to the collection it was exported from. The index keeps its
+ * labels, with the ids they map from prefixed the same way.
+ */
+export function prefixSnapshotIds(
+  snapshot: CollectionSnapshot,
+  idPrefix: string
+): CollectionSnapshot {
+  const prefixed: CollectionSnapshot = {
+    name: snapshot.name,
+    metadata: snapshot.metadata,
+    records: snapshot.records.map((record) => ({
+      ...record,
+      id: idPrefix + record.id,
+    })),
+  };
+  if (snapshot.index) {
+    const { sidecar } = snapshot.index;
+    prefixed.index = {
+      index: snapshot.index.index,
+      sidecar: {
+        ...sidecar,
+        idToLabel: Object.fromEntries(
+          Object.entries(sidecar.idToLabel).map(([id, label]) => [
+            idPrefix + id,
+            label,
+          ])
+        ),
+      },
+    };
+  }
+  return prefixed;
+}
+
+function parseJson(data: Buffer | undefined, name: string) {
+  if (!data) {
+    throw new InvalidArgumentError(`Snapshot is missing ${name}`);
+  }
+
+  try {
+    return JSON.parse(data.toString("utf8"));
+  } catch (err) {
+    throw new InvalidArgumentError(
+      `Snapshot ${name} is not valid JSON: ${(err as Error).message}`
+    );
+  }
+}
+
+function assertWellFormed(
+  name: string,
+  validation: ReturnType<Validators["validateSnapshotRecord"]>
+) {
+  if (validation !== true) {
+    throw new InvalidArgumentError(
+      `Snapshot ${name} is malformed: ${(validation as ValidationError[])
+        .map((e) => e.message)
+        .join(" ")}`
+    );
+  }
+}
+
+function sha256(data: Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
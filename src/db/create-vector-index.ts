@@ -0,0 +1,25 @@
+import { DbMetrics } from "../types/db-metrics";
+import { IndexConfig } from "../types/index-config";
+import { Logger } from "../types/logger";
+import { VectorIndex } from "../types/vector-index";
+import { AutoIndex } from "./auto-index";
+import { FlatIndex } from "./flat-index";
+import { HnswIndex } from "./hnsw-index";
+
+/**
+ * Opens the index backend a collection's config asks for, hnsw by default.
+ */
+export function createVectorIndex(
+  indexConfig: IndexConfig,
+  logger: Logger,
+  metrics?: DbMetrics
+): VectorIndex {
+  switch (indexConfig.indexBackend ?? "hnsw") {
+    case "flat":
+      return new FlatIndex(indexConfig, logger, metrics);
+    case "auto":
+      return new AutoIndex(indexConfig, logger, metrics);
+    default:
+      return new HnswIndex(indexConfig, logger, metrics);
+  }
+}
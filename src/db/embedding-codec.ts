@@ -0,0 +1,104 @@
+import { EmbeddingQuantization } from "../types/embedding-quantization";
+import { Metadata } from "../types/where-filter";
+
+const FLOAT32_BYTES = Float32Array.BYTES_PER_ELEMENT;
+const INT8_MAX = 127;
+
+/**
+ * Encodes an embedding for the BLOB column of the embeddings table. An int8
+ * embedding starts with its scale, the largest absolute value divided by
+ * 127, followed by each value divided by the scale and rounded.
+ */
+export function encodeEmbedding(
+  embedding: number[],
+  quantization: EmbeddingQuantization = "none"
+): Buffer {
+  if (quantization === "int8") {
+    const codes = new Int8Array(embedding.length);
+    const scale = quantizeInt8(embedding, codes);
+    const buffer = Buffer.alloc(FLOAT32_BYTES + embedding.length);
+    buffer.writeFloatLE(scale, 0);
+    codes.forEach((code, i) => buffer.writeInt8(code, FLOAT32_BYTES + i));
+    return buffer;
+  }
+
+  const buffer = Buffer.alloc(embedding.length * FLOAT32_BYTES);
+  embedding.forEach((value, i) =>
+    buffer.writeFloatLE(value, i * FLOAT32_BYTES)
+  );
+  return buffer;
+}
+
+/**
+ * Writes the int8 codes of `values` into `codes` from `offset` and returns
+ * their scale, which multiplies each code back into a value.
+ */
+export function quantizeInt8(
+  values: ArrayLike<number>,
+  codes: Int8Array,
+  offset: number = 0
+): number {
+  let maxAbs = 0;
+  for (let i = 0; i < values.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(values[i]));
+  }
+
+  const scale = maxAbs / INT8_MAX;
+  for (let i = 0; i < values.length; i++) {
+    codes[offset + i] = scale ? Math.round(values[i] / scale) : 0;
+  }
+  return scale;
+}
+
+/**
+ * Decodes a stored embedding. Rows written before embeddings were stored as
+ * BLOBs hold TEXT, either as `1,2,3` or as a JSON array.
+ */
+export function decodeEmbedding(
+  stored: Buffer | string,
+  quantization: EmbeddingQuantization = "none"
+): number[] {
+  if (typeof stored === "string") {
+    return stored.startsWith("[")
+      ? JSON.parse(stored)
+      : stored.split(",").map(Number);
+  }
+
+  if (quantization === "int8") {
+    const scale = stored.readFloatLE(0);
+    const embedding: number[] = [];
+    for (let i = FLOAT32_BYTES; i < stored.length; i++) {
+      embedding.push(stored.readInt8(i) * scale);
+    }
+    return embedding;
+  }
+
+  const embedding: number[] = [];
+  for (let i = 0; i < stored.length; i += FLOAT32_BYTES) {
+    embedding.push(stored.readFloatLE(i));
+  }
+  return embedding;
+}
+
+/**
+ * The values an embedding reads back as once stored, which is what indexes
+ * are given, so that an index rebuilt from the table scores the same.
+ */
+export function storedValues(
+  embedding: number[],
+  quantization: EmbeddingQuantization = "none"
+): number[] {
+  return quantization === "none"
+    ? embedding
+    : decodeEmbedding(encodeEmbedding(embedding, quantization), quantization);
+}
+
+/**
+ * Parses the JSON text metadata is stored as. Records without metadata hold
+ * NULL.
+ */
+export function decodeMetadata(
+  stored: string | null | undefined
+): Metadata | undefined {
+  return stored ? JSON.parse(stored) : undefined;
+}
@@ -0,0 +1,677 @@
+import { existsSync, readFileSync, rmSync } from "fs";
+import { SpaceName } from "hnswlib-node";
+import { DbMetrics } from "../types/db-metrics";
+import { IndexConfig } from "../types/index-config";
+import { IndexSidecar } from "../types/index-metadata";
+import { IndexSnapshot } from "../types/collection-snapshot";
+import { Logger } from "../types/logger";
+import { IndexData } from "../types/index-data";
+import { IndexSearchResult } from "../types/index-search-result";
+import { IndexStats } from "../types/index-stats";
+import { VectorIndex } from "../types/vector-index";
+import { Validators } from "../utils/validators";
+import { ConflictError, InvalidArgumentError } from "../utils/errors";
+import { timeIndexOperation } from "../metrics/timing";
+import {
+  indexFileBytes,
+  IndexFiles,
+  indexFiles,
+  SIDECAR_VERSION,
+  writeIndexFiles,
+} from "./index-files";
+import { IndexJournal } from "./index-journal";
+import { DEFAULT_SPACE } from "./hnsw-index";
+import { quantizeInt8 } from "./embedding-codec";
+
+const INITIAL_CAPACITY = 64;
+// An int8 scan rescores this many candidates per result at full precision
+const INT8_RESCORE_MULTIPLIER = 4;
+
+/**
+ * Exact search that compares the query with every embedding. Embeddings are
+ * kept row after row in one Float32Array, so the distance loops run over
+ * contiguous memory, and rows stay dense: deleting a row moves the last one
+ * into its place. The `.bin` file is that array as raw bytes.
+ *
+ * For an int8 collection each row also keeps its int8 codes, and a scan
+ * first ranks every row on those, reading a quarter of the memory, before
+ * rescoring the closest few against the query at full precision.
+ */
+export class FlatIndex implements VectorIndex {
+  private _validator: Validators;
+  private _loadError: string | null;
+  private _files: IndexFiles;
+  private _journal: IndexJournal;
+  private _timeCreated: number | null;
+
+  private vectors: Float32Array;
+  // Euclidean norm of each row, so cosine distances need one dot product
+  private norms: Float32Array;
+  // Int8 codes of each row and the scale they multiply back with, only for
+  // int8 collections
+  private codes: Int8Array | null;
+  private scales: Float32Array | null;
+  private rowIds: string[];
+  private idToRow: Map<string, number>;
+
+  constructor(
+    private indexConfig: IndexConfig,
+    private logger: Logger,
+    private metrics?: DbMetrics
+  ) {
+    this._validator = new Validators();
+    this._validator.validateIndexConfig(indexConfig);
+
+    this._loadError = null;
+    this._files = indexFiles(indexConfig);
+    this._journal = new IndexJournal(
+      this._files,
+      indexConfig,
+      () => this.save(),
+      logger
+    );
+    this._timeCreated = null;
+    this.reset(0);
+
+    this.load();
+  }
+
+  private get dimensions() {
+    return this.indexConfig.numberOfDimensions;
+  }
+
+  public get space(): SpaceName {
+    return this.indexConfig.space ?? DEFAULT_SPACE;
+  }
+
+  private get quantized() {
+    return this.indexConfig.quantization === "int8";
+  }
+
+  public get loadError(): string | null {
+    return this._loadError;
+  }
+
+  public getElementCount(): number {
+    return this.rowIds.length;
+  }
+
+  private reset(capacity: number) {
+    this.vectors = new Float32Array(capacity * this.dimensions);
+    this.norms = new Float32Array(capacity);
+    this.codes = this.quantized
+      ? new Int8Array(capacity * this.dimensions)
+      : null;
+    this.scales = this.quantized ? new Float32Array(capacity) : null;
+    this.rowIds = [];
+    this.idToRow = new Map();
+  }
+
+  private ensureCapacity(rows: number) {
+    const capacity = this.norms.length;
+    if (rows <= capacity) {
+      return;
+    }
+
+    const newCapacity = Math.max(rows, capacity * 2, INITIAL_CAPACITY);
+    const vectors = new Float32Array(newCapacity * this.dimensions);
+    vectors.set(this.vectors);
+    const norms = new Float32Array(newCapacity);
+    norms.set(this.norms);
+    this.vectors = vectors;
+    this.norms = norms;
+    if (this.codes) {
+      const codes = new Int8Array(newCapacity * this.dimensions);
+      codes.set(this.codes);
+      const scales = new Float32Array(newCapacity);
+      scales.set(this.scales);
+      this.codes = codes;
+      this.scales = scales;
+    }
+  }
+
+  private setRow(row: number, embedding: number[]) {
+    this.vectors.set(embedding, row * this.dimensions);
+    this.deriveRow(row);
+  }
+
+  /**
+   * Computes what a scan keeps next to a row's values: their norm and, for
+   * an int8 collection, their codes.
+   */
+  private deriveRow(row: number) {
+    const offset = row * this.dimensions;
+    const values = this.vectors.subarray(offset, offset + this.dimensions);
+    this.norms[row] = norm(values);
+    if (this.codes) {
+      this.scales[row] = quantizeInt8(values, this.codes, offset);
+    }
+  }
+
+  private getRow(row: number): number[] {
+    const offset = row * this.dimensions;
+    return Array.from(this.vectors.subarray(offset, offset + this.dimensions));
+  }
+
+  private save() {
+    timeIndexOperation(this.metrics, "flat", "save", () => this.writeFiles());
+  }
+
+  private writeFiles() {
+    const count = this.getElementCount();
+    const bytes = count * this.dimensions * Float32Array.BYTES_PER_ELEMENT;
+    const sidecar: IndexSidecar = {
+      version: SIDECAR_VERSION,
+      backend: "flat",
+      space: this.space,
+      elements: count,
+      timeCreated: this._timeCreated ?? +new Date(),
+      idToLabel: Object.fromEntries(this.idToRow),
+      deletedLabels: [],
+    };
+    this._timeCreated = sidecar.timeCreated;
+
+    writeIndexFiles(
+      this._files,
+      Buffer.from(this.vectors.buffer, this.vectors.byteOffset, bytes),
+      sidecar
+    );
+    this.logger.debug(`Index saved to ${this._files.index}`);
+  }
+
+  public async flush() {
+    this._journal.flush();
+  }
+
+  /**
+   * Restores the rows and their ids from disk, leaving a `loadError` when
+   * the files are missing, written by another backend or inconsistent.
+   */
+  private load() {
+    const hasIndex = existsSync(this._files.index);
+    const hasSidecar = existsSync(this._files.sidecar);
+    if (!hasIndex && !hasSidecar) {
+      // A new index whose first changes were only logged so far
+      this.replayLog();
+      return;
+    }
+
+    try {
+      if (!hasIndex || !hasSidecar) {
+        throw new Error(
+          `Found ${hasIndex ? "an index without a sidecar" : "a sidecar without an index"}`
+        );
+      }
+
+      const sidecar: IndexSidecar = JSON.parse(
+        readFileSync(this._files.sidecar, "utf8")
+      );
+      if (sidecar.version !== SIDECAR_VERSION) {
+        throw new Error(`Unsupported sidecar version ${sidecar.version}`);
+      }
+      if (sidecar.backend !== "flat") {
+        throw new Error(
+          `Found a ${sidecar.backend ?? "hnsw"} index instead of flat`
+        );
+      }
+      if (sidecar.space !== this.space) {
+        throw new Error(
+          `Sidecar space ${sidecar.space} does not match collection space ${this.space}`
+        );
+      }
+
+      const data = readFileSync(this._files.index);
+      const count = Object.keys(sidecar.idToLabel).length;
+      const expectedBytes =
+        count * this.dimensions * Float32Array.BYTES_PER_ELEMENT;
+      if (data.length !== expectedBytes) {
+        throw new Error(
+          `Sidecar maps ${count} ids but the index holds ${data.length} bytes instead of ${expectedBytes}`
+        );
+      }
+
+      this.reset(count);
+      // Copied out so the rows are aligned whatever the Buffer's offset
+      this.vectors.set(
+        new Float32Array(
+          data.buffer.slice(data.byteOffset, data.byteOffset + data.length)
+        )
+      );
+      for (const [id, row] of Object.entries(sidecar.idToLabel)) {
+        this.rowIds[row] = id;
+        this.idToRow.set(id, row);
+      }
+      for (let row = 0; row < count; row++) {
+        this.deriveRow(row);
+      }
+      this._timeCreated = sidecar.timeCreated;
+
+      this.replayLog();
+      this._loadError = null;
+    } catch (err) {
+      this.reset(0);
+      this._loadError = `Unable to load index ${this.indexConfig.id}: ${
+        (err as Error).message
+      }`;
+      this.logger.warn(this._loadError);
+    }
+  }
+
+  /**
+   * Applies logged mutations the persisted rows do not hold yet. Adds are
+   * applied as updates and deletes skip unknown ids, so entries the rows
+   * already hold are harmless.
+   */
+  private replayLog() {
+    const entries = this._journal.entries();
+    if (entries.length) {
+      this.logger.info(
+        `Replaying ${entries.length} logged changes into index ${this.indexConfig.id}`
+      );
+    }
+    for (const entry of entries) {
+      if (entry.op === "add") {
+        this.setRows(entry.items, true);
+      } else {
+        this.deleteRows(entry.ids);
+      }
+    }
+    this._journal.replayed(entries);
+  }
+
+  public async rebuild(indexData: IndexData[]) {
+    this.logger.info(
+      `Rebuilding flat index ${this.indexConfig.id} from ${indexData.length} embeddings`
+    );
+
+    this._journal.discard();
+    this.reset(indexData.length);
+    this._loadError = null;
+    this._timeCreated = null;
+    timeIndexOperation(this.metrics, "flat", "add", () =>
+      this.setRows(indexData, false)
+    );
+    // Written even when empty, so the collection has index files
+    this._journal.flush(true);
+  }
+
+  public async dropIndex() {
+    this._journal.discard();
+    for (const path of [this._files.index, this._files.sidecar]) {
+      if (existsSync(path)) {
+        rmSync(path);
+      }
+    }
+
+    this.reset(0);
+    this._timeCreated = null;
+  }
+
+  public readSnapshot(): IndexSnapshot | null {
+    this._journal.flush();
+    if (!existsSync(this._files.index) || !existsSync(this._files.sidecar)) {
+      return null;
+    }
+
+    return {
+      index: readFileSync(this._files.index),
+      sidecar: JSON.parse(readFileSync(this._files.sidecar, "utf8")),
+    };
+  }
+
+  public restoreSnapshot(snapshot: IndexSnapshot) {
+    this._journal.discard();
+    writeIndexFiles(this._files, snapshot.index, snapshot.sidecar);
+
+    this.reset(0);
+    this._loadError = null;
+    this.load();
+  }
+
+  /**
+   * All embeddings with their ids, e.g. to build another index from them.
+   */
+  public entries(): IndexData[] {
+    return this.rowIds.map((id, row) => ({ id, embedding: this.getRow(row) }));
+  }
+
+  public async add(indexData: IndexData[], update: boolean = false) {
+    if (!indexData.length) {
+      return;
+    }
+
+    timeIndexOperation(this.metrics, "flat", "add", () =>
+      this.setRows(indexData, update)
+    );
+    this._journal.record({ op: "add", items: indexData });
+  }
+
+  private setRows(indexData: IndexData[], update: boolean) {
+    if (!indexData.length) {
+      return;
+    }
+
+    // Check the whole batch before touching the rows so a bad item cannot
+    // leave them half updated
+    for (const { id, embedding } of indexData) {
+      if (embedding.length !== this.dimensions) {
+        throw new InvalidArgumentError(
+          `Dimension of data ${embedding.length} does not match index dimension ${this.dimensions}`
+        );
+      }
+      if (!update && this.idToRow.has(id)) {
+        throw new ConflictError(`The id ${id} already exists in the index`);
+      }
+    }
+
+    this.ensureCapacity(this.getElementCount() + indexData.length);
+    for (const { id, embedding } of indexData) {
+      let row = this.idToRow.get(id);
+      if (row === undefined) {
+        row = this.rowIds.length;
+        this.rowIds.push(id);
+        this.idToRow.set(id, row);
+      }
+      this.setRow(row, embedding);
+    }
+  }
+
+  public async delete(ids: string[]) {
+    this.deleteRows(ids);
+    this._journal.record({ op: "delete", ids });
+  }
+
+  private deleteRows(ids: string[]) {
+    for (const id of ids) {
+      const row = this.idToRow.get(id);
+      if (row === undefined) {
+        continue;
+      }
+
+      const lastRow = this.rowIds.length - 1;
+      if (row !== lastRow) {
+        const offset = lastRow * this.dimensions;
+        this.vectors.copyWithin(
+          row * this.dimensions,
+          offset,
+          offset + this.dimensions
+        );
+        this.norms[row] = this.norms[lastRow];
+        if (this.codes) {
+          this.codes.copyWithin(
+            row * this.dimensions,
+            offset,
+            offset + this.dimensions
+          );
+          this.scales[row] = this.scales[lastRow];
+        }
+        this.rowIds[row] = this.rowIds[lastRow];
+        this.idToRow.set(this.rowIds[row], row);
+      }
+      this.rowIds.pop();
+      this.idToRow.delete(id);
+    }
+  }
+
+  public stats(): IndexStats {
+    const count = this.getElementCount();
+    return {
+      backend: "flat",
+      elementCount: count,
+      // Deleted rows are replaced right away
+      deletedCount: 0,
+      currentCount: count,
+      capacity: this.norms.length,
+      fileBytes: indexFileBytes(this._files),
+    };
+  }
+
+  public async distances(
+    query: number[],
+    ids: string[]
+  ): Promise<IndexSearchResult[]> {
+    const queryVector = this.toQueryVector(query);
+    const queryNorm = norm(queryVector);
+
+    return ids
+      .filter((id) => this.idToRow.has(id))
+      .map((id) => {
+        const row = this.idToRow.get(id);
+        return {
+          id,
+          distance: this.distanceTo(row, queryVector, queryNorm),
+          embedding: this.getRow(row),
+        };
+      });
+  }
+
+  /**
+   * Exact, so `ef` has nothing to tune and is ignored.
+   */
+  public search(
+    query: number[],
+    k: number,
+    ids: string[] = [],
+    _ef?: number
+  ): Promise<IndexSearchResult[]> {
+    return timeIndexOperation(this.metrics, "flat", "search", () =>
+      this.scan(query, k, ids)
+    );
+  }
+
+  private async scan(
+    query: number[],
+    k: number,
+    ids: string[]
+  ): Promise<IndexSearchResult[]> {
+    const queryVector = this.toQueryVector(query);
+
+    k = Math.min(k, this.getElementCount());
+
+    let rows: number[] | null = null;
+    if (ids.length) {
+      rows = [...new Set(ids)]
+        .map((id) => this.idToRow.get(id))
+        .filter((row) => row !== undefined);
+      k = Math.min(k, rows.length);
+    }
+
+    const queryNorm = norm(queryVector);
+    if (this.codes && k) {
+      rows = this.shortlist(
+        rows,
+        queryVector,
+        queryNorm,
+        k * INT8_RESCORE_MULTIPLIER
+      );
+    }
+
+    const nearest = new NearestRows(k);
+    if (rows) {
+      for (const row of rows) {
+        nearest.offer(row, this.distanceTo(row, queryVector, queryNorm));
+      }
+    } else {
+      for (let row = 0; row < this.rowIds.length; row++) {
+        nearest.offer(row, this.distanceTo(row, queryVector, queryNorm));
+      }
+    }
+
+    return nearest.sorted().map(({ row, distance }) => ({
+      id: this.rowIds[row],
+      distance,
+      embedding: this.getRow(row),
+    }));
+  }
+
+  /**
+   * The `size` rows, of the given ones or else of all, closest to the query
+   * by their int8 codes, for the scan to rescore.
+   */
+  private shortlist(
+    rows: number[] | null,
+    query: Float32Array,
+    queryNorm: number,
+    size: number
+  ): number[] | null {
+    const count = rows ? rows.length : this.rowIds.length;
+    if (count <= size) {
+      return rows;
+    }
+
+    const queryCodes = new Int8Array(this.dimensions);
+    const queryScale = quantizeInt8(query, queryCodes);
+    const nearest = new NearestRows(size);
+    for (let i = 0; i < count; i++) {
+      const row = rows ? rows[i] : i;
+      nearest.offer(
+        row,
+        this.approximateDistanceTo(row, queryCodes, queryScale, queryNorm)
+      );
+    }
+    return nearest.sorted().map(({ row }) => row);
+  }
+
+  private toQueryVector(query: number[]) {
+    if (query.length !== this.dimensions) {
+      throw new InvalidArgumentError(
+        `Dimension of query ${query.length} does not match index dimension ${this.dimensions}`
+      );
+    }
+    return Float32Array.from(query);
+  }
+
+  /**
+   * Distance from a row to the query, as hnswlib would report it for the
+   * space.
+   */
+  private distanceTo(row: number, query: Float32Array, queryNorm: number) {
+    const vectors = this.vectors;
+    const offset = row * this.dimensions;
+    const dimensions = this.dimensions;
+
+    if (this.space === "l2") {
+      let sum = 0;
+      for (let i = 0; i < dimensions; i++) {
+        const diff = vectors[offset + i] - query[i];
+        sum += diff * diff;
+      }
+      return sum;
+    }
+
+    let dot = 0;
+    for (let i = 0; i < dimensions; i++) {
+      dot += vectors[offset + i] * query[i];
+    }
+    if (this.space === "ip") {
+      return 1 - dot;
+    }
+
+    const norms = this.norms[row] * queryNorm;
+    return norms ? 1 - dot / norms : 1;
+  }
+
+  /**
+   * Like distanceTo, with the dot product taken over the int8 codes of the
+   * row and the query.
+   */
+  private approximateDistanceTo(
+    row: number,
+    queryCodes: Int8Array,
+    queryScale: number,
+    queryNorm: number
+  ) {
+    const codes = this.codes;
+    const offset = row * this.dimensions;
+    const dimensions = this.dimensions;
+
+    let codeDot = 0;
+    for (let i = 0; i < dimensions; i++) {
+      codeDot += codes[offset + i] * queryCodes[i];
+    }
+    const dot = codeDot * this.scales[row] * queryScale;
+
+    if (this.space === "l2") {
+      const rowNorm = this.norms[row];
+      return rowNorm * rowNorm - 2 * dot + queryNorm * queryNorm;
+    }
+    if (this.space === "ip") {
+      return 1 - dot;
+    }
+
+    const norms = this.norms[row] * queryNorm;
+    return norms ? 1 - dot / norms : 1;
+  }
+}
+
+function norm(vector: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Keeps the k closest rows offered so far in a max-heap on distance, so each
+ * offer costs O(log k) and the scan needs no full sort.
+ */
+class NearestRows {
+  private heap: { row: number; distance: number }[] = [];
+
+  constructor(private k: number) {}
+
+  public offer(row: number, distance: number) {
+    if (this.heap.length < this.k) {
+      this.heap.push({ row, distance });
+      this.siftUp(this.heap.length - 1);
+    } else if (this.k && distance < this.heap[0].distance) {
+      this.heap[0] = { row, distance };
+      this.siftDown(0);
+    }
+  }
+
+  public sorted() {
+    return [...this.heap].sort((a, b) => a.distance - b.distance);
+  }
+
+  private siftUp(i: number) {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.heap[parent].distance >= this.heap[i].distance) {
+        return;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number) {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (
+        left < this.heap.length &&
+        this.heap[left].distance > this.heap[largest].distance
+      ) {
+        largest = left;
+      }
+      if (
+        right < this.heap.length &&
+        this.heap[right].distance > this.heap[largest].distance
+      ) {
+        largest = right;
+      }
+      if (largest === i) {
+        return;
+      }
+      this.swap(i, largest);
+      i = largest;
+    }
+  }
+
+  private swap(a: number, b: number) {
+    [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+  }
+}
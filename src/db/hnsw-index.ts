@@ -0,0 +1,511 @@
+import { existsSync, mkdirSync, readFileSync, rmSync } from "fs";
+import { HierarchicalNSW, SpaceName } from "hnswlib-node";
+import { Validators } from "../utils/validators";
+import { DbMetrics } from "../types/db-metrics";
+import { IndexConfig } from "../types/index-config";
+import { IndexMetadata, IndexSidecar } from "../types/index-metadata";
+import { IndexSnapshot } from "../types/collection-snapshot";
+import { Logger } from "../types/logger";
+import { IndexData } from "../types/index-data";
+import { IndexSearchResult } from "../types/index-search-result";
+import { IndexStats } from "../types/index-stats";
+import { VectorIndex } from "../types/vector-index";
+import { ConflictError, InvalidArgumentError } from "../utils/errors";
+import { distance } from "../utils/distance";
+import { timeIndexOperation } from "../metrics/timing";
+import {
+  commitFile,
+  indexFileBytes,
+  IndexFiles,
+  indexFiles,
+  SIDECAR_VERSION,
+  temporaryPath,
+  writeFileAtomic,
+  writeIndexFiles,
+} from "./index-files";
+import { IndexJournal } from "./index-journal";
+
+const DEFAULT_MAX_ELEMENTS_IN_INDEX = 1000;
+const DEFAULT_SIZE_OF_DYNAMIC_LIST_OF_NEAREST_NEIGHBORS = 10;
+// hnswlib's own defaults
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 200;
+const DEFAULT_RANDOM_SEED = 100;
+export const DEFAULT_SPACE: SpaceName = "cosine";
+
+/**
+ * Approximate nearest neighbour search over an hnswlib graph.
+ */
+export class HnswIndex implements VectorIndex {
+  private _index: HierarchicalNSW | null;
+  private _indexMetadata: IndexMetadata | null;
+  private _validator: Validators;
+  private _loadError: string | null;
+
+  private _files: IndexFiles;
+  private _journal: IndexJournal;
+  private idToLabel: Record<string, number>;
+  private labelToId: Record<number, string>;
+  private deletedLabels: Set<number>;
+
+  constructor(
+    private indexConfig: IndexConfig,
+    private logger: Logger,
+    private metrics?: DbMetrics
+  ) {
+    this._validator = new Validators();
+    this._validator.validateIndexConfig(indexConfig);
+
+    this._index = null;
+    this._indexMetadata = null;
+    this._loadError = null;
+    this._files = indexFiles(indexConfig);
+    this._journal = new IndexJournal(
+      this._files,
+      indexConfig,
+      () => this.save(),
+      logger
+    );
+    this.idToLabel = {};
+    this.labelToId = {};
+    this.deletedLabels = new Set();
+
+    this.load();
+  }
+
+  /**
+   * Starts an empty index in memory, which is written on the next flush.
+   */
+  private initIndex(maxElements?: number) {
+    this._index = new HierarchicalNSW(
+      this.space,
+      this.indexConfig.numberOfDimensions
+    );
+    this._index.initIndex(
+      Math.max(
+        maxElements ?? 0,
+        this.indexConfig.maxElements ?? DEFAULT_MAX_ELEMENTS_IN_INDEX
+      ),
+      this.indexConfig.M ?? DEFAULT_M,
+      this.indexConfig.efConstruction ?? DEFAULT_EF_CONSTRUCTION,
+      this.indexConfig.randomSeed ?? DEFAULT_RANDOM_SEED
+    );
+    this._index.setEf(
+      this.indexConfig.sizeOfDynamicListOfNearestNeighbors ??
+        DEFAULT_SIZE_OF_DYNAMIC_LIST_OF_NEAREST_NEIGHBORS
+    );
+
+    this._indexMetadata = {
+      space: this.space,
+      elements: 0,
+      timeCreated: +new Date(),
+    };
+    this._loadError = null;
+    this.idToLabel = {};
+    this.labelToId = {};
+    this.deletedLabels = new Set();
+  }
+
+  private save() {
+    timeIndexOperation(this.metrics, "hnsw", "save", () => this.writeFiles());
+  }
+
+  /**
+   * Writes the index and then its sidecar, each through a temporary file. A
+   * crash between the two leaves a sidecar that does not match the index,
+   * which fails to load and gets the index rebuilt. The graph is written
+   * synchronously so no search or add can change it halfway.
+   */
+  private writeFiles() {
+    if (!existsSync(this._files.folder)) {
+      mkdirSync(this._files.folder, { recursive: true });
+    }
+
+    if (!this._index) {
+      return;
+    }
+
+    this._index.writeIndexSync(temporaryPath(this._files.index));
+    commitFile(this._files.index);
+
+    const sidecar: IndexSidecar = {
+      version: SIDECAR_VERSION,
+      backend: "hnsw",
+      ...this._indexMetadata,
+      idToLabel: this.idToLabel,
+      deletedLabels: [...this.deletedLabels],
+    };
+    writeFileAtomic(this._files.sidecar, JSON.stringify(sidecar));
+
+    this.logger.debug(`Index saved to ${this._files.index}`);
+  }
+
+  public async flush() {
+    this._journal.flush();
+  }
+
+  /**
+   * Restores the index and its sidecar from disk. When either is missing or
+   * they disagree, the index is left unloaded with a `loadError` so the
+   * caller can rebuild it from the stored embeddings.
+   */
+  private load() {
+    const hasIndex = existsSync(this._files.index);
+    const hasSidecar = existsSync(this._files.sidecar);
+    if (!hasIndex && !hasSidecar) {
+      // A new index whose first changes were only logged so far
+      this.replayLog();
+      return;
+    }
+
+    try {
+      if (!hasIndex || !hasSidecar) {
+        throw new Error(
+          `Found ${hasIndex ? "an index without a sidecar" : "a sidecar without an index"}`
+        );
+      }
+
+      const sidecar: IndexSidecar = JSON.parse(
+        readFileSync(this._files.sidecar, "utf8")
+      );
+      if (sidecar.version !== SIDECAR_VERSION) {
+        throw new Error(`Unsupported sidecar version ${sidecar.version}`);
+      }
+      if ((sidecar.backend ?? "hnsw") !== "hnsw") {
+        throw new Error(`Found a ${sidecar.backend} index instead of hnsw`);
+      }
+      if (sidecar.space !== this.space) {
+        throw new Error(
+          `Sidecar space ${sidecar.space} does not match collection space ${this.space}`
+        );
+      }
+
+      const index = new HierarchicalNSW(
+        this.space,
+        this.indexConfig.numberOfDimensions
+      );
+      index.readIndexSync(this._files.index);
+
+      const liveCount = Object.keys(sidecar.idToLabel).length;
+      const indexCount =
+        index.getCurrentCount() - sidecar.deletedLabels.length;
+      if (liveCount !== indexCount) {
+        throw new Error(
+          `Sidecar maps ${liveCount} ids but the index holds ${indexCount} live points`
+        );
+      }
+
+      index.setEf(
+        this.indexConfig.sizeOfDynamicListOfNearestNeighbors ??
+          DEFAULT_SIZE_OF_DYNAMIC_LIST_OF_NEAREST_NEIGHBORS
+      );
+
+      this._index = index;
+      this._indexMetadata = {
+        space: sidecar.space,
+        elements: sidecar.elements,
+        timeCreated: sidecar.timeCreated,
+      };
+      this.idToLabel = sidecar.idToLabel;
+      this.labelToId = {};
+      for (const [id, label] of Object.entries(sidecar.idToLabel)) {
+        this.labelToId[label] = id;
+      }
+      this.deletedLabels = new Set(sidecar.deletedLabels);
+
+      this.replayLog();
+    } catch (err) {
+      this._loadError = `Unable to load index ${this.indexConfig.id}: ${
+        (err as Error).message
+      }`;
+      this.logger.warn(this._loadError);
+    }
+  }
+
+  /**
+   * Applies logged mutations the persisted index does not hold yet. Adds are
+   * applied as updates and deletes skip unknown ids, so entries the index
+   * already holds are harmless.
+   */
+  private replayLog() {
+    const entries = this._journal.entries();
+    if (entries.length) {
+      this.logger.info(
+        `Replaying ${entries.length} logged changes into index ${this.indexConfig.id}`
+      );
+    }
+    for (const entry of entries) {
+      if (entry.op === "add") {
+        this.addPoints(entry.items, true);
+      } else {
+        this.deletePoints(entry.ids);
+      }
+    }
+    this._journal.replayed(entries);
+  }
+
+  public get space(): SpaceName {
+    return this.indexConfig.space ?? DEFAULT_SPACE;
+  }
+
+  public get loadError(): string | null {
+    return this._loadError;
+  }
+
+  /**
+   * Number of live (not deleted) points in the index.
+   */
+  public getElementCount(): number {
+    return Object.keys(this.idToLabel).length;
+  }
+
+  /**
+   * Discards the current index and builds a new one from the given data,
+   * typically every embedding stored for the collection.
+   */
+  public async rebuild(indexData: IndexData[]) {
+    this.logger.info(
+      `Rebuilding index ${this.indexConfig.id} from ${indexData.length} embeddings`
+    );
+
+    this._journal.discard();
+    this.initIndex(indexData.length);
+    timeIndexOperation(this.metrics, "hnsw", "add", () =>
+      this.addPoints(indexData, false)
+    );
+    this._journal.flush(true);
+  }
+
+  public async dropIndex() {
+    this._journal.discard();
+    for (const path of [this._files.index, this._files.sidecar]) {
+      if (existsSync(path)) {
+        rmSync(path);
+      }
+    }
+
+    this._index = null;
+    this._indexMetadata = null;
+    this.idToLabel = {};
+    this.labelToId = {};
+    this.deletedLabels = new Set();
+  }
+
+  /**
+   * The persisted index and sidecar, or null when nothing has been saved.
+   */
+  public readSnapshot(): IndexSnapshot | null {
+    this._journal.flush();
+    if (!existsSync(this._files.index) || !existsSync(this._files.sidecar)) {
+      return null;
+    }
+
+    return {
+      index: readFileSync(this._files.index),
+      sidecar: JSON.parse(readFileSync(this._files.sidecar, "utf8")),
+    };
+  }
+
+  /**
+   * Replaces the persisted files with a snapshot and loads it. A snapshot
+   * that does not fit the index config leaves a `loadError`, like any other
+   * unusable saved state.
+   */
+  public restoreSnapshot(snapshot: IndexSnapshot) {
+    this._journal.discard();
+    writeIndexFiles(this._files, snapshot.index, snapshot.sidecar);
+
+    this._index = null;
+    this._indexMetadata = null;
+    this._loadError = null;
+    this.load();
+  }
+
+  public async add(indexData: IndexData[], update: boolean = false) {
+    if (!indexData.length) {
+      return;
+    }
+
+    timeIndexOperation(this.metrics, "hnsw", "add", () =>
+      this.addPoints(indexData, update)
+    );
+    this._journal.record({ op: "add", items: indexData });
+  }
+
+  private addPoints(indexData: IndexData[], update: boolean) {
+    if (!indexData.length) {
+      return;
+    }
+
+    if (!this._index) {
+      this.initIndex();
+    }
+
+    // Check the whole batch before touching the index so a bad item cannot
+    // leave it half updated
+    for (const { embedding } of indexData) {
+      if (embedding.length !== this._index.getNumDimensions()) {
+        throw new InvalidArgumentError(
+          `Dimension of data ${embedding.length} does not match index dimension ${this._index.getNumDimensions()}`
+        );
+      }
+    }
+
+    for (const { id } of indexData) {
+      if (this.idToLabel[id]) {
+        if (update) {
+          continue;
+        } else {
+          throw new ConflictError(`The id ${id} already exists in the index`);
+        }
+      } else {
+        this._indexMetadata.elements += 1;
+        const nextLabel = this._indexMetadata.elements;
+
+        this.idToLabel[id] = nextLabel;
+        this.labelToId[nextLabel] = id;
+      }
+    }
+
+    if (this._indexMetadata.elements > this._index.getMaxElements()) {
+      const newSize = Math.max(
+        Math.ceil(
+          this._indexMetadata.elements * (this.indexConfig.indexResizeFactor ?? 1)
+        ),
+        DEFAULT_MAX_ELEMENTS_IN_INDEX
+      );
+      this._index.resizeIndex(newSize);
+    }
+
+    for (const { id, embedding } of indexData) {
+      this._index.addPoint(embedding, this.idToLabel[id]);
+    }
+  }
+
+  public async delete(ids: string[]) {
+    this.deletePoints(ids);
+    this._journal.record({ op: "delete", ids });
+  }
+
+  private deletePoints(ids: string[]) {
+    for (const id of ids) {
+      const label = this.idToLabel[id];
+      if (label === undefined) {
+        continue;
+      }
+      this._index.markDelete(label);
+
+      this.deletedLabels.add(label);
+      delete this.labelToId[label];
+      delete this.idToLabel[id];
+    }
+  }
+
+  public stats(): IndexStats {
+    return {
+      backend: "hnsw",
+      elementCount: this.getElementCount(),
+      deletedCount: this.deletedLabels.size,
+      currentCount: this._index?.getCurrentCount() ?? 0,
+      capacity: this._index?.getMaxElements() ?? 0,
+      fileBytes: indexFileBytes(this._files),
+    };
+  }
+
+  /**
+   * Exact distances from the query to the given ids, skipping ids that are
+   * not in the index. Results are in the order of `ids`.
+   */
+  public async distances(
+    query: number[],
+    ids: string[]
+  ): Promise<IndexSearchResult[]> {
+    if (!this._index) {
+      return [];
+    }
+
+    return ids
+      .filter((id) => this.idToLabel[id] !== undefined)
+      .map((id) => {
+        const embedding = this._index.getPoint(this.idToLabel[id]);
+        return {
+          id,
+          distance: distance(this.space, query, embedding),
+          embedding,
+        };
+      });
+  }
+
+  public search(
+    query: number[],
+    k: number,
+    ids: string[] = [],
+    ef?: number
+  ): Promise<IndexSearchResult[]> {
+    return timeIndexOperation(this.metrics, "hnsw", "search", () =>
+      this.searchGraph(query, k, ids, ef)
+    );
+  }
+
+  private async searchGraph(
+    query: number[],
+    k: number,
+    ids: string[],
+    ef?: number
+  ): Promise<IndexSearchResult[]> {
+    const dimension = query.length;
+    const indexDimension =
+      this._index?.getNumDimensions() ?? this.indexConfig.numberOfDimensions;
+    if (dimension !== indexDimension) {
+      throw new InvalidArgumentError(
+        `Dimension of query ${dimension} does not match index dimension ${indexDimension}`
+      );
+    }
+
+    // Asking for more neighbours than there are returns all of them
+    k = Math.min(k, this.getElementCount());
+    if (!this._index || !k) {
+      return [];
+    }
+
+    // Pre-process
+    const labels = new Set<number>();
+    if (ids.length) {
+      ids.forEach((id) => {
+        labels.add(this.idToLabel[id]);
+      });
+
+      if (labels.size < k) {
+        k = labels.size;
+      }
+    }
+
+    let filterFn: (lbl: number) => boolean;
+    if (labels.size) {
+      filterFn = (lbl: number) => labels.has(lbl);
+    }
+
+    // Run query. ef is index-wide in hnswlib, but searchKnn is synchronous,
+    // so no other search can run before it is restored
+    const defaultEf = this._index.getEf();
+    if (ef !== undefined) {
+      this._index.setEf(ef);
+    }
+    let result: ReturnType<HierarchicalNSW["searchKnn"]>;
+    try {
+      result = this._index.searchKnn(query, k, filterFn);
+    } finally {
+      this._index.setEf(defaultEf);
+    }
+    const { distances, neighbors } = result;
+
+    // Post-process
+    return neighbors
+      .map((neighborLabel, index) => ({
+        id: this.labelToId[neighborLabel],
+        distance: distances[index],
+        embedding: this._index.getPoint(neighborLabel),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+}
@@ -0,0 +1,1188 @@
+import * as shortUUID from "short-uuid";
+import { Logger } from "../types/logger";
+import { Db } from "../types/db";
+import { Validators } from "../utils/validators";
+import { DEFAULT_SPACE } from "./hnsw-index";
+import { MemoryIndex } from "./memory-index";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { CollectionStats } from "../types/index-stats";
+import { DbHealth } from "../types/health";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "../types/embedding-row";
+import { EmbeddingPage } from "../types/embedding-page";
+import { EmbeddingInput } from "../types/embedding-input";
+import {
+  GetInput,
+  INCLUDE_FIELDS,
+  IncludeField,
+  QueryInput,
+  SearchQueryInput,
+} from "../types/query-input";
+import { IndexSearchResult, SearchResult } from "../types/index-search-result";
+import { compileWhereMatcher, extractMetadataValue } from "./where-filter";
+import { compileWhereDocumentMatcher } from "./where-document-filter";
+import { rankByKeywords } from "./keyword-ranking";
+import { fuseRankings } from "./rank-fusion";
+import { rerankMmr } from "./mmr";
+import { decodeMetadata, storedValues } from "./embedding-codec";
+import {
+  compareSortKeys,
+  compileOrderBy,
+  encodeCursor,
+  readCursor,
+  SortKey,
+} from "./paging";
+import { EMBEDDINGS_TABLE_NAME } from "./schema";
+import { prefixSnapshotIds } from "./collection-snapshot";
+import { EmbeddingFunctionRegistry } from "../embeddings/embedding-function-registry";
+import {
+  BatchValidationError,
+  ConflictError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../utils/errors";
+import { KeyedMutex } from "../utils/keyed-mutex";
+import {
+  BatchEmbeddingInput,
+  BatchItemError,
+} from "../types/batch-embedding-input";
+import {
+  CollectionSnapshot,
+  SnapshotRecord,
+} from "../types/collection-snapshot";
+import {
+  redactCollectionMetadata,
+  redactCollectionRow,
+} from "../embeddings/redact-embedding-function";
+
+const DEFAULT_PEEK_SIZE = 10;
+// Settings an index is built with that cannot change while it holds data
+const INDEX_SHAPE_SETTINGS = ["numberOfDimensions", "space"] as const;
+// Settings the stored embeddings are encoded with, fixed the same way
+const STORAGE_SETTINGS = ["quantization"] as const;
+// Each side of a hybrid search fetches this many candidates per result
+const HYBRID_FETCH_MULTIPLIER = 4;
+// An mmr search picks each result from this many candidates
+const MMR_FETCH_MULTIPLIER = 4;
+
+// Metadata is kept as JSON text, as SQLite keeps it, so callers never hold
+// the stored objects
+type MemoryRecord = Omit<EmbeddingRow, "metadata"> & { metadata?: string };
+
+type MemoryCollection = {
+  row: CollectionRow;
+  // Keyed by id, in insertion order like the rowids of the embeddings table
+  records: Map<string, MemoryRecord>;
+  index: MemoryIndex;
+};
+
+/**
+ * A Db that holds everything in memory and loses it when the process exits,
+ * for ephemeral collections and tests that need no filesystem. It behaves
+ * like SqliteDb down to its errors, except that every collection is searched
+ * exactly whatever its indexBackend, so there is no index to benchmark or
+ * export.
+ */
+export class InMemoryDb implements Db {
+  private _validator: Validators;
+  private _collections: Map<string, MemoryCollection>;
+  // Which collection each embedding id belongs to, ids are unique across them
+  private _collectionIdByEmbeddingId: Map<string, string>;
+  // Orders the writes to each collection, see lockCollection
+  private _writeLocks: KeyedMutex;
+
+  constructor(
+    private logger: Logger,
+    private _embeddingFunctions: EmbeddingFunctionRegistry = new EmbeddingFunctionRegistry()
+  ) {
+    this._validator = new Validators();
+    this._collections = new Map();
+    this._collectionIdByEmbeddingId = new Map();
+    this._writeLocks = new KeyedMutex();
+  }
+
+  /**
+   * There is no schema to prepare.
+   */
+  public async init(): Promise<void> {}
+
+  /**
+   * Indexes live with their collections, so they are always loaded.
+   */
+  public async loadIndexes(): Promise<void> {}
+
+  /**
+   * Runs a write to a collection once the writes queued before it finished.
+   * The collection is looked up again when its turn comes, as an earlier
+   * write may have changed or deleted it.
+   */
+  private lockCollection<T>(
+    collection: MemoryCollection,
+    run: (collection: MemoryCollection) => Promise<T>
+  ): Promise<T> {
+    return this._writeLocks.run(collection.row.id, async () => {
+      const current = this._collections.get(collection.row.id);
+      if (!current) {
+        throw new NotFoundError(
+          `Collection ${collection.row.name} was deleted before the write`
+        );
+      }
+      return run(current);
+    });
+  }
+
+  private metadataOf(collection: MemoryCollection): CollectionRowMetadata {
+    return JSON.parse(collection.row.metadata);
+  }
+
+  private createIndex(metadata: CollectionRowMetadata) {
+    return new MemoryIndex(
+      metadata.numberOfDimensions,
+      metadata.space ?? DEFAULT_SPACE
+    );
+  }
+
+  public async reindexCollection(name: string): Promise<number> {
+    const collection = this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to reindex a non-existent collection by name ${name}`
+      );
+    }
+
+    return this.lockCollection(collection, async (current) => {
+      await current.index.rebuild(
+        [...current.records.values()].map(({ id, embedding }) => ({
+          id,
+          embedding,
+        }))
+      );
+      return current.records.size;
+    });
+  }
+
+  public async benchmarkCollection(
+    name: string,
+    _options: BenchmarkOptions = {}
+  ): Promise<BenchmarkResult> {
+    if (!this.getCollectionByName(name)) {
+      throw new NotFoundError(
+        `Unable to benchmark a non-existent collection by name ${name}`
+      );
+    }
+
+    throw new InvalidArgumentError(
+      `Collection ${name} has a memory index, only hnsw indexes can be benchmarked`
+    );
+  }
+
+  public async collectionStats(): Promise<CollectionStats[]> {
+    return [...this._collections.values()].map(({ row, records, index }) => ({
+      id: row.id,
+      name: row.name,
+      embeddingCount: records.size,
+      index: index.stats(),
+    }));
+  }
+
+  public async checkHealth(): Promise<DbHealth> {
+    return {
+      ok: true,
+      latencyMs: 0,
+      collections: [...this._collections.values()].map(
+        ({ row, records, index }) => ({
+          id: row.id,
+          name: row.name,
+          loaded: true,
+          elementCount: index.getElementCount(),
+          embeddingCount: records.size,
+        })
+      ),
+    };
+  }
+
+  public async flush(): Promise<void> {}
+
+  /**
+   * Waits for the queued writes, the data stays readable afterwards.
+   */
+  public async close(): Promise<void> {
+    await Promise.all(
+      [...this._collections.keys()].map((id) =>
+        this._writeLocks.run(id, async () => undefined)
+      )
+    );
+  }
+
+  public async createCollection(
+    name: string,
+    metadata: CollectionRowMetadata,
+    getOrCreate: boolean = false
+  ): Promise<CollectionRow> {
+    const existingCollection = this.getCollectionByName(name);
+    if (existingCollection) {
+      if (getOrCreate) {
+        this.logger.info(
+          `Collection with name ${name} already exists. Returning existing collection to caller.`
+        );
+        return redactCollectionRow(existingCollection.row);
+      }
+
+      throw new ConflictError(`Collection with name ${name} already exists`);
+    }
+
+    this._validator.assertValid(
+      this._validator.validateCollectionRowMetadata(metadata)
+    );
+    if (metadata.embeddingFunction) {
+      await this._embeddingFunctions.verify(
+        metadata.embeddingFunction,
+        metadata.numberOfDimensions
+      );
+    }
+    // Another create may have taken the name while the function was verified
+    if (this.getCollectionByName(name)) {
+      return this.createCollection(name, metadata, getOrCreate);
+    }
+
+    const row: CollectionRow = {
+      id: shortUUID.generate().toString(),
+      name,
+      metadata: JSON.stringify({ space: DEFAULT_SPACE, ...metadata }),
+    };
+    this._collections.set(row.id, {
+      row,
+      records: new Map(),
+      index: this.createIndex(JSON.parse(row.metadata)),
+    });
+
+    return redactCollectionRow(row);
+  }
+
+  public async listCollections(): Promise<CollectionRow[]> {
+    return [...this._collections.values()].map(({ row }) =>
+      redactCollectionRow(row)
+    );
+  }
+
+  /**
+   * Renames a collection and/or merges new settings into its metadata. The
+   * dimensions, space and quantization cannot change once it holds
+   * embeddings.
+   */
+  public async updateCollection(
+    currentName: string,
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow> {
+    const collection = this.getCollectionByName(currentName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to update a non-existent collection by name ${currentName}`
+      );
+    }
+
+    return this.lockCollection(collection, async (current) => {
+      const name = newName || current.row.name;
+      const currentMetadata = this.metadataOf(current);
+      const metadata: CollectionRowMetadata = {
+        ...currentMetadata,
+        ...newMetadata,
+      };
+
+      this._validator.assertValid(
+        this._validator.validateCollectionRowMetadata(metadata)
+      );
+      if (
+        metadata.embeddingFunction &&
+        JSON.stringify(metadata.embeddingFunction) !==
+          JSON.stringify(currentMetadata.embeddingFunction)
+      ) {
+        await this._embeddingFunctions.verify(
+          metadata.embeddingFunction,
+          metadata.numberOfDimensions
+        );
+      }
+      if (name !== current.row.name && this.getCollectionByName(name)) {
+        throw new ConflictError(`Collection with name ${name} already exists`);
+      }
+
+      const changedIndexShape = INDEX_SHAPE_SETTINGS.filter(
+        (setting) => metadata[setting] !== currentMetadata[setting]
+      );
+      const changedFixedSettings = [
+        ...changedIndexShape,
+        ...STORAGE_SETTINGS.filter(
+          (setting) => metadata[setting] !== currentMetadata[setting]
+        ),
+      ];
+      const count = current.records.size;
+      if (changedFixedSettings.length && count) {
+        throw new InvalidArgumentError(
+          `Cannot change ${changedFixedSettings.join(" and ")} of collection ${current.row.name} while it holds ${count} embeddings`
+        );
+      }
+
+      current.row = {
+        id: current.row.id,
+        name,
+        metadata: JSON.stringify(metadata),
+      };
+      if (changedIndexShape.length) {
+        current.index = this.createIndex(metadata);
+      }
+
+      return redactCollectionRow(current.row);
+    });
+  }
+
+  public async deleteCollection(name: string): Promise<void> {
+    const collection = this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to delete a non-existent collection by name ${name}`
+      );
+    }
+
+    await this.lockCollection(collection, async (current) => {
+      for (const id of current.records.keys()) {
+        this._collectionIdByEmbeddingId.delete(id);
+      }
+      this._collections.delete(current.row.id);
+    });
+  }
+
+  /**
+   * Captures a collection's metadata and every record in insertion order.
+   * There is never an index in the snapshot, importers build their own.
+   */
+  public async exportCollection(name: string): Promise<CollectionSnapshot> {
+    const collection = this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to export a non-existent collection by name ${name}`
+      );
+    }
+
+    const records: SnapshotRecord[] = [...collection.records.values()].map(
+      ({ id, embedding, document, documentId, metadata }) => ({
+        id,
+        embedding: [...embedding],
+        document,
+        documentId,
+        metadata: decodeMetadata(metadata),
+      })
+    );
+
+    return {
+      name: collection.row.name,
+      metadata: redactCollectionMetadata(this.metadataOf(collection)),
+      records,
+    };
+  }
+
+  /**
+   * Recreates a collection from a snapshot, under `newName` when given. The
+   * records keep their ids, so they must not exist in another collection,
+   * unless `idPrefix` is given to prefix them with. The snapshot's index is
+   * not used, the records are indexed again.
+   */
+  public async importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow> {
+    const name = newName ?? snapshot.name;
+    if (idPrefix) {
+      snapshot = prefixSnapshotIds(snapshot, idPrefix);
+    }
+    const ids = snapshot.records.map(({ id }) => id);
+    this.assertImportable(name, ids);
+
+    this._validator.assertValid(
+      this._validator.validateCollectionRowMetadata(snapshot.metadata)
+    );
+    const { numberOfDimensions, quantization } = snapshot.metadata;
+
+    if (new Set(ids).size !== ids.length) {
+      throw new InvalidArgumentError("Snapshot contains duplicate record ids");
+    }
+
+    const row: CollectionRow = {
+      id: shortUUID.generate().toString(),
+      name,
+      metadata: JSON.stringify({ space: DEFAULT_SPACE, ...snapshot.metadata }),
+    };
+    const records = new Map<string, MemoryRecord>();
+    for (const record of snapshot.records) {
+      if (record.embedding.length !== numberOfDimensions) {
+        throw new InvalidArgumentError(
+          `Dimension of record ${record.id} ${record.embedding.length} does not match collection dimension ${numberOfDimensions}`
+        );
+      }
+
+      records.set(record.id, {
+        id: record.id,
+        collectionId: row.id,
+        embedding: storedValues(record.embedding, quantization),
+        document: record.document,
+        documentId: record.documentId,
+        metadata: record.metadata ? JSON.stringify(record.metadata) : undefined,
+      });
+    }
+
+    const index = this.createIndex(JSON.parse(row.metadata));
+    await index.rebuild(
+      [...records.values()].map(({ id, embedding }) => ({ id, embedding }))
+    );
+    // Another create or import may have taken the name or ids meanwhile
+    this.assertImportable(name, ids);
+    this._collections.set(row.id, { row, records, index });
+    for (const id of records.keys()) {
+      this._collectionIdByEmbeddingId.set(id, row.id);
+    }
+
+    this.logger.info(
+      `Imported collection ${name} with ${records.size} embeddings`
+    );
+    return redactCollectionRow(row);
+  }
+
+  private assertImportable(name: string, ids: string[]) {
+    if (this.getCollectionByName(name)) {
+      throw new ConflictError(`Collection with name ${name} already exists`);
+    }
+    const existing = ids.find((id) => this._collectionIdByEmbeddingId.has(id));
+    if (existing !== undefined) {
+      throw new ConflictError(
+        `The id ${existing} already exists in another collection, pass an id prefix to import next to it`
+      );
+    }
+  }
+
+  /**
+   * Returns the first `n` embeddings of a collection, in insertion order.
+   */
+  public async peek(
+    collectionName: string,
+    n: number = DEFAULT_PEEK_SIZE
+  ): Promise<EmbeddingRow[]> {
+    const collection = this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to peek into a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    return [...collection.records.values()]
+      .slice(0, n)
+      .map((record) => this.projectRecord(record) as EmbeddingRow);
+  }
+
+  public async addEmbeddingToCollection(
+    input: EmbeddingInput
+  ): Promise<string> {
+    const {
+      collectionName,
+      document,
+      documentId,
+      embedding,
+      metadata,
+    } = input;
+
+    const [id] = await this.addEmbeddings({
+      collectionName,
+      embeddings: embedding ? [embedding] : undefined,
+      documents: [document],
+      documentIds: [documentId],
+      metadatas: metadata ? [metadata] : undefined,
+    });
+
+    return id;
+  }
+
+  public async addEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.writeBatch(input, false);
+  }
+
+  /**
+   * Like addEmbeddings, but items whose id already exists in the collection
+   * replace the stored record instead of failing the batch.
+   */
+  public async upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.writeBatch(input, true);
+  }
+
+  private async writeBatch(
+    input: BatchEmbeddingInput,
+    upsert: boolean
+  ): Promise<string[]> {
+    const collection = this.getCollectionByName(input.collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to add to a non-existent collection by name ${input.collectionName}`
+      );
+    }
+
+    return this.lockCollection(collection, async (current) => {
+      const records = await this.prepareBatch(current, input, upsert);
+
+      // The index checks the batch like the records were, so it cannot fail
+      // halfway through and is updated first
+      await current.index.add(
+        records.map(({ id, embedding }) => ({ id, embedding })),
+        upsert
+      );
+      for (const record of records) {
+        current.records.set(record.id, record);
+        this._collectionIdByEmbeddingId.set(record.id, current.row.id);
+      }
+
+      return records.map(({ id }) => id);
+    });
+  }
+
+  /**
+   * Validates a whole batch before anything is written and turns it into
+   * records. Problems with individual items are collected and reported
+   * together. Missing embeddings are generated from the documents.
+   */
+  private async prepareBatch(
+    collection: MemoryCollection,
+    input: BatchEmbeddingInput,
+    upsert: boolean
+  ): Promise<MemoryRecord[]> {
+    this._validator.assertValid(
+      this._validator.validateBatchEmbeddingInput(input)
+    );
+
+    const { documents, documentIds, metadatas } = input;
+    let { embeddings } = input;
+    if (!embeddings) {
+      if (!documents || !documents.length) {
+        throw new InvalidArgumentError(
+          "Either embeddings or documents must be provided"
+        );
+      }
+      embeddings = await this.embed(collection, documents);
+    }
+
+    for (const [name, values] of Object.entries({
+      ids: input.ids,
+      documents,
+      documentIds,
+      metadatas,
+    })) {
+      if (values && values.length !== embeddings.length) {
+        throw new InvalidArgumentError(
+          `Expected ${embeddings.length} ${name} to match the embeddings, got ${values.length}`
+        );
+      }
+    }
+
+    const ids =
+      input.ids ?? embeddings.map(() => shortUUID.generate().toString());
+    const { numberOfDimensions, quantization } = this.metadataOf(collection);
+
+    const errors: BatchItemError[] = [];
+    const seen = new Set<string>();
+    ids.forEach((id, i) => {
+      if (embeddings[i].length !== numberOfDimensions) {
+        errors.push({
+          index: i,
+          id,
+          message: `Dimension of data ${embeddings[i].length} does not match collection dimension ${numberOfDimensions}`,
+        });
+      }
+      if (seen.has(id)) {
+        errors.push({ index: i, id, message: `Duplicate id ${id} in batch` });
+      } else {
+        const collectionId = this._collectionIdByEmbeddingId.get(id);
+        if (
+          collectionId !== undefined &&
+          !(upsert && collectionId === collection.row.id)
+        ) {
+          errors.push({
+            index: i,
+            id,
+            message:
+              collectionId === collection.row.id
+                ? `The id ${id} already exists in the collection`
+                : `The id ${id} belongs to another collection`,
+          });
+        }
+      }
+      seen.add(id);
+    });
+
+    if (errors.length) {
+      throw new BatchValidationError(
+        `${errors.length} of ${ids.length} items in the batch are invalid`,
+        errors
+      );
+    }
+
+    return ids.map((id, i) => ({
+      id,
+      collectionId: collection.row.id,
+      embedding: storedValues(embeddings[i], quantization),
+      document: documents?.[i],
+      documentId: documentIds?.[i],
+      metadata: metadatas?.[i] ? JSON.stringify(metadatas[i]) : undefined,
+    }));
+  }
+
+  /**
+   * Generates embeddings with the collection's embedding function.
+   */
+  private async embed(
+    collection: MemoryCollection,
+    texts: string[]
+  ): Promise<number[][]> {
+    const { embeddingFunction, numberOfDimensions } =
+      this.metadataOf(collection);
+    if (!embeddingFunction) {
+      throw new InvalidArgumentError(
+        `Collection ${collection.row.name} has no embedding function, so embeddings must be provided`
+      );
+    }
+
+    return this._embeddingFunctions
+      .create(embeddingFunction, numberOfDimensions)
+      .generate(texts);
+  }
+
+  public async updateEmbedding(
+    input: EmbeddingInput & { embeddingId: string }
+  ): Promise<void> {
+    const {
+      embeddingId,
+      collectionName,
+      document,
+      documentId,
+      metadata,
+    } = input;
+    let { embedding } = input;
+
+    const collection = this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to perform an update on a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    await this.lockCollection(collection, async (current) => {
+      const record = this.getRecord(current, embeddingId, "update");
+
+      // Re-embed a changed document when the collection embeds on the server
+      if (
+        !(embedding && embedding.length) &&
+        document !== undefined &&
+        this.metadataOf(current).embeddingFunction
+      ) {
+        [embedding] = await this.embed(current, [document]);
+      }
+
+      const { numberOfDimensions } = this.metadataOf(current);
+      if (
+        embedding &&
+        embedding.length &&
+        embedding.length !== numberOfDimensions
+      ) {
+        throw new InvalidArgumentError(
+          `Dimension of data ${embedding.length} does not match collection dimension ${numberOfDimensions}`
+        );
+      }
+
+      // Fields left out of the input keep their stored values
+      const updated: MemoryRecord = { ...record };
+      if (embedding && embedding.length) {
+        updated.embedding = storedValues(
+          embedding,
+          this.metadataOf(current).quantization
+        );
+        await current.index.add(
+          [{ id: embeddingId, embedding: updated.embedding }],
+          true
+        );
+      }
+      if (document !== undefined) {
+        updated.document = document;
+      }
+      if (documentId !== undefined) {
+        updated.documentId = documentId;
+      }
+      if (metadata) {
+        updated.metadata = JSON.stringify(metadata);
+      }
+      current.records.set(embeddingId, updated);
+    });
+  }
+
+  public async get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]> {
+    const { rows } = this.selectPage(queryInput, false);
+    return rows;
+  }
+
+  /**
+   * Like get, but also counts every matching row and returns a cursor for
+   * the next page when `limit` cut the results short.
+   */
+  public async getPage(queryInput: GetInput): Promise<EmbeddingPage> {
+    return this.selectPage(queryInput, true);
+  }
+
+  private selectPage(queryInput: GetInput, withTotal: boolean): EmbeddingPage {
+    this._validator.assertValid(this._validator.validateGetInput(queryInput));
+    const { collectionName, limit, offset, cursor, include } = queryInput;
+    if (cursor !== undefined && offset !== undefined) {
+      throw new InvalidArgumentError("Pass either a cursor or an offset");
+    }
+
+    const collection = this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to get a query from a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    // Only the ordering is used, the SQL it compiles to is not
+    const order = compileOrderBy(queryInput.orderBy, EMBEDDINGS_TABLE_NAME);
+    const records = this.filterRecords(collection, queryInput);
+    const sortKeys = new Map<MemoryRecord, SortKey>(
+      records.map((record) => [
+        record,
+        {
+          value: order.byId
+            ? record.id
+            : extractMetadataValue(
+                decodeMetadata(record.metadata),
+                order.metadataField
+              ),
+          id: record.id,
+        },
+      ])
+    );
+    let sorted = records.sort((a, b) =>
+      compareSortKeys(order, sortKeys.get(a), sortKeys.get(b))
+    );
+    if (cursor !== undefined) {
+      const after = readCursor(cursor, order);
+      sorted = sorted.filter(
+        (record) => compareSortKeys(order, sortKeys.get(record), after) > 0
+      );
+    }
+
+    const start = offset ?? 0;
+    const end = limit === undefined ? undefined : start + limit;
+    const page = sorted.slice(start, end);
+    let nextCursor: string | undefined;
+    if (end !== undefined && sorted.length > end) {
+      const { value, id } = sortKeys.get(page[page.length - 1]);
+      nextCursor = encodeCursor(order, value, id);
+    }
+
+    return {
+      rows: page.map((record) => this.projectRecord(record, include)),
+      total: withTotal ? records.length : undefined,
+      nextCursor,
+    };
+  }
+
+  /**
+   * A copy of a record with only the fields an include asks for, always with
+   * the id and collectionId.
+   */
+  private projectRecord(
+    record: MemoryRecord,
+    include?: IncludeField[]
+  ): ProjectedEmbeddingRow {
+    const row: ProjectedEmbeddingRow = {
+      id: record.id,
+      collectionId: record.collectionId,
+    };
+    if (!include || include.includes("embeddings")) {
+      row.embedding = [...record.embedding];
+    }
+    if (!include || include.includes("documents")) {
+      row.document = record.document;
+      row.documentId = record.documentId;
+    }
+    if (!include || include.includes("metadatas")) {
+      row.metadata = decodeMetadata(record.metadata);
+    }
+    return row;
+  }
+
+  /**
+   * The records of a collection matching the filters of a QueryInput, in
+   * insertion order. Filters are compiled before any record is looked at, so
+   * malformed ones throw even on an empty collection.
+   */
+  private filterRecords(
+    collection: MemoryCollection,
+    { embeddingIds, documentId, where, whereDocument }: QueryInput
+  ): MemoryRecord[] {
+    const ids = embeddingIds && embeddingIds.length && new Set(embeddingIds);
+    const matchesWhere =
+      where && Object.keys(where).length && compileWhereMatcher(where);
+    const matchesDocument =
+      whereDocument && compileWhereDocumentMatcher(whereDocument);
+
+    return [...collection.records.values()].filter(
+      (record) =>
+        (!documentId || record.documentId === documentId) &&
+        (!ids || ids.has(record.id)) &&
+        (!matchesWhere ||
+          matchesWhere(
+            decodeMetadata(record.metadata)
+          )) &&
+        (!matchesDocument || matchesDocument(record.document))
+    );
+  }
+
+  public async getNearestNeighbors(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[]> {
+    if (queryInput.searchEmbeddings || queryInput.searchTexts) {
+      throw new InvalidArgumentError(
+        "Several queries return several result lists, use getNearestNeighborsBatch"
+      );
+    }
+
+    const [results] = await this.getNearestNeighborsBatch(queryInput);
+    return results;
+  }
+
+  /**
+   * Runs every query of the input against the same filters and returns one
+   * result list per query, in order. A single searchEmbedding or searchText
+   * counts as one query.
+   */
+  public async getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]> {
+    this._validator.assertValid(
+      this._validator.validateSearchQueryInput(queryInput)
+    );
+    if (queryInput.hybrid && queryInput.mmr) {
+      throw new InvalidArgumentError("A search cannot be both hybrid and mmr");
+    }
+
+    const collection = this.getCollectionByName(queryInput.collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Invalid collection name specified: ${queryInput.collectionName}`
+      );
+    }
+
+    const queries = await this.resolveSearchQueries(collection, queryInput);
+
+    // Filter the records first, then restrict the index search to the matches
+    let embeddingIds: string[] = [];
+    if (this.hasFilter(queryInput)) {
+      embeddingIds = this.filterRecords(collection, queryInput).map(
+        ({ id }) => id
+      );
+      if (!embeddingIds.length) {
+        return queries.map(() => []);
+      }
+    }
+
+    const results: SearchResult[][] = [];
+    for (const { searchEmbedding, searchText } of queries) {
+      if (queryInput.hybrid) {
+        results.push(
+          await this.hybridSearch(
+            collection,
+            queryInput,
+            searchEmbedding,
+            searchText,
+            embeddingIds
+          )
+        );
+        continue;
+      }
+
+      const indexSearchResults: IndexSearchResult[] = queryInput.mmr
+        ? await this.mmrSearch(
+            collection.index,
+            queryInput,
+            searchEmbedding,
+            embeddingIds
+          )
+        : await collection.index.search(
+            searchEmbedding,
+            queryInput.nearestNeighbors,
+            embeddingIds
+          );
+      results.push(
+        this.hydrateSearchResults(
+          collection,
+          indexSearchResults,
+          queryInput.include
+        )
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Pairs up each query's embedding with its text, embedding the texts of
+   * queries given as text only in one call.
+   */
+  private async resolveSearchQueries(
+    collection: MemoryCollection,
+    queryInput: SearchQueryInput
+  ): Promise<{ searchEmbedding: number[]; searchText?: string }[]> {
+    const { searchEmbedding, searchText, searchEmbeddings, searchTexts } =
+      queryInput;
+    const batch = Boolean(searchEmbeddings || searchTexts);
+    if (batch && (searchEmbedding || searchText !== undefined)) {
+      throw new InvalidArgumentError(
+        "Pass either searchEmbedding/searchText or searchEmbeddings/searchTexts"
+      );
+    }
+
+    const texts = batch
+      ? searchTexts
+      : searchText !== undefined
+      ? [searchText]
+      : undefined;
+    let embeddings = batch
+      ? searchEmbeddings
+      : searchEmbedding && [searchEmbedding];
+    if (embeddings && texts && embeddings.length !== texts.length) {
+      throw new InvalidArgumentError(
+        `Got ${embeddings.length} searchEmbeddings but ${texts.length} searchTexts`
+      );
+    }
+    if (!embeddings) {
+      if (!texts) {
+        throw new InvalidArgumentError(
+          "Either searchEmbedding or searchText must be provided"
+        );
+      }
+      embeddings = await this.embed(collection, texts);
+    }
+    if (queryInput.hybrid && !texts) {
+      throw new InvalidArgumentError("A hybrid search needs a searchText");
+    }
+
+    return embeddings.map((embedding, i) => ({
+      searchEmbedding: embedding,
+      searchText: texts?.[i],
+    }));
+  }
+
+  /**
+   * Picks the results by maximal marginal relevance among the nearest
+   * candidates.
+   */
+  private async mmrSearch(
+    index: MemoryIndex,
+    queryInput: SearchQueryInput,
+    searchEmbedding: number[],
+    embeddingIds: string[]
+  ): Promise<IndexSearchResult[]> {
+    const { nearestNeighbors, mmr } = queryInput;
+
+    const fetchK = Math.min(
+      Math.max(
+        mmr.fetchK ?? nearestNeighbors * MMR_FETCH_MULTIPLIER,
+        nearestNeighbors
+      ),
+      embeddingIds.length || index.getElementCount()
+    );
+    if (!fetchK) {
+      return [];
+    }
+
+    const candidates = await index.search(
+      searchEmbedding,
+      fetchK,
+      embeddingIds
+    );
+    return rerankMmr(candidates, nearestNeighbors, index.space, mmr.lambda);
+  }
+
+  /**
+   * Runs the vector search and a BM25 keyword search over the documents side
+   * by side, then fuses both candidate lists into one ranking.
+   */
+  private async hybridSearch(
+    collection: MemoryCollection,
+    queryInput: SearchQueryInput,
+    searchEmbedding: number[],
+    searchText: string,
+    embeddingIds: string[]
+  ): Promise<SearchResult[]> {
+    const { nearestNeighbors, hybrid } = queryInput;
+    const { index } = collection;
+
+    const fetchK = Math.min(
+      hybrid.fetchK ?? nearestNeighbors * HYBRID_FETCH_MULTIPLIER,
+      embeddingIds.length || index.getElementCount()
+    );
+    if (!fetchK) {
+      return [];
+    }
+
+    const vectorResults = await index.search(
+      searchEmbedding,
+      fetchK,
+      embeddingIds
+    );
+    const keywordResults = rankByKeywords(
+      this.filterRecords(collection, queryInput)
+        .filter(({ document }) => document !== undefined)
+        .map(({ id, document }) => ({ id, document })),
+      searchText,
+      fetchK
+    );
+
+    const fused = fuseRankings(vectorResults, keywordResults, hybrid).slice(
+      0,
+      nearestNeighbors
+    );
+
+    // Keyword-only matches still report their exact vector distance
+    const vectorById = new Map(vectorResults.map((r) => [r.id, r]));
+    const keywordOnlyIds = fused
+      .map(({ id }) => id)
+      .filter((id) => !vectorById.has(id));
+    for (const result of await index.distances(
+      searchEmbedding,
+      keywordOnlyIds
+    )) {
+      vectorById.set(result.id, result);
+    }
+    const keywordById = new Map(
+      keywordResults.map(({ id, keywordScore }) => [id, keywordScore])
+    );
+    const scoreById = new Map(fused.map(({ id, score }) => [id, score]));
+
+    // A keyword match the index does not hold has no distance to report
+    return this.hydrateSearchResults(
+      collection,
+      fused
+        .map(({ id }) => vectorById.get(id))
+        .filter((result) => result !== undefined),
+      queryInput.include
+    ).map((result) => ({
+      ...result,
+      keywordScore: keywordById.get(result.id),
+      score: scoreById.get(result.id),
+    }));
+  }
+
+  /**
+   * Adds the stored embedding, document, documentId and metadata to index
+   * results, keeping their order, and leaves out what `include` does not ask
+   * for.
+   */
+  private hydrateSearchResults(
+    collection: MemoryCollection,
+    indexSearchResults: IndexSearchResult[],
+    include: IncludeField[] = INCLUDE_FIELDS
+  ): SearchResult[] {
+    return indexSearchResults.map(({ id, distance }) => {
+      const result: SearchResult = { id };
+      if (include.includes("distances")) {
+        result.distance = distance;
+      }
+      const record = collection.records.get(id);
+      if (include.includes("embeddings")) {
+        result.embedding = [...record.embedding];
+      }
+      if (include.includes("documents")) {
+        result.documentId = record.documentId;
+        result.document = record.document;
+      }
+      if (include.includes("metadatas")) {
+        result.metadata = decodeMetadata(record.metadata);
+      }
+      return result;
+    });
+  }
+
+  public async countEmbeddingsByCollectionName(
+    collectionName: string
+  ): Promise<number> {
+    const collection = this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to get a count for a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    return collection.records.size;
+  }
+
+  public async deleteEmbedding(
+    collectionName: string,
+    embeddingId: string
+  ): Promise<void> {
+    const collection = this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to perform a delete on a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    await this.lockCollection(collection, async (current) => {
+      this.getRecord(current, embeddingId, "delete");
+
+      await current.index.delete([embeddingId]);
+      current.records.delete(embeddingId);
+      this._collectionIdByEmbeddingId.delete(embeddingId);
+    });
+  }
+
+  private hasFilter({
+    embeddingIds,
+    documentId,
+    where,
+    whereDocument,
+  }: QueryInput) {
+    return Boolean(
+      (embeddingIds && embeddingIds.length) ||
+        documentId ||
+        (where && Object.keys(where).length) ||
+        whereDocument
+    );
+  }
+
+  /**
+   * A stored record of the collection, for an update or delete of it.
+   */
+  private getRecord(
+    collection: MemoryCollection,
+    embeddingId: string,
+    operation: "update" | "delete"
+  ): MemoryRecord {
+    const collectionId = this._collectionIdByEmbeddingId.get(embeddingId);
+    if (collectionId === undefined) {
+      throw new NotFoundError(
+        `Cannot ${operation} an unknown embedding: ${embeddingId}`
+      );
+    }
+    if (collectionId !== collection.row.id) {
+      throw new NotFoundError(
+        `Embedding with id ${embeddingId} does not belong to collection ${collection.row.name}`
+      );
+    }
+    return collection.records.get(embeddingId);
+  }
+
+  private getCollectionByName(
+    collectionName: string
+  ): MemoryCollection | undefined {
+    for (const collection of this._collections.values()) {
+      if (collection.row.name === collectionName) {
+        return collection;
+      }
+    }
+    return undefined;
+  }
+}
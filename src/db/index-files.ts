@@ -0,0 +1,117 @@
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname } from "path";
+import { IndexConfig } from "../types/index-config";
+import { IndexSidecar } from "../types/index-metadata";
+
+export const SIDECAR_VERSION = 1;
+
+export type IndexFiles = {
+  folder: string;
+  index: string;
+  sidecar: string;
+  // Mutations made since the index and sidecar were last written
+  log: string;
+};
+
+/**
+ * Where a collection's index is persisted. Every backend writes the same
+ * files, so the sidecar tells which one wrote them.
+ */
+export function indexFiles(indexConfig: IndexConfig): IndexFiles {
+  const folder = `${indexConfig.persistDirectory}/index`;
+  return {
+    folder,
+    index: `${folder}/index_${indexConfig.id}.bin`,
+    sidecar: `${folder}/index_${indexConfig.id}.json`,
+    log: `${folder}/index_${indexConfig.id}.log`,
+  };
+}
+
+/**
+ * The path a file is written to before it replaces `path`.
+ */
+export function temporaryPath(path: string) {
+  return `${path}.tmp`;
+}
+
+/**
+ * Syncs a file written to its temporary path and renames it over `path`,
+ * so a crash leaves either the old file or the new one, never a torn one.
+ */
+export function commitFile(path: string) {
+  const tmp = temporaryPath(path);
+  fsync(tmp, "r+");
+  renameSync(tmp, path);
+  try {
+    // Makes the rename itself durable, not every platform can sync folders
+    fsync(dirname(path), "r");
+  } catch {
+    // The rename still happened
+  }
+}
+
+export function writeFileAtomic(path: string, data: Buffer | string) {
+  writeFileSync(temporaryPath(path), data);
+  commitFile(path);
+}
+
+export function fsync(path: string, flags: string) {
+  const fd = openSync(path, flags);
+  try {
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * The backend of the persisted index, or null when there is none or its
+ * sidecar cannot be read.
+ */
+export function persistedBackend(
+  indexConfig: IndexConfig
+): IndexSidecar["backend"] | null {
+  const { sidecar } = indexFiles(indexConfig);
+  if (!existsSync(sidecar)) {
+    return null;
+  }
+
+  try {
+    const parsed: IndexSidecar = JSON.parse(readFileSync(sidecar, "utf8"));
+    return parsed.backend ?? "hnsw";
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bytes taken up on disk by an index and its sidecar.
+ */
+export function indexFileBytes(files: IndexFiles): number {
+  return [files.index, files.sidecar, files.log]
+    .filter((path) => existsSync(path))
+    .reduce((total, path) => total + statSync(path).size, 0);
+}
+
+export function writeIndexFiles(
+  files: IndexFiles,
+  index: Buffer,
+  sidecar: IndexSidecar
+) {
+  if (!existsSync(files.folder)) {
+    mkdirSync(files.folder, { recursive: true });
+  }
+
+  writeFileAtomic(files.index, index);
+  writeFileAtomic(files.sidecar, JSON.stringify(sidecar));
+}
@@ -0,0 +1,174 @@
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  truncateSync,
+  writeSync,
+} from "fs";
+import { IndexConfig } from "../types/index-config";
+import { IndexData } from "../types/index-data";
+import { Logger } from "../types/logger";
+import { IndexFiles } from "./index-files";
+
+export const DEFAULT_FLUSH_EVERY_MUTATIONS = 1000;
+export const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+export type JournalEntry =
+  | { op: "add"; items: IndexData[] }
+  | { op: "delete"; ids: string[] };
+
+/**
+ * Batches the writes of an index. Each mutation is appended to a log and
+ * synced to disk before the caller gets to acknowledge it, while the index
+ * itself is only written once `flushEveryMutations` embeddings changed,
+ * `flushIntervalMs` after the first unwritten change, or when flushed
+ * explicitly. Writing the index clears the log, and a log left behind by a
+ * crash is replayed when the index is loaded again.
+ */
+export class IndexJournal {
+  private _pending: number;
+  private _timer: NodeJS.Timeout | null;
+
+  constructor(
+    private files: IndexFiles,
+    private indexConfig: IndexConfig,
+    private save: () => void,
+    private logger: Logger
+  ) {
+    this._pending = 0;
+    this._timer = null;
+  }
+
+  /**
+   * Number of changed embeddings the persisted index does not hold yet.
+   */
+  public get pending() {
+    return this._pending;
+  }
+
+  /**
+   * The logged mutations in order. A last line cut short by a crash was
+   * never synced, so it was not acknowledged either and is cut off the log
+   * before anything is appended after it.
+   */
+  public entries(): JournalEntry[] {
+    if (!existsSync(this.files.log)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    let validBytes = 0;
+    for (const line of readFileSync(this.files.log, "utf8").split("\n")) {
+      if (!line) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+        validBytes += Buffer.byteLength(line) + 1;
+      } catch {
+        this.logger.warn(`Dropping a torn entry at the end of ${this.files.log}`);
+        truncateSync(this.files.log, validBytes);
+        break;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Counts mutations replayed from the log as pending, so the next flush
+   * writes them into the index.
+   */
+  public replayed(entries: JournalEntry[]) {
+    this.addPending(entries.reduce((total, entry) => total + size(entry), 0));
+  }
+
+  public record(entry: JournalEntry) {
+    if (!existsSync(this.files.folder)) {
+      mkdirSync(this.files.folder, { recursive: true });
+    }
+
+    const fd = openSync(this.files.log, "a");
+    try {
+      writeSync(fd, JSON.stringify(entry) + "\n");
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+
+    this.addPending(size(entry));
+  }
+
+  /**
+   * Writes the index when it has unwritten changes, or always with `force`,
+   * and clears the log.
+   */
+  public flush(force: boolean = false) {
+    this.cancelTimer();
+    if (!force && !this._pending) {
+      return;
+    }
+
+    this.save();
+    this._pending = 0;
+    if (existsSync(this.files.log)) {
+      rmSync(this.files.log);
+    }
+  }
+
+  /**
+   * Forgets the log and anything pending, e.g. when the index is dropped or
+   * replaced.
+   */
+  public discard() {
+    this.cancelTimer();
+    this._pending = 0;
+    if (existsSync(this.files.log)) {
+      rmSync(this.files.log);
+    }
+  }
+
+  private addPending(mutations: number) {
+    this._pending += mutations;
+
+    const everyMutations =
+      this.indexConfig.flushEveryMutations ?? DEFAULT_FLUSH_EVERY_MUTATIONS;
+    if (this._pending >= everyMutations) {
+      this.flush();
+      return;
+    }
+
+    const intervalMs =
+      this.indexConfig.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    if (this._pending && intervalMs && !this._timer) {
+      this._timer = setTimeout(() => {
+        this._timer = null;
+        try {
+          this.flush();
+        } catch (err) {
+          this.logger.error(
+            `Unable to flush index to ${this.files.index}: ${
+              (err as Error).message
+            }`
+          );
+        }
+      }, intervalMs);
+      // A pending flush alone should not keep the process running
+      this._timer.unref();
+    }
+  }
+
+  private cancelTimer() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+}
+
+function size(entry: JournalEntry) {
+  return entry.op === "add" ? entry.items.length : entry.ids.length;
+}
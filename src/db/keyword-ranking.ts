@@ -0,0 +1,64 @@
+import { countPhrase, tokenize, toPhrases } from "./where-document-filter";
+
+// FTS5's bm25() defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// FTS5 floors the IDF of terms found in most documents instead of letting
+// them count against a match
+const MIN_IDF = 1e-6;
+
+/**
+ * Scores documents against the words of `text` with BM25 the way FTS5's
+ * bm25() does for a query joining the words with OR, for searches that do
+ * not go through SQLite. Returns the documents matching any word, best
+ * first, with scores larger for better matches.
+ */
+export function rankByKeywords(
+  documents: { id: string; document: string }[],
+  text: string,
+  limit: number
+): { id: string; keywordScore: number }[] {
+  const phrases = toPhrases(text);
+  const tokenized = documents.map(({ id, document }) => ({
+    id,
+    tokens: tokenize(document),
+  }));
+  if (!tokenized.length) {
+    return [];
+  }
+
+  const averageLength =
+    tokenized.reduce((sum, { tokens }) => sum + tokens.length, 0) /
+    tokenized.length;
+  const frequencies = tokenized.map(({ tokens }) =>
+    phrases.map((phrase) => countPhrase(tokens, phrase))
+  );
+  const idfs = phrases.map((_, p) => {
+    const matching = frequencies.filter((counts) => counts[p] > 0).length;
+    const idf = Math.log(
+      (tokenized.length - matching + 0.5) / (matching + 0.5)
+    );
+    return idf > 0 ? idf : MIN_IDF;
+  });
+
+  const results: { id: string; keywordScore: number }[] = [];
+  tokenized.forEach(({ id, tokens }, i) => {
+    if (!frequencies[i].some((count) => count > 0)) {
+      return;
+    }
+
+    const lengthNorm =
+      1 - BM25_B + (BM25_B * tokens.length) / (averageLength || 1);
+    const keywordScore = frequencies[i].reduce(
+      (score, count, p) =>
+        score +
+        (idfs[p] * count * (BM25_K1 + 1)) / (count + BM25_K1 * lengthNorm),
+      0
+    );
+    results.push({ id, keywordScore });
+  });
+
+  return results
+    .sort((a, b) => b.keywordScore - a.keywordScore)
+    .slice(0, limit);
+}
@@ -0,0 +1,143 @@
+import { SpaceName } from "hnswlib-node";
+import { IndexSnapshot } from "../types/collection-snapshot";
+import { IndexData } from "../types/index-data";
+import { IndexSearchResult } from "../types/index-search-result";
+import { IndexStats } from "../types/index-stats";
+import { VectorIndex } from "../types/vector-index";
+import { ConflictError, InvalidArgumentError } from "../utils/errors";
+import { distance } from "../utils/distance";
+
+/**
+ * Exact search over embeddings kept in a Map and never written anywhere, for
+ * the collections of an InMemoryDb. Embeddings are held as float32 like the
+ * persisted backends hold them, so searches return the same values.
+ */
+export class MemoryIndex implements VectorIndex {
+  private vectors: Map<string, Float32Array>;
+
+  constructor(
+    private numberOfDimensions: number,
+    public readonly space: SpaceName
+  ) {
+    this.vectors = new Map();
+  }
+
+  public get loadError(): string | null {
+    return null;
+  }
+
+  public getElementCount(): number {
+    return this.vectors.size;
+  }
+
+  public async rebuild(indexData: IndexData[]) {
+    this.vectors.clear();
+    this.setVectors(indexData, false);
+  }
+
+  public async dropIndex() {
+    this.vectors.clear();
+  }
+
+  public async add(indexData: IndexData[], update: boolean = false) {
+    this.setVectors(indexData, update);
+  }
+
+  private setVectors(indexData: IndexData[], update: boolean) {
+    // Check the whole batch first so a bad item cannot leave it half added
+    for (const { id, embedding } of indexData) {
+      if (embedding.length !== this.numberOfDimensions) {
+        throw new InvalidArgumentError(
+          `Dimension of data ${embedding.length} does not match index dimension ${this.numberOfDimensions}`
+        );
+      }
+      if (!update && this.vectors.has(id)) {
+        throw new ConflictError(`The id ${id} already exists in the index`);
+      }
+    }
+
+    for (const { id, embedding } of indexData) {
+      this.vectors.set(id, Float32Array.from(embedding));
+    }
+  }
+
+  public async delete(ids: string[]) {
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+  }
+
+  /**
+   * Nothing is persisted, so there is nothing to write.
+   */
+  public async flush() {}
+
+  /**
+   * Exact, so `ef` has nothing to tune and is ignored.
+   */
+  public async search(
+    query: number[],
+    k: number,
+    ids: string[] = [],
+    _ef?: number
+  ): Promise<IndexSearchResult[]> {
+    this.assertQueryDimensions(query);
+    k = Math.min(k, this.getElementCount());
+
+    const candidates = ids.length
+      ? [...new Set(ids)]
+      : [...this.vectors.keys()];
+    return (await this.distances(query, candidates))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+  }
+
+  public async distances(
+    query: number[],
+    ids: string[]
+  ): Promise<IndexSearchResult[]> {
+    this.assertQueryDimensions(query);
+    const queryVector = Float32Array.from(query);
+
+    return ids
+      .filter((id) => this.vectors.has(id))
+      .map((id) => {
+        const vector = this.vectors.get(id);
+        return {
+          id,
+          distance: distance(this.space, vector, queryVector),
+          embedding: Array.from(vector),
+        };
+      });
+  }
+
+  private assertQueryDimensions(query: number[]) {
+    if (query.length !== this.numberOfDimensions) {
+      throw new InvalidArgumentError(
+        `Dimension of query ${query.length} does not match index dimension ${this.numberOfDimensions}`
+      );
+    }
+  }
+
+  public readSnapshot(): IndexSnapshot | null {
+    return null;
+  }
+
+  public restoreSnapshot(_snapshot: IndexSnapshot): void {
+    throw new InvalidArgumentError(
+      "A memory index has no persisted state to restore"
+    );
+  }
+
+  public stats(): IndexStats {
+    const count = this.getElementCount();
+    return {
+      backend: "flat",
+      elementCount: count,
+      deletedCount: 0,
+      currentCount: count,
+      capacity: count,
+      fileBytes: 0,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { Knex } from "knex";
+import { SchemaMigration } from "../../types/schema-migration";
+import { COLLECTIONS_TABLE_NAME, EMBEDDINGS_TABLE_NAME } from "../schema";
+
+/**
+ * The tables as they were created before migrations existed, which is why
+ * databases that already have them are left alone.
+ */
+export const createTables: SchemaMigration = {
+  name: "0001_create_tables",
+  async up(knex: Knex) {
+    await knex.raw(`
+      CREATE TABLE IF NOT EXISTS ${COLLECTIONS_TABLE_NAME} (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        metadata TEXT
+      )`);
+    await knex.raw(`
+      CREATE TABLE IF NOT EXISTS ${EMBEDDINGS_TABLE_NAME} (
+        id TEXT PRIMARY KEY,
+        collectionId TEXT,
+        embedding BLOB NOT NULL,
+        document TEXT,
+        documentId TEXT,
+        metadata TEXT
+      )`);
+  },
+};
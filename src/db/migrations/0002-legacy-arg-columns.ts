@@ -0,0 +1,49 @@
+import { Knex } from "knex";
+import { Logger } from "../../types/logger";
+import { SchemaMigration } from "../../types/schema-migration";
+import { EMBEDDINGS_TABLE_NAME } from "../schema";
+
+/**
+ * Embeddings used to carry three untyped string slots, arg1 to arg3. Move any
+ * of them still present into the JSON metadata column, keeping their names
+ * as keys, and drop the old columns.
+ */
+export const migrateLegacyArgColumns: SchemaMigration = {
+  name: "0002_legacy_arg_columns",
+  async up(knex: Knex, logger: Logger) {
+    const columns: { name: string }[] = await knex.raw(
+      `PRAGMA table_info(${EMBEDDINGS_TABLE_NAME})`
+    );
+    const columnNames = columns.map(({ name }) => name);
+    const legacyColumns = ["arg1", "arg2", "arg3"].filter((name) =>
+      columnNames.includes(name)
+    );
+    if (!legacyColumns.length) {
+      return;
+    }
+
+    logger.info(
+      `Migrating ${legacyColumns.join(", ")} on ${EMBEDDINGS_TABLE_NAME} into metadata`
+    );
+
+    if (!columnNames.includes("metadata")) {
+      await knex.raw(
+        `ALTER TABLE ${EMBEDDINGS_TABLE_NAME} ADD COLUMN metadata TEXT`
+      );
+    }
+
+    // json_patch drops keys whose value is null, so empty slots are skipped
+    const pairs = legacyColumns.map((name) => `'${name}', ${name}`);
+    await knex.raw(`
+      UPDATE ${EMBEDDINGS_TABLE_NAME}
+      SET metadata = json_patch(
+        COALESCE(metadata, '{}'),
+        json_object(${pairs.join(", ")})
+      )
+      WHERE ${legacyColumns.map((name) => `${name} IS NOT NULL`).join(" OR ")}`);
+
+    for (const name of legacyColumns) {
+      await knex.raw(`ALTER TABLE ${EMBEDDINGS_TABLE_NAME} DROP COLUMN ${name}`);
+    }
+  },
+};
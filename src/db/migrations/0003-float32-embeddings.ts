@@ -0,0 +1,46 @@
+import { Knex } from "knex";
+import { StoredEmbeddingRow } from "../../types/embedding-row";
+import { Logger } from "../../types/logger";
+import { SchemaMigration } from "../../types/schema-migration";
+import { decodeEmbedding, encodeEmbedding } from "../embedding-codec";
+import { EMBEDDINGS_TABLE_NAME } from "../schema";
+
+const MIGRATION_CHUNK_SIZE = 500;
+
+/**
+ * Embeddings used to be stored as TEXT, some as `1,2,3` and some as a JSON
+ * array. Re-encode any such rows as float32 BLOBs, which no collection
+ * could have been quantized before.
+ */
+export const migrateTextEmbeddings: SchemaMigration = {
+  name: "0003_float32_embeddings",
+  async up(knex: Knex, logger: Logger) {
+    const { count } = await knex(EMBEDDINGS_TABLE_NAME)
+      .whereRaw("typeof(embedding) = 'text'")
+      .count({ count: "*" })
+      .first();
+    if (!Number(count)) {
+      return;
+    }
+
+    logger.info(
+      `Migrating ${count} embeddings on ${EMBEDDINGS_TABLE_NAME} to float32 BLOBs`
+    );
+
+    for (;;) {
+      const rows: StoredEmbeddingRow[] = await knex(EMBEDDINGS_TABLE_NAME)
+        .select("id", "embedding")
+        .whereRaw("typeof(embedding) = 'text'")
+        .limit(MIGRATION_CHUNK_SIZE);
+      if (!rows.length) {
+        return;
+      }
+
+      for (const { id, embedding } of rows) {
+        await knex(EMBEDDINGS_TABLE_NAME)
+          .where("id", id)
+          .update({ embedding: encodeEmbedding(decodeEmbedding(embedding)) });
+      }
+    }
+  },
+};
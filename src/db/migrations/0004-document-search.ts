@@ -0,0 +1,62 @@
+import { Knex } from "knex";
+import { SchemaMigration } from "../../types/schema-migration";
+import { DOCUMENTS_FTS_TABLE_NAME, EMBEDDINGS_TABLE_NAME } from "../schema";
+
+export const DOCUMENT_SEARCH_TRIGGERS = ["insert", "delete", "update"].map(
+  (event) => `${DOCUMENTS_FTS_TABLE_NAME}_${event}`
+);
+
+/**
+ * Keeps the FTS5 table in sync with the embeddings table, so every write
+ * path updates it.
+ */
+export async function createDocumentSearchTriggers(knex: Knex) {
+  const [onInsert, onDelete, onUpdate] = DOCUMENT_SEARCH_TRIGGERS;
+  await knex.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${onInsert}
+    AFTER INSERT ON ${EMBEDDINGS_TABLE_NAME} WHEN new.document IS NOT NULL
+    BEGIN
+      INSERT INTO ${DOCUMENTS_FTS_TABLE_NAME}(rowid, id, document)
+      VALUES (new.rowid, new.id, new.document);
+    END`);
+  await knex.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${onDelete}
+    AFTER DELETE ON ${EMBEDDINGS_TABLE_NAME}
+    BEGIN
+      DELETE FROM ${DOCUMENTS_FTS_TABLE_NAME} WHERE rowid = old.rowid;
+    END`);
+  await knex.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${onUpdate}
+    AFTER UPDATE OF document ON ${EMBEDDINGS_TABLE_NAME}
+    BEGIN
+      DELETE FROM ${DOCUMENTS_FTS_TABLE_NAME} WHERE rowid = old.rowid;
+      INSERT INTO ${DOCUMENTS_FTS_TABLE_NAME}(rowid, id, document)
+      SELECT new.rowid, new.id, new.document WHERE new.document IS NOT NULL;
+    END`);
+}
+
+/**
+ * Maintains an FTS5 table over documents, backfilled from existing rows when
+ * first created. Databases from before migrations may already have it.
+ */
+export const createDocumentSearch: SchemaMigration = {
+  name: "0004_document_search",
+  async up(knex: Knex) {
+    const existing = await knex.raw(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      [DOCUMENTS_FTS_TABLE_NAME]
+    );
+
+    await knex.raw(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${DOCUMENTS_FTS_TABLE_NAME}
+      USING fts5(id UNINDEXED, document)`);
+    await createDocumentSearchTriggers(knex);
+
+    if (!existing.length) {
+      await knex.raw(`
+        INSERT INTO ${DOCUMENTS_FTS_TABLE_NAME}(rowid, id, document)
+        SELECT rowid, id, document FROM ${EMBEDDINGS_TABLE_NAME}
+        WHERE document IS NOT NULL`);
+    }
+  },
+};
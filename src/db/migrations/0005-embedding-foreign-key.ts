@@ -0,0 +1,61 @@
+import { Knex } from "knex";
+import { Logger } from "../../types/logger";
+import { SchemaMigration } from "../../types/schema-migration";
+import { COLLECTIONS_TABLE_NAME, EMBEDDINGS_TABLE_NAME } from "../schema";
+import {
+  createDocumentSearchTriggers,
+  DOCUMENT_SEARCH_TRIGGERS,
+} from "./0004-document-search";
+
+const COLUMNS = "id, collectionId, embedding, document, documentId, metadata";
+
+/**
+ * Ties embeddings to their collection with a foreign key that deletes them
+ * along with it, and indexes the columns embeddings are looked up by. SQLite
+ * cannot add a foreign key to an existing table, so the table is copied into
+ * a new one. Rows keep their rowid, which the FTS table is keyed by, and rows
+ * of collections that no longer exist are dropped.
+ */
+export const addEmbeddingForeignKey: SchemaMigration = {
+  name: "0005_embedding_foreign_key",
+  async up(knex: Knex, logger: Logger) {
+    const orphans = await knex(EMBEDDINGS_TABLE_NAME)
+      .whereNotIn("collectionId", knex(COLLECTIONS_TABLE_NAME).select("id"))
+      .orWhereNull("collectionId")
+      .delete();
+    if (orphans) {
+      logger.warn(
+        `Deleted ${orphans} embeddings whose collection no longer exists`
+      );
+    }
+
+    const newTable = `${EMBEDDINGS_TABLE_NAME}_new`;
+    await knex.raw(`
+      CREATE TABLE ${newTable} (
+        id TEXT PRIMARY KEY,
+        collectionId TEXT NOT NULL
+          REFERENCES ${COLLECTIONS_TABLE_NAME}(id) ON DELETE CASCADE,
+        embedding BLOB NOT NULL,
+        document TEXT,
+        documentId TEXT,
+        metadata TEXT
+      )`);
+    await knex.raw(`
+      INSERT INTO ${newTable}(rowid, ${COLUMNS})
+      SELECT rowid, ${COLUMNS} FROM ${EMBEDDINGS_TABLE_NAME}`);
+
+    for (const trigger of DOCUMENT_SEARCH_TRIGGERS) {
+      await knex.raw(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+    await knex.raw(`DROP TABLE ${EMBEDDINGS_TABLE_NAME}`);
+    await knex.raw(`ALTER TABLE ${newTable} RENAME TO ${EMBEDDINGS_TABLE_NAME}`);
+    await createDocumentSearchTriggers(knex);
+
+    await knex.raw(`
+      CREATE INDEX ${EMBEDDINGS_TABLE_NAME}_collectionId
+      ON ${EMBEDDINGS_TABLE_NAME}(collectionId)`);
+    await knex.raw(`
+      CREATE INDEX ${EMBEDDINGS_TABLE_NAME}_documentId
+      ON ${EMBEDDINGS_TABLE_NAME}(documentId)`);
+  },
+};
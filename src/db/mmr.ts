@@ -0,0 +1,56 @@
+import { SpaceName } from "hnswlib-node";
+import { IndexSearchResult } from "../types/index-search-result";
+import { distance } from "../utils/distance";
+
+const DEFAULT_LAMBDA = 0.5;
+
+/**
+ * Reranks candidates, ordered by ascending distance to the query, by maximal
+ * marginal relevance and returns the first k. Relevance and redundancy are
+ * both similarities derived from distances in the collection's space, so
+ * they share a scale.
+ */
+export function rerankMmr(
+  candidates: IndexSearchResult[],
+  k: number,
+  space: SpaceName,
+  lambda: number = DEFAULT_LAMBDA
+): IndexSearchResult[] {
+  const remaining = [...candidates];
+  // Similarity of each remaining candidate to its closest picked result
+  const redundancy = remaining.map(() => -Infinity);
+  const picked: IndexSearchResult[] = [];
+
+  while (picked.length < k && remaining.length) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const relevance = similarity(space, candidate.distance);
+      const score = picked.length
+        ? lambda * relevance - (1 - lambda) * redundancy[i]
+        : relevance;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    const [next] = remaining.splice(best, 1);
+    redundancy.splice(best, 1);
+    picked.push(next);
+    remaining.forEach((candidate, i) => {
+      const d = distance(space, candidate.embedding, next.embedding);
+      redundancy[i] = Math.max(redundancy[i], similarity(space, d));
+    });
+  }
+
+  return picked;
+}
+
+/**
+ * `ip` and `cosine` distances are 1 minus a similarity already, squared
+ * `l2` distances are unbounded and mapped into (0, 1].
+ */
+function similarity(space: SpaceName, d: number) {
+  return space === "l2" ? 1 / (1 + d) : 1 - d;
+}
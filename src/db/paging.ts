@@ -0,0 +1,176 @@
+import { OrderBy } from "../types/query-input";
+import { InvalidArgumentError } from "../utils/errors";
+import { CompiledFilter, toJsonPath } from "./where-filter";
+
+export type SortValue = string | number | null;
+
+/**
+ * A row's place in an order: its sort value, then its id.
+ */
+export type SortKey = {
+  value: SortValue;
+  id: string;
+};
+
+/**
+ * Where the previous page ended. The order is kept so a cursor cannot be
+ * replayed against a different ordering.
+ */
+type PageCursor = SortKey & {
+  order: string;
+};
+
+export type CompiledOrder = {
+  // Identifies the ordering inside cursors
+  key: string;
+  // SQL expression rows are sorted by before their id
+  sql: string;
+  bindings: string[];
+  direction: "asc" | "desc";
+  byId: boolean;
+  // Metadata field rows are sorted by, unless they are sorted by id
+  metadataField?: string;
+};
+
+const METADATA_FIELD_PREFIX = "metadata.";
+
+/**
+ * Compiles an OrderBy into a sort expression over the given table's columns.
+ * Results are ordered by id when no order is given.
+ */
+export function compileOrderBy(
+  orderBy: OrderBy | undefined,
+  table: string
+): CompiledOrder {
+  const field = orderBy?.field ?? "id";
+  const direction = orderBy?.direction ?? "asc";
+
+  if (field === "id") {
+    return {
+      key: `id:${direction}`,
+      sql: `${table}.id`,
+      bindings: [],
+      direction,
+      byId: true,
+    };
+  }
+  if (!field.startsWith(METADATA_FIELD_PREFIX)) {
+    throw new InvalidArgumentError(
+      `Cannot order by ${field}, use id or metadata.<field>`
+    );
+  }
+
+  return {
+    key: `${field}:${direction}`,
+    sql: `json_extract(${table}.metadata, ?)`,
+    bindings: [toJsonPath(field.slice(METADATA_FIELD_PREFIX.length))],
+    direction,
+    byId: false,
+    metadataField: field.slice(METADATA_FIELD_PREFIX.length),
+  };
+}
+
+export function encodeCursor(
+  order: CompiledOrder,
+  value: SortValue,
+  id: string
+): string {
+  const cursor: PageCursor = { order: order.key, value, id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Compiles a cursor into a filter matching the rows after it in the given
+ * order. SQLite sorts NULL first, so nulls open an ascending order and close
+ * a descending one.
+ */
+export function compileCursor(
+  cursor: string,
+  order: CompiledOrder,
+  idColumn: string
+): CompiledFilter {
+  const { value, id } = readCursor(cursor, order);
+  const after = order.direction === "asc" ? ">" : "<";
+  if (order.byId) {
+    return { sql: `${idColumn} ${after} ?`, bindings: [id] };
+  }
+
+  const { sql: expr, bindings: path } = order;
+  if (value === null) {
+    return order.direction === "asc"
+      ? {
+          sql: `(${expr} IS NULL AND ${idColumn} > ?) OR ${expr} IS NOT NULL`,
+          bindings: [...path, id, ...path],
+        }
+      : {
+          sql: `${expr} IS NULL AND ${idColumn} < ?`,
+          bindings: [...path, id],
+        };
+  }
+
+  const parts = [
+    `${expr} ${after} ?`,
+    `(${expr} = ? AND ${idColumn} ${after} ?)`,
+  ];
+  const bindings = [...path, value, ...path, value, id];
+  if (order.direction === "desc") {
+    parts.push(`${expr} IS NULL`);
+    bindings.push(...path);
+  }
+  return { sql: parts.join(" OR "), bindings };
+}
+
+/**
+ * Where a cursor says the previous page ended, for rows paged outside SQL.
+ */
+export function readCursor(cursor: string, order: CompiledOrder): SortKey {
+  const { order: key, value, id } = decodeCursor(cursor);
+  if (key !== order.key) {
+    throw new InvalidArgumentError(
+      "The cursor was created for a different orderBy"
+    );
+  }
+  return { value, id };
+}
+
+/**
+ * Compares two rows the way SQLite sorts them in the given order: NULL
+ * before numbers before text, then by id.
+ */
+export function compareSortKeys(
+  order: CompiledOrder,
+  a: SortKey,
+  b: SortKey
+): number {
+  const byValue = compareSortValues(a.value, b.value);
+  const result = byValue || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return order.direction === "asc" ? result : -result;
+}
+
+function compareSortValues(a: SortValue, b: SortValue): number {
+  const rank = (value: SortValue) =>
+    value === null ? 0 : typeof value === "number" ? 1 : 2;
+  if (rank(a) !== rank(b)) {
+    return rank(a) - rank(b);
+  }
+  return a === b || a === null ? 0 : a < b ? -1 : 1;
+}
+
+function decodeCursor(cursor: string): PageCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidArgumentError("Malformed cursor");
+  }
+
+  const { order, value, id } = (decoded ?? {}) as Partial<PageCursor>;
+  if (
+    typeof order !== "string" ||
+    typeof id !== "string" ||
+    (value !== null && !["string", "number"].includes(typeof value))
+  ) {
+    throw new InvalidArgumentError("Malformed cursor");
+  }
+  return { order, value, id };
+}
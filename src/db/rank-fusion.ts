@@ -0,0 +1,53 @@
+import { HybridSearchOptions } from "../types/hybrid-search";
+
+const DEFAULT_RRF_K = 60;
+const DEFAULT_ALPHA = 0.5;
+
+export type FusedResult = {
+  id: string;
+  score: number;
+};
+
+/**
+ * Fuses a vector result list, ordered by ascending distance, with a keyword
+ * result list, ordered by descending BM25 score. Ids may appear in either or
+ * both lists. Returns every id ordered by descending fused score.
+ */
+export function fuseRankings(
+  vectorResults: { id: string; distance: number }[],
+  keywordResults: { id: string; keywordScore: number }[],
+  options: HybridSearchOptions
+): FusedResult[] {
+  const scores = new Map<string, number>();
+  const add = (id: string, score: number) =>
+    scores.set(id, (scores.get(id) ?? 0) + score);
+
+  if ((options.mode ?? "rrf") === "rrf") {
+    const k = options.rrfK ?? DEFAULT_RRF_K;
+    vectorResults.forEach(({ id }, rank) => add(id, 1 / (k + rank + 1)));
+    keywordResults.forEach(({ id }, rank) => add(id, 1 / (k + rank + 1)));
+  } else {
+    const alpha = options.alpha ?? DEFAULT_ALPHA;
+    // Smaller distances are better, so they are flipped after normalising
+    const vectorScores = normalize(vectorResults.map((r) => -r.distance));
+    const keywordScores = normalize(keywordResults.map((r) => r.keywordScore));
+    vectorResults.forEach(({ id }, i) => add(id, alpha * vectorScores[i]));
+    keywordResults.forEach(({ id }, i) =>
+      add(id, (1 - alpha) * keywordScores[i])
+    );
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Min-max normalises values into [0, 1]. A list of equal values maps to 1.
+ */
+function normalize(values: number[]): number[] {
+  // Reduced rather than spread, a long list would overflow the call stack
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  return values.map((value) => (max === min ? 1 : (value - min) / (max - min)));
+}
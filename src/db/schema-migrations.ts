@@ -0,0 +1,84 @@
+import { Knex } from "knex";
+import { Logger } from "../types/logger";
+import { MigrationStatus, SchemaMigration } from "../types/schema-migration";
+import { createTables } from "./migrations/0001-create-tables";
+import { migrateLegacyArgColumns } from "./migrations/0002-legacy-arg-columns";
+import { migrateTextEmbeddings } from "./migrations/0003-float32-embeddings";
+import { createDocumentSearch } from "./migrations/0004-document-search";
+import { addEmbeddingForeignKey } from "./migrations/0005-embedding-foreign-key";
+import { MIGRATIONS_TABLE_NAME } from "./schema";
+
+/**
+ * Every migration in the order it runs. New ones are appended, released ones
+ * are never changed or reordered.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  createTables,
+  migrateLegacyArgColumns,
+  migrateTextEmbeddings,
+  createDocumentSearch,
+  addEmbeddingForeignKey,
+];
+
+/**
+ * Hands the migrations to knex's migrator, which records the applied ones in
+ * `schema_migrations` and holds a lock while it runs the pending ones.
+ */
+class SchemaMigrationSource implements Knex.MigrationSource<SchemaMigration> {
+  constructor(private logger: Logger) {}
+
+  public async getMigrations() {
+    return SCHEMA_MIGRATIONS;
+  }
+
+  public getMigrationName(migration: SchemaMigration) {
+    return migration.name;
+  }
+
+  /**
+   * Migrations only go up, knex's migrator insists on a way down anyway.
+   */
+  public async getMigration(migration: SchemaMigration) {
+    return {
+      up: (knex: Knex) => migration.up(knex, this.logger),
+      down: async () => {
+        throw new Error(`Schema migration ${migration.name} cannot be undone`);
+      },
+    };
+  }
+}
+
+function migratorConfig(logger: Logger): Knex.MigratorConfig {
+  return {
+    migrationSource: new SchemaMigrationSource(logger),
+    tableName: MIGRATIONS_TABLE_NAME,
+  };
+}
+
+/**
+ * Runs the pending migrations and returns their names.
+ */
+export async function migrateToLatest(
+  knex: Knex,
+  logger: Logger
+): Promise<string[]> {
+  const [, applied]: [number, string[]] = await knex.migrate.latest(
+    migratorConfig(logger)
+  );
+  for (const name of applied) {
+    logger.info(`Applied schema migration ${name}`);
+  }
+  return applied;
+}
+
+export async function migrationStatus(
+  knex: Knex,
+  logger: Logger
+): Promise<MigrationStatus> {
+  const [applied, pending]: [{ name: string }[], SchemaMigration[]] =
+    await knex.migrate.list(migratorConfig(logger));
+  return {
+    applied: applied.map(({ name }) => name),
+    pending: pending.map(({ name }) => name),
+  };
+}
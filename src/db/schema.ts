@@ -0,0 +1,5 @@
+export const COLLECTIONS_TABLE_NAME = "collections";
+export const EMBEDDINGS_TABLE_NAME = "embeddings";
+export const DOCUMENTS_FTS_TABLE_NAME = "embeddings_fts";
+// Records which schema migrations have run
+export const MIGRATIONS_TABLE_NAME = "schema_migrations";
@@ -2,26 +2,120 @@ import { resolve } from "path";
 import { DbConfig } from "../types/db-config";
 import { Logger } from "../types/logger";
 import { Validators } from "../utils/validators";
-import { DbIndex } from "./db-index";
+import { DEFAULT_SPACE } from "./hnsw-index";
+import { createVectorIndex } from "./create-vector-index";
+import { persistedBackend } from "./index-files";
+import { CollectionBenchmark } from "../benchmark/collection-benchmark";
+import { BenchmarkOptions, BenchmarkResult } from "../types/benchmark";
+import { VectorIndex } from "../types/vector-index";
 import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+import { EmbeddingQuantization } from "../types/embedding-quantization";
+import { CollectionStats } from "../types/index-stats";
+import { CollectionHealth, DbHealth } from "../types/health";
+import { DbMetrics } from "../types/db-metrics";
+import { elapsedSeconds } from "../metrics/timing";
 import knex from "knex";
 import { Knex } from "knex";
 import * as shortUUID from "short-uuid";
-import { EmbeddingRow } from "../types/embedding-row";
+import {
+  EmbeddingRow,
+  ProjectedEmbeddingRow,
+  StoredEmbeddingRow,
+} from "../types/embedding-row";
+import { EmbeddingPage } from "../types/embedding-page";
+import { IndexConfig } from "../types/index-config";
 import { EmbeddingInput } from "../types/embedding-input";
-import { QueryInput, SearchQueryInput } from "../types/query-input";
+import {
+  GetInput,
+  INCLUDE_FIELDS,
+  IncludeField,
+  QueryInput,
+  SearchQueryInput,
+} from "../types/query-input";
 import { IndexSearchResult, SearchResult } from "../types/index-search-result";
 import { Db } from "../types/db";
+import { compileWhereFilter } from "./where-filter";
+import {
+  compileWhereDocumentFilter,
+  toFtsQuery,
+} from "./where-document-filter";
+import { fuseRankings } from "./rank-fusion";
+import { rerankMmr } from "./mmr";
+import {
+  decodeEmbedding,
+  decodeMetadata,
+  encodeEmbedding,
+  storedValues,
+} from "./embedding-codec";
+import { compileCursor, compileOrderBy, encodeCursor } from "./paging";
+import { prefixSnapshotIds } from "./collection-snapshot";
+import { EmbeddingFunctionRegistry } from "../embeddings/embedding-function-registry";
+import {
+  BatchValidationError,
+  ConflictError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../utils/errors";
+import { chunk } from "../utils/chunk";
+import {
+  COLLECTIONS_TABLE_NAME,
+  DOCUMENTS_FTS_TABLE_NAME,
+  EMBEDDINGS_TABLE_NAME,
+} from "./schema";
+import { migrateToLatest, migrationStatus } from "./schema-migrations";
+import { MigrationStatus } from "../types/schema-migration";
+import { KeyedMutex } from "../utils/keyed-mutex";
+import {
+  BatchEmbeddingInput,
+  BatchItemError,
+} from "../types/batch-embedding-input";
+import {
+  CollectionSnapshot,
+  SnapshotRecord,
+} from "../types/collection-snapshot";
+import {
+  redactCollectionMetadata,
+  redactCollectionRow,
+} from "../embeddings/redact-embedding-function";
 
-const COLLECTIONS_TABLE_NAME = "collections";
-const EMBEDDINGS_TABLE_NAME = "embeddings";
+const DEFAULT_PEEK_SIZE = 10;
+// Settings an index is built with that cannot change while it holds data
+const INDEX_SHAPE_SETTINGS = ["numberOfDimensions", "space"] as const;
+// Settings the stored embeddings are encoded with, fixed the same way
+const STORAGE_SETTINGS = ["quantization"] as const;
+// Settings an hnsw graph is built with, changing them rebuilds the index
+const HNSW_BUILD_SETTINGS = ["M", "efConstruction", "randomSeed"] as const;
+// Each side of a hybrid search fetches this many candidates per result
+const HYBRID_FETCH_MULTIPLIER = 4;
+// An mmr search picks each result from this many candidates
+const MMR_FETCH_MULTIPLIER = 4;
+// Keeps each statement well under SQLite's limit on bound variables
+const BATCH_WRITE_CHUNK_SIZE = 500;
+// Carries a row's metadata sort value out of a paged get for its cursor
+const SORT_VALUE_COLUMN = "_sortValue";
+// A health check reports SQLite as down when it takes longer to answer
+const HEALTH_PROBE_TIMEOUT_MS = 2000;
 
 export class SqliteDb implements Db {
   private _validator: Validators;
   private _knex: Knex<unknown, unknown>;
-  private _indexCache: { [collectionId: string]: DbIndex };
+  private _indexCache: { [collectionId: string]: VectorIndex };
+  // Loads in flight, shared by concurrent callers
+  private _indexLoads: { [collectionId: string]: Promise<VectorIndex> };
+  // Orders the writes to each collection, see lockCollection
+  private _writeLocks: KeyedMutex;
+  // Why an index last failed to load or rebuild, until it succeeds
+  private _indexErrors: { [collectionId: string]: string };
+  // The schema migration run started by init
+  private _init: Promise<void> | null;
+  private _initialized: boolean;
 
-  constructor(private dbConfig: DbConfig, private logger: Logger) {
+  constructor(
+    private dbConfig: DbConfig,
+    private logger: Logger,
+    private _embeddingFunctions: EmbeddingFunctionRegistry = new EmbeddingFunctionRegistry(),
+    private _metrics?: DbMetrics
+  ) {
     this._validator = new Validators();
     this._validator.validateDbConfig(dbConfig);
 
@@ -34,60 +128,393 @@ export class SqliteDb implements Db {
       connection: {
         filename: dbPath,
       },
+      useNullAsDefault: true,
+      log: {
+        warn: (message: string) => logger.warn(message),
+        error: (message: string) => logger.error(message),
+        deprecate: (message: string) => logger.warn(message),
+        debug: (message: string) => logger.debug(message),
+      },
+      pool: {
+        // SQLite only enforces foreign keys on connections that ask for it
+        afterCreate: (
+          connection: { run: (sql: string, done: unknown) => void },
+          done: unknown
+        ) => connection.run("PRAGMA foreign_keys = ON", done),
+      },
     });
+    this._indexCache = {};
+    this._indexLoads = {};
+    this._writeLocks = new KeyedMutex();
+    this._indexErrors = {};
+    this._init = null;
+    this._initialized = false;
+    if (_metrics) {
+      this.observeQueries(_metrics);
+    }
+  }
+
+  /**
+   * Brings the schema up to date with the pending migrations. Nothing else
+   * may be called before it finished, calling it again waits for the same
+   * run.
+   */
+  public async init(): Promise<void> {
+    this._init ??= migrateToLatest(this._knex, this.logger).then(
+      () => {
+        this._initialized = true;
+      },
+      (err) => {
+        // Lets a later call try again
+        this._init = null;
+        throw err;
+      }
+    );
+    await this._init;
+  }
 
-    this.setupCollectionsTable();
-    this.setupEmbeddingsTable();
-  }
-
-  private async setupCollectionsTable() {
-    await this._knex.raw(`
-      CREATE TABLE IF NOT EXISTS ${COLLECTIONS_TABLE_NAME}(
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE,
-        metadata TEXT,
-      )`);
-  }
-
-  private async setupEmbeddingsTable() {
-    await this._knex.raw(`
-      CREATE TABLE IF NOT EXISTS ${EMBEDDINGS_TABLE_NAME} (
-        id TEXT PRIMARY KEY,
-        collectionId TEXT,
-        embedding TEXT NOT NULL,
-        document TEXT,
-        documentId TEXT,
-        arg1 TEXT,
-        arg2 TEXT,
-        arg3 TEXT
-      )`);
-  }
-
-  private async createIndexForCollection(collectionId: string) {
-    if (!this._indexCache[collectionId]) {
-      const collectionRow = await this.getCollectionById(collectionId);
-      if (!collectionRow) {
-        throw new Error(
-          "cannot create an index for a collection which does not exist."
+  public async migrationStatus(): Promise<MigrationStatus> {
+    return migrationStatus(this._knex, this.logger);
+  }
+
+  private assertInitialized() {
+    if (!this._initialized) {
+      throw new Error("The database is not initialized, await init() first");
+    }
+  }
+
+  /**
+   * Times every SQL query knex runs, from sending it until its response or
+   * error.
+   */
+  private observeQueries(metrics: DbMetrics) {
+    const started = new Map<string, bigint>();
+    const observe = (query: { __knexQueryUid: string }) => {
+      const start = started.get(query.__knexQueryUid);
+      if (start !== undefined) {
+        started.delete(query.__knexQueryUid);
+        metrics.observeSqlQuery(elapsedSeconds(start));
+      }
+    };
+
+    this._knex
+      .on("query", (query) =>
+        started.set(query.__knexQueryUid, process.hrtime.bigint())
+      )
+      .on("query-response", (_response, query) => observe(query))
+      .on("query-error", (_error, query) => observe(query));
+  }
+
+  /**
+   * The collection's index, loaded on first use. Concurrent callers share
+   * one load, so a collection never has two indexes writing its files.
+   */
+  private async createIndexForCollection(
+    collectionId: string
+  ): Promise<VectorIndex> {
+    if (this._indexCache[collectionId]) {
+      return this._indexCache[collectionId];
+    }
+
+    this._indexLoads[collectionId] ??= this.loadIndex(collectionId).finally(
+      () => delete this._indexLoads[collectionId]
+    );
+    return this._indexLoads[collectionId];
+  }
+
+  private async loadIndex(collectionId: string) {
+    const collectionRow = await this.getCollectionById(collectionId);
+    if (!collectionRow) {
+      throw new NotFoundError(
+        "cannot create an index for a collection which does not exist."
+      );
+    }
+
+    const index = createVectorIndex(
+      this.indexConfigFor(collectionRow),
+      this.logger,
+      this._metrics
+    );
+
+    await this.trackIndexErrors(collectionId, () =>
+      this.reconcileIndex(collectionId, index)
+    );
+    this._indexCache[collectionId] = index;
+    return index;
+  }
+
+  /**
+   * Runs a write to a collection once the writes queued before it finished,
+   * so each one sees the table and the index in step. The collection is read
+   * again when its turn comes, as an earlier write may have changed or
+   * deleted it.
+   */
+  private lockCollection<T>(
+    collection: CollectionRow,
+    run: (collection: CollectionRow) => Promise<T>
+  ): Promise<T> {
+    return this._writeLocks.run(collection.id, async () => {
+      const current = await this.getCollectionById(collection.id);
+      if (!current) {
+        throw new NotFoundError(
+          `Collection ${collection.name} was deleted before the write`
         );
       }
+      return run(current);
+    });
+  }
+
+  /**
+   * Runs a write whose name or ids were checked to be free beforehand. A
+   * concurrent write may take them in between, which SQLite reports as a
+   * unique constraint violation on `table.column`, thrown as the
+   * ConflictError with the given message instead.
+   */
+  private async conflictOnDuplicate<T>(
+    write: () => Promise<T>,
+    message: (column: string) => string
+  ): Promise<T> {
+    try {
+      return await write();
+    } catch (err) {
+      const violation = /UNIQUE constraint failed: (\S+)/.exec(
+        (err as Error).message
+      );
+      if (!violation) {
+        throw err;
+      }
+      throw new ConflictError(message(violation[1]));
+    }
+  }
 
-      const decodedMetadata: CollectionRowMetadata = JSON.parse(
-        collectionRow.metadata
+  /**
+   * Applies a committed write to the collection's index. The rows are stored
+   * by then, so an index that fails to follow is rebuilt from them instead of
+   * failing the write.
+   */
+  private async applyToIndex(
+    collectionId: string,
+    index: VectorIndex,
+    run: () => Promise<void>
+  ) {
+    try {
+      await run();
+    } catch (err) {
+      this.logger.error(
+        `Unable to apply a write to the index of collection ${collectionId}, rebuilding it: ${
+          (err as Error).message
+        }`
       );
-      const index = new DbIndex(
-        {
-          id: collectionId,
-          persistDirectory: this.dbConfig.persistDirectory,
-          ...decodedMetadata,
-        },
-        this.logger
+      await this.trackIndexErrors(collectionId, () =>
+        this.rebuildIndex(collectionId, index)
       );
+    }
+  }
+
+  private async trackIndexErrors<T>(
+    collectionId: string,
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const result = await run();
+      delete this._indexErrors[collectionId];
+      return result;
+    } catch (err) {
+      this._indexErrors[collectionId] = (err as Error).message;
+      throw err;
+    }
+  }
+
+  private quantizationOf(collection: CollectionRow): EmbeddingQuantization {
+    const { quantization }: CollectionRowMetadata = JSON.parse(
+      collection.metadata
+    );
+    return quantization ?? "none";
+  }
+
+  /**
+   * Turns the stored embeddings and metadata of rows read from a collection
+   * back into numbers and objects, for the rows that selected them.
+   */
+  private decodeRows(
+    collection: CollectionRow,
+    rows: Partial<StoredEmbeddingRow>[]
+  ): ProjectedEmbeddingRow[] {
+    const quantization = this.quantizationOf(collection);
+    return rows.map(({ embedding, metadata, ...row }) => ({
+      ...(row as ProjectedEmbeddingRow),
+      ...(embedding !== undefined && {
+        embedding: decodeEmbedding(embedding, quantization),
+      }),
+      ...(metadata !== undefined && { metadata: decodeMetadata(metadata) }),
+    }));
+  }
+
+  private indexConfigFor(collection: CollectionRow): IndexConfig {
+    const decodedMetadata: CollectionRowMetadata = JSON.parse(
+      collection.metadata
+    );
+    return {
+      id: collection.id,
+      persistDirectory: this.dbConfig.persistDirectory,
+      flushEveryMutations: this.dbConfig.indexFlushEveryMutations,
+      flushIntervalMs: this.dbConfig.indexFlushIntervalMs,
+      ...decodedMetadata,
+    };
+  }
+
+  /**
+   * Loads every collection's index up front so the first request against a
+   * collection does not pay for it, and so stale indexes are rebuilt early.
+   * A collection whose index fails is logged and left for checkHealth to
+   * report, so it does not keep the others from loading.
+   */
+  public async loadIndexes() {
+    const collections = await this.listCollections();
+    for (const { id, name } of collections) {
+      try {
+        await this.createIndexForCollection(id);
+      } catch (err) {
+        this.logger.error(
+          `Unable to load the index of collection ${name}: ${
+            (err as Error).message
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Rebuilds an index from the embeddings table when its persisted state could
+   * not be loaded or does not hold the same number of embeddings as the table.
+   */
+  private async reconcileIndex(collectionId: string, index: VectorIndex) {
+    const { count } = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+      .where("collectionId", collectionId)
+      .count({ count: "*" })
+      .first();
+    const rowCount = Number(count);
+
+    if (!index.loadError && index.getElementCount() === rowCount) {
+      return;
+    }
+    if (!index.loadError) {
+      this.logger.warn(
+        `Index for collection ${collectionId} holds ${index.getElementCount()} embeddings but the table holds ${rowCount}`
+      );
+    }
+
+    await this.rebuildIndex(collectionId, index);
+  }
+
+  private async rebuildIndex(collectionId: string, index: VectorIndex) {
+    const collection = await this.getCollectionById(collectionId);
+    const quantization = this.quantizationOf(collection);
+    const rows = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+      .select("id", "embedding")
+      .where("collectionId", collectionId);
+    await index.rebuild(
+      rows.map(({ id, embedding }) => ({
+        id,
+        embedding: decodeEmbedding(embedding, quantization),
+      }))
+    );
+
+    return rows.length;
+  }
+
+  /**
+   * Rebuilds a collection's index from the embeddings table, whatever state
+   * it is in, and returns the number of embeddings indexed.
+   */
+  public async reindexCollection(name: string): Promise<number> {
+    const collection = await this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to reindex a non-existent collection by name ${name}`
+      );
+    }
+
+    return this.lockCollection(collection, (current) => this.reindex(current));
+  }
+
+  private async reindex(collection: CollectionRow) {
+    const index =
+      this._indexCache[collection.id] ??
+      createVectorIndex(
+        this.indexConfigFor(collection),
+        this.logger,
+        this._metrics
+      );
+    const count = await this.trackIndexErrors(collection.id, () =>
+      this.rebuildIndex(collection.id, index)
+    );
+    this._indexCache[collection.id] = index;
+
+    return count;
+  }
+
+  /**
+   * Scores a collection's hnsw index against exact search over its stored
+   * embeddings, see CollectionBenchmark.
+   */
+  public async benchmarkCollection(
+    name: string,
+    options: BenchmarkOptions = {}
+  ): Promise<BenchmarkResult> {
+    const collection = await this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to benchmark a non-existent collection by name ${name}`
+      );
+    }
+
+    // Brings the persisted index up to date with the table first, and writes
+    // it so the benchmark loads the same state from disk
+    const index = await this.createIndexForCollection(collection.id);
+    await index.flush();
+    const indexConfig = this.indexConfigFor(collection);
+    const backend = persistedBackend(indexConfig);
+    if (backend !== "hnsw") {
+      throw new InvalidArgumentError(
+        `Collection ${name} has ${backend ? `a ${backend}` : "no"} index, only hnsw indexes can be benchmarked`
+      );
+    }
+
+    const quantization = this.quantizationOf(collection);
+    const rows = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+      .select("id", "embedding")
+      .where("collectionId", collection.id);
+    const embeddings = rows.map(({ id, embedding }) => ({
+      id,
+      embedding: decodeEmbedding(embedding, quantization),
+    }));
+
+    return new CollectionBenchmark(indexConfig, this.logger).run(
+      name,
+      embeddings,
+      options
+    );
+  }
 
-      this._indexCache[collectionId] = index;
+  /**
+   * Writes every loaded index's pending mutations to its files.
+   */
+  public async flush(): Promise<void> {
+    for (const index of Object.values(this._indexCache)) {
+      await index.flush();
     }
+  }
 
-    return this._indexCache[collectionId];
+  /**
+   * Waits for a running init to settle and flushes the indexes before
+   * releasing the connection, so a short-lived process does not cut its
+   * queries off.
+   */
+  public async close(): Promise<void> {
+    await this._init?.catch(() => undefined);
+    await this.flush();
+    await this._knex.destroy();
   }
 
   public async createCollection(
@@ -101,104 +528,615 @@ export class SqliteDb implements Db {
         this.logger.info(
           `Collection with name ${name} already exists. Returning existing collection to caller.`
         );
-        return existingCollection;
+        return redactCollectionRow(this.withResolvedSpace(existingCollection));
       }
 
-      throw new Error(`Collection with name ${name} already exists`);
+      throw new ConflictError(`Collection with name ${name} already exists`);
+    }
+
+    this._validator.assertValid(this._validator.validateCollectionRowMetadata(metadata));
+    if (metadata.embeddingFunction) {
+      await this._embeddingFunctions.verify(
+        metadata.embeddingFunction,
+        metadata.numberOfDimensions
+      );
     }
 
     const id = shortUUID.generate().toString();
     const dataToInsert: CollectionRow = {
       id,
       name,
-      metadata: JSON.stringify(metadata),
+      metadata: JSON.stringify({ space: DEFAULT_SPACE, ...metadata }),
     };
-    await knex<CollectionRow>(COLLECTIONS_TABLE_NAME).insert(dataToInsert);
+    try {
+      await this.conflictOnDuplicate(
+        () =>
+          this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME).insert(dataToInsert),
+        () => `Collection with name ${name} already exists`
+      );
+    } catch (err) {
+      // Another create took the name while the function was verified
+      if (getOrCreate && err instanceof ConflictError) {
+        return this.createCollection(name, metadata, getOrCreate);
+      }
+      throw err;
+    }
 
     // Create corresponding index
     await this.createIndexForCollection(id);
 
-    return dataToInsert;
+    return redactCollectionRow(dataToInsert);
+  }
+
+  /**
+   * Each collection's stored embedding count next to the state of its index,
+   * loading indexes that are not loaded yet.
+   */
+  public async collectionStats(): Promise<CollectionStats[]> {
+    const countById = await this.countEmbeddingsByCollection();
+    const stats: CollectionStats[] = [];
+    for (const { id, name } of await this.listCollections()) {
+      const index = await this.createIndexForCollection(id);
+      stats.push({
+        id,
+        name,
+        embeddingCount: countById.get(id) ?? 0,
+        index: index.stats(),
+      });
+    }
+    return stats;
+  }
+
+  /**
+   * Probes SQLite and reports each collection's index without loading it,
+   * along with any error from its last load or rebuild.
+   */
+  public async checkHealth(): Promise<DbHealth> {
+    const start = process.hrtime.bigint();
+    try {
+      this.assertInitialized();
+      await this._knex.raw("SELECT 1").timeout(HEALTH_PROBE_TIMEOUT_MS);
+    } catch (err) {
+      return {
+        ok: false,
+        latencyMs: elapsedSeconds(start) * 1000,
+        error: (err as Error).message,
+        collections: [],
+      };
+    }
+    const latencyMs = elapsedSeconds(start) * 1000;
+
+    const countById = await this.countEmbeddingsByCollection();
+    const collections = (await this.listCollections()).map(({ id, name }) => {
+      const index = this._indexCache[id];
+      const health: CollectionHealth = {
+        id,
+        name,
+        loaded: Boolean(index),
+        elementCount: index?.getElementCount(),
+        embeddingCount: countById.get(id) ?? 0,
+      };
+      const error = this._indexErrors[id] ?? index?.loadError;
+      if (error) {
+        health.error = error;
+      }
+      return health;
+    });
+
+    return { ok: true, latencyMs, collections };
+  }
+
+  private async countEmbeddingsByCollection(): Promise<Map<string, number>> {
+    const counts: { collectionId: string; count: number }[] = await this._knex(
+      EMBEDDINGS_TABLE_NAME
+    )
+      .select("collectionId")
+      .count({ count: "*" })
+      .groupBy("collectionId");
+    return new Map(
+      counts.map(({ collectionId, count }) => [collectionId, Number(count)])
+    );
   }
 
   public async listCollections(): Promise<CollectionRow[]> {
+    this.assertInitialized();
     const results = await this._knex<CollectionRow>(
       COLLECTIONS_TABLE_NAME
     ).select();
 
-    return results;
+    return results.map((row) =>
+      redactCollectionRow(this.withResolvedSpace(row))
+    );
   }
 
+  /**
+   * Renames a collection and/or merges new settings into its metadata. The
+   * dimensions and space of an index cannot change once it holds embeddings,
+   * new hnsw build settings rebuild the index from the stored embeddings.
+   */
   public async updateCollection(
     currentName: string,
-    newName: string,
-    newMetadata: CollectionRowMetadata
-  ) {
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow> {
     const currentCollection = await this.getCollectionByName(currentName);
     if (!currentCollection) {
-      throw new Error(
+      throw new NotFoundError(
         `Unable to update a non-existent collection by name ${currentName}`
       );
     }
 
-    if (!newName) {
-      newName = currentName;
+    return this.lockCollection(currentCollection, async (current) => {
+      if (!newName) {
+        newName = current.name;
+      }
+      if (
+        newName !== current.name &&
+        (await this.getCollectionByName(newName))
+      ) {
+        throw new ConflictError(
+          `Collection with name ${newName} already exists`
+        );
+      }
+
+      const currentMetadata: CollectionRowMetadata = JSON.parse(
+        this.withResolvedSpace(current).metadata
+      );
+      const metadata: CollectionRowMetadata = {
+        ...currentMetadata,
+        ...newMetadata,
+      };
+
+      this._validator.assertValid(this._validator.validateCollectionRowMetadata(metadata));
+      if (
+        metadata.embeddingFunction &&
+        JSON.stringify(metadata.embeddingFunction) !==
+          JSON.stringify(currentMetadata.embeddingFunction)
+      ) {
+        await this._embeddingFunctions.verify(
+          metadata.embeddingFunction,
+          metadata.numberOfDimensions
+        );
+      }
+
+      const changedIndexShape = INDEX_SHAPE_SETTINGS.filter(
+        (setting) => metadata[setting] !== currentMetadata[setting]
+      );
+      const changedFixedSettings = [
+        ...changedIndexShape,
+        ...STORAGE_SETTINGS.filter(
+          (setting) => metadata[setting] !== currentMetadata[setting]
+        ),
+      ];
+      if (changedFixedSettings.length) {
+        const count = await this.countEmbeddingsByCollectionName(current.name);
+        if (count) {
+          throw new InvalidArgumentError(
+            `Cannot change ${changedFixedSettings.join(" and ")} of collection ${current.name} while it holds ${count} embeddings`
+          );
+        }
+      }
+
+      const changedBuildSettings = HNSW_BUILD_SETTINGS.filter(
+        (setting) => metadata[setting] !== currentMetadata[setting]
+      );
+
+      const updatedCollection: CollectionRow = {
+        id: current.id,
+        name: newName,
+        metadata: JSON.stringify(metadata),
+      };
+      await this.conflictOnDuplicate(
+        () =>
+          this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME)
+            .where("id", current.id)
+            .update({
+              name: updatedCollection.name,
+              metadata: updatedCollection.metadata,
+            }),
+        () => `Collection with name ${newName} already exists`
+      );
+
+      // Indexes read their settings when loaded, so the cached one is dropped
+      // to pick up the new metadata. An empty index of the old shape is
+      // removed entirely so that it is recreated.
+      if (changedIndexShape.length) {
+        await this.dropCollectionIndex(current);
+      } else if (changedBuildSettings.length) {
+        // A loaded graph keeps the settings it was built with
+        await this.evictIndex(current.id);
+        const count = await this.reindex(updatedCollection);
+        this.logger.info(
+          `Rebuilt index of collection ${newName} with ${count} embeddings after ${changedBuildSettings.join(", ")} changed`
+        );
+      } else {
+        await this.evictIndex(current.id);
+      }
+
+      return redactCollectionRow(updatedCollection);
+    });
+  }
+
+  /**
+   * Deletes a collection with all of its embeddings, which the foreign key
+   * deletes along with it, and its index files.
+   */
+  public async deleteCollection(name: string): Promise<void> {
+    const collection = await this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to delete a non-existent collection by name ${name}`
+      );
+    }
+
+    await this.lockCollection(collection, async (current) => {
+      await this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME)
+        .where("id", current.id)
+        .delete();
+
+      await this.dropCollectionIndex(current);
+    });
+  }
+
+  /**
+   * Captures a collection's metadata, every record in insertion order and its
+   * persisted index, so it can be restored elsewhere with importCollection.
+   */
+  public async exportCollection(name: string): Promise<CollectionSnapshot> {
+    const collection = await this.getCollectionByName(name);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to export a non-existent collection by name ${name}`
+      );
+    }
+
+    // Loading the index first brings a stale one in line with the table
+    const index = await this.createIndexForCollection(collection.id);
+    const rows = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+      .select()
+      .where("collectionId", collection.id)
+      .orderBy("rowid");
+
+    const quantization = this.quantizationOf(collection);
+    const records: SnapshotRecord[] = rows.map(
+      ({ id, embedding, document, documentId, metadata }) => ({
+        id,
+        embedding: decodeEmbedding(embedding, quantization),
+        document: document ?? undefined,
+        documentId: documentId ?? undefined,
+        metadata: decodeMetadata(metadata),
+      })
+    );
+
+    return {
+      name: collection.name,
+      metadata: redactCollectionMetadata(
+        JSON.parse(this.withResolvedSpace(collection).metadata)
+      ),
+      records,
+      index: index.readSnapshot() ?? undefined,
+    };
+  }
+
+  /**
+   * Recreates a collection from a snapshot, under `newName` when given. The
+   * records keep their ids, so they must not exist in another collection,
+   * unless `idPrefix` is given to prefix them with. The snapshot's index is
+   * reused when it matches the records, and rebuilt otherwise.
+   */
+  public async importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow> {
+    const name = newName ?? snapshot.name;
+    if (idPrefix) {
+      snapshot = prefixSnapshotIds(snapshot, idPrefix);
     }
-    if (!newMetadata) {
-      newMetadata = JSON.parse(currentCollection.metadata);
+    if (await this.getCollectionByName(name)) {
+      throw new ConflictError(`Collection with name ${name} already exists`);
     }
 
-    this._validator.validateCollectionRowMetadata(newMetadata);
+    this._validator.assertValid(
+      this._validator.validateCollectionRowMetadata(snapshot.metadata)
+    );
+    const { numberOfDimensions, quantization } = snapshot.metadata;
+
+    const ids = snapshot.records.map(({ id }) => id);
+    if (new Set(ids).size !== ids.length) {
+      throw new InvalidArgumentError("Snapshot contains duplicate record ids");
+    }
+    for (const idsChunk of chunk(ids, BATCH_WRITE_CHUNK_SIZE)) {
+      const existing = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+        .select("id")
+        .whereIn("id", idsChunk)
+        .first();
+      if (existing) {
+        throw new ConflictError(
+          `The id ${existing.id} already exists in another collection, pass an id prefix to import next to it`
+        );
+      }
+    }
+
+    const collection: CollectionRow = {
+      id: shortUUID.generate().toString(),
+      name,
+      metadata: JSON.stringify({ space: DEFAULT_SPACE, ...snapshot.metadata }),
+    };
+    const rows: StoredEmbeddingRow[] = snapshot.records.map((record) => {
+      if (record.embedding.length !== numberOfDimensions) {
+        throw new InvalidArgumentError(
+          `Dimension of record ${record.id} ${record.embedding.length} does not match collection dimension ${numberOfDimensions}`
+        );
+      }
 
-    return await this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME).update({
-      name: newName,
-      metadata: JSON.stringify(newMetadata),
+      return {
+        id: record.id,
+        collectionId: collection.id,
+        embedding: encodeEmbedding(record.embedding, quantization),
+        document: record.document,
+        documentId: record.documentId,
+        metadata: record.metadata ? JSON.stringify(record.metadata) : undefined,
+      };
     });
+
+    await this.conflictOnDuplicate(
+      () =>
+        this._knex.transaction(async (trx) => {
+          await trx<CollectionRow>(COLLECTIONS_TABLE_NAME).insert(collection);
+          for (const rowsChunk of chunk(rows, BATCH_WRITE_CHUNK_SIZE)) {
+            await trx<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME).insert(
+              rowsChunk
+            );
+          }
+        }),
+      (column) =>
+        column === `${COLLECTIONS_TABLE_NAME}.name`
+          ? `Collection with name ${name} already exists`
+          : "Ids of the snapshot were added to another collection during the import, pass an id prefix to import next to it"
+    );
+
+    const index = createVectorIndex(
+      this.indexConfigFor(collection),
+      this.logger,
+      this._metrics
+    );
+    if (snapshot.index) {
+      index.restoreSnapshot(snapshot.index);
+      await this.reconcileIndex(collection.id, index);
+    } else {
+      await this.rebuildIndex(collection.id, index);
+    }
+    this._indexCache[collection.id] = index;
+
+    this.logger.info(
+      `Imported collection ${name} with ${rows.length} embeddings`
+    );
+    return redactCollectionRow(collection);
+  }
+
+  /**
+   * Returns the first `n` embeddings of a collection, in insertion order.
+   */
+  public async peek(
+    collectionName: string,
+    n: number = DEFAULT_PEEK_SIZE
+  ): Promise<EmbeddingRow[]> {
+    const collection = await this.getCollectionByName(collectionName);
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to peek into a non-existent collection by name ${collectionName}`
+      );
+    }
+
+    const rows = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+      .select()
+      .where("collectionId", collection.id)
+      .orderBy("rowid")
+      .limit(n);
+    return this.decodeRows(collection, rows) as EmbeddingRow[];
   }
 
-  public async addEmbeddingToCollection(input: EmbeddingInput) {
+  public async addEmbeddingToCollection(
+    input: EmbeddingInput
+  ): Promise<string> {
     const {
       collectionName,
       document,
       documentId,
       embedding,
-      arg1,
-      arg2,
-      arg3,
+      metadata,
     } = input;
 
-    const collection = await this.getCollectionByName(collectionName);
+    const [id] = await this.addEmbeddings({
+      collectionName,
+      embeddings: embedding ? [embedding] : undefined,
+      documents: [document],
+      documentIds: [documentId],
+      metadatas: metadata ? [metadata] : undefined,
+    });
+
+    return id;
+  }
+
+  public async addEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.writeBatch(input, false);
+  }
+
+  /**
+   * Like addEmbeddings, but items whose id already exists in the collection
+   * replace the stored record instead of failing the batch.
+   */
+  public async upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]> {
+    return this.writeBatch(input, true);
+  }
+
+  private async writeBatch(
+    input: BatchEmbeddingInput,
+    upsert: boolean
+  ): Promise<string[]> {
+    const collection = await this.getCollectionByName(input.collectionName);
     if (!collection) {
-      throw new Error(
-        `Unable to add to a non-existent collection by name ${collectionName}`
+      throw new NotFoundError(
+        `Unable to add to a non-existent collection by name ${input.collectionName}`
       );
     }
 
-    const { id } = await this._knex.transaction((trx) => {
-      const dataToInsert: EmbeddingRow = {
-        id: shortUUID.generate().toString(),
-        collectionId: collection.id,
-        embedding: embedding.toString(),
-        document,
-        documentId,
-        arg1,
-        arg2,
-        arg3,
-      };
+    return this.lockCollection(collection, async (current) => {
+      const index = await this.createIndexForCollection(current.id);
+      const quantization = this.quantizationOf(current);
+      const { rows, embeddings } = await this.prepareBatch(
+        current,
+        input,
+        upsert
+      );
 
-      const index = this._indexCache[collection.id];
+      // Any failure rolls back every row, the index only follows once they
+      // are committed
+      await this._knex.transaction(async (trx) => {
+        for (const rowsChunk of chunk(rows, BATCH_WRITE_CHUNK_SIZE)) {
+          const insert = trx<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME).insert(
+            rowsChunk
+          );
+          await (upsert ? insert.onConflict("id").merge() : insert);
+        }
+      });
+      await this.applyToIndex(current.id, index, () =>
+        index.add(
+          rows.map(({ id }, i) => ({
+            id,
+            embedding: storedValues(embeddings[i], quantization),
+          })),
+          upsert
+        )
+      );
 
-      if (!index) {
-        throw new Error("Cannot insert data to missing index.");
+      return rows.map(({ id }) => id);
+    });
+  }
+
+  /**
+   * Validates a whole batch before anything is written and turns it into
+   * rows. Problems with individual items are collected and reported together.
+   * Missing embeddings are generated from the documents.
+   */
+  private async prepareBatch(
+    collection: CollectionRow,
+    input: BatchEmbeddingInput,
+    upsert: boolean
+  ): Promise<{ rows: StoredEmbeddingRow[]; embeddings: number[][] }> {
+    this._validator.assertValid(this._validator.validateBatchEmbeddingInput(input));
+
+    const { documents, documentIds, metadatas } = input;
+    let { embeddings } = input;
+    if (!embeddings) {
+      if (!documents || !documents.length) {
+        throw new InvalidArgumentError(
+          "Either embeddings or documents must be provided"
+        );
       }
+      embeddings = await this.embed(collection, documents);
+    }
 
-      return index
-        .add([{ ...dataToInsert, embedding }])
-        .then(() => trx(EMBEDDINGS_TABLE_NAME).insert(dataToInsert))
-        .then(() => dataToInsert);
+    for (const [name, values] of Object.entries({
+      ids: input.ids,
+      documents,
+      documentIds,
+      metadatas,
+    })) {
+      if (values && values.length !== embeddings.length) {
+        throw new InvalidArgumentError(
+          `Expected ${embeddings.length} ${name} to match the embeddings, got ${values.length}`
+        );
+      }
+    }
+
+    const ids =
+      input.ids ?? embeddings.map(() => shortUUID.generate().toString());
+    const { numberOfDimensions, quantization }: CollectionRowMetadata =
+      JSON.parse(collection.metadata);
+
+    const errors: BatchItemError[] = [];
+    const seen = new Set<string>();
+    ids.forEach((id, i) => {
+      if (embeddings[i].length !== numberOfDimensions) {
+        errors.push({
+          index: i,
+          id,
+          message: `Dimension of data ${embeddings[i].length} does not match collection dimension ${numberOfDimensions}`,
+        });
+      }
+      if (seen.has(id)) {
+        errors.push({ index: i, id, message: `Duplicate id ${id} in batch` });
+      }
+      seen.add(id);
     });
 
-    return id;
+    const positions = new Map(ids.map((id, i) => [id, i]));
+    for (const idsChunk of chunk(ids, BATCH_WRITE_CHUNK_SIZE)) {
+      const existing = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+        .select("id", "collectionId")
+        .whereIn("id", idsChunk);
+
+      for (const { id, collectionId } of existing) {
+        if (upsert && collectionId === collection.id) {
+          continue;
+        }
+        errors.push({
+          index: positions.get(id),
+          id,
+          message:
+            collectionId === collection.id
+              ? `The id ${id} already exists in the collection`
+              : `The id ${id} belongs to another collection`,
+        });
+      }
+    }
+
+    if (errors.length) {
+      throw new BatchValidationError(
+        `${errors.length} of ${ids.length} items in the batch are invalid`,
+        errors.sort((a, b) => a.index - b.index)
+      );
+    }
+
+    const rows = ids.map((id, i) => ({
+      id,
+      collectionId: collection.id,
+      embedding: encodeEmbedding(embeddings[i], quantization),
+      document: documents?.[i],
+      documentId: documentIds?.[i],
+      metadata: metadatas?.[i] ? JSON.stringify(metadatas[i]) : undefined,
+    }));
+
+    return { rows, embeddings };
+  }
+
+  /**
+   * Generates embeddings with the collection's embedding function.
+   */
+  private async embed(
+    collection: CollectionRow,
+    texts: string[]
+  ): Promise<number[][]> {
+    const { embeddingFunction, numberOfDimensions }: CollectionRowMetadata =
+      JSON.parse(collection.metadata);
+    if (!embeddingFunction) {
+      throw new InvalidArgumentError(
+        `Collection ${collection.name} has no embedding function, so embeddings must be provided`
+      );
+    }
+
+    return this._embeddingFunctions
+      .create(embeddingFunction, numberOfDimensions)
+      .generate(texts);
+  }
+
+  private hasEmbeddingFunction(collection: CollectionRow) {
+    const { embeddingFunction }: CollectionRowMetadata = JSON.parse(
+      collection.metadata
+    );
+    return Boolean(embeddingFunction);
   }
 
   public async updateEmbedding(
@@ -209,171 +1147,615 @@ export class SqliteDb implements Db {
       collectionName,
       document,
       documentId,
-      embedding,
-      arg1,
-      arg2,
-      arg3,
+      metadata,
     } = input;
+    let { embedding } = input;
 
     const collection = await this.getCollectionByName(collectionName);
     if (!collection) {
-      throw new Error(
+      throw new NotFoundError(
         `Unable to perform an update on a non-existent collection by name ${collectionName}`
       );
     }
 
-    const embeddingFromDb = await this.getEmbeddingById(embeddingId);
-    if (!embeddingFromDb) {
-      throw new Error(`Cannot update an unknown embedding: ${embeddingId}`);
-    }
+    await this.lockCollection(collection, async (current) => {
+      const embeddingFromDb = await this.getEmbeddingById(embeddingId);
+      if (!embeddingFromDb) {
+        throw new NotFoundError(
+          `Cannot update an unknown embedding: ${embeddingId}`
+        );
+      }
 
-    if (embeddingFromDb.collectionId !== collection.id) {
-      throw new Error(
-        `Embedding with id ${embeddingId} does not belong to collection ${collectionName}`
-      );
-    }
+      if (embeddingFromDb.collectionId !== current.id) {
+        throw new NotFoundError(
+          `Embedding with id ${embeddingId} does not belong to collection ${collectionName}`
+        );
+      }
 
-    await this._knex.transaction((trx) => {
-      const index = this._indexCache[collection.id];
+      // Re-embed a changed document when the collection embeds on the server
+      if (
+        !(embedding && embedding.length) &&
+        document !== undefined &&
+        this.hasEmbeddingFunction(current)
+      ) {
+        [embedding] = await this.embed(current, [document]);
+      }
 
-      return index.add([{ embedding, id: embeddingId }], true).then(() =>
-        trx<EmbeddingRow>(EMBEDDINGS_TABLE_NAME).update({
+      const hasEmbedding = embedding && embedding.length;
+      // The index only follows once the row is written, so it cannot be the
+      // one to reject an embedding of the wrong size
+      const { numberOfDimensions }: CollectionRowMetadata = JSON.parse(
+        current.metadata
+      );
+      if (hasEmbedding && embedding.length !== numberOfDimensions) {
+        throw new InvalidArgumentError(
+          `Dimension of data ${embedding.length} does not match collection dimension ${numberOfDimensions}`
+        );
+      }
+
+      const index = await this.createIndexForCollection(current.id);
+      const quantization = this.quantizationOf(current);
+      // Fields left out of the input keep their stored values
+      const changes = Object.fromEntries(
+        Object.entries({
           document,
           documentId,
-          embedding:
-            embedding && embedding.length
-              ? JSON.stringify(embedding)
-              : undefined,
-          arg1,
-          arg2,
-          arg3,
-        })
+          embedding: hasEmbedding
+            ? encodeEmbedding(embedding, quantization)
+            : undefined,
+          metadata: metadata ? JSON.stringify(metadata) : undefined,
+        }).filter(([, value]) => value !== undefined)
       );
+      if (!Object.keys(changes).length) {
+        return;
+      }
+      await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+        .where("id", embeddingId)
+        .update(changes);
+
+      if (hasEmbedding) {
+        await this.applyToIndex(current.id, index, () =>
+          index.add(
+            [
+              {
+                embedding: storedValues(embedding, quantization),
+                id: embeddingId,
+              },
+            ],
+            true
+          )
+        );
+      }
     });
   }
 
-  public async get(queryInput: QueryInput): Promise<EmbeddingRow[]> {
-    const { collectionName, where } = queryInput;
+  public async get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]> {
+    const { rows } = await this.selectPage(queryInput, false);
+    return rows;
+  }
+
+  /**
+   * Like get, but also counts every matching row and returns a cursor for
+   * the next page when `limit` cut the results short.
+   */
+  public async getPage(queryInput: GetInput): Promise<EmbeddingPage> {
+    return this.selectPage(queryInput, true);
+  }
+
+  private async selectPage(
+    queryInput: GetInput,
+    withTotal: boolean
+  ): Promise<EmbeddingPage> {
+    this._validator.assertValid(this._validator.validateGetInput(queryInput));
+    const { collectionName, limit, offset, cursor, include } = queryInput;
+    if (cursor !== undefined && offset !== undefined) {
+      throw new InvalidArgumentError("Pass either a cursor or an offset");
+    }
 
     const collection = await this.getCollectionByName(collectionName);
     if (!collection) {
-      throw new Error(
+      throw new NotFoundError(
         `Unable to get a query from a non-existent collection by name ${collectionName}`
       );
     }
 
-    const dbQuery = this._knex<EmbeddingRow>(EMBEDDINGS_TABLE_NAME).select();
+    const order = compileOrderBy(queryInput.orderBy, EMBEDDINGS_TABLE_NAME);
+    const idColumn = `${EMBEDDINGS_TABLE_NAME}.id`;
+    const dbQuery: Knex.QueryBuilder = this._knex(EMBEDDINGS_TABLE_NAME).select(
+      this.projectedColumns(include).map(
+        (column) => `${EMBEDDINGS_TABLE_NAME}.${column}`
+      )
+    );
+    this.applyFilters(dbQuery, collection, queryInput);
+    const total = withTotal
+      ? Number(
+          (await dbQuery.clone().clearSelect().count({ count: "*" }).first())
+            .count
+        )
+      : undefined;
 
-    // Poor man's query builder
-    dbQuery.where((builder) => {
-      if (where.documentId) {
-        builder.where("documentId", where.documentId);
-      }
-      if (where.embeddingIds && where.embeddingIds.length) {
-        builder.whereIn("id", where.embeddingIds);
-      }
-      if (where.embedding) {
-        builder.where("embedding", where.embedding);
-      }
-      if (where.arg1) {
-        builder.where("arg1", where.arg1);
-      }
-      if (where.arg2) {
-        builder.where("arg2", where.arg2);
-      }
-      if (where.arg3) {
-        builder.where("arg3", where.arg3);
-      }
-    });
+    if (!order.byId) {
+      dbQuery.select(
+        this._knex.raw(`${order.sql} AS ${SORT_VALUE_COLUMN}`, order.bindings)
+      );
+    }
+    if (cursor !== undefined) {
+      const { sql, bindings } = compileCursor(cursor, order, idColumn);
+      dbQuery.whereRaw(`(${sql})`, bindings);
+    }
+    dbQuery
+      .orderByRaw(`${order.sql} ${order.direction}`, order.bindings)
+      .orderBy(idColumn, order.direction);
+    if (limit !== undefined) {
+      // One more row than asked tells whether another page follows
+      dbQuery.limit(limit + 1);
+    }
+    if (offset !== undefined) {
+      dbQuery.offset(offset);
+    }
 
-    const results = await dbQuery;
-    return results;
+    const rows: (Partial<StoredEmbeddingRow> & {
+      [SORT_VALUE_COLUMN]?: string | number;
+    })[] = await dbQuery;
+    let nextCursor: string | undefined;
+    if (limit !== undefined && rows.length > limit) {
+      rows.length = limit;
+      const last = rows[limit - 1];
+      nextCursor = encodeCursor(
+        order,
+        order.byId ? last.id : last[SORT_VALUE_COLUMN] ?? null,
+        last.id
+      );
+    }
+    for (const row of rows) {
+      delete row[SORT_VALUE_COLUMN];
+    }
+
+    return { rows: this.decodeRows(collection, rows), total, nextCursor };
+  }
+
+  /**
+   * Columns of the embeddings table a get returns for an include, always
+   * with the id and collectionId.
+   */
+  private projectedColumns(include?: IncludeField[]): (keyof EmbeddingRow)[] {
+    if (!include) {
+      return ["id", "collectionId", "embedding", "document", "documentId", "metadata"];
+    }
+
+    const columns: (keyof EmbeddingRow)[] = ["id", "collectionId"];
+    if (include.includes("embeddings")) {
+      columns.push("embedding");
+    }
+    if (include.includes("documents")) {
+      columns.push("document", "documentId");
+    }
+    if (include.includes("metadatas")) {
+      columns.push("metadata");
+    }
+    return columns;
+  }
+
+  /**
+   * Restricts a query over the embeddings table to a collection and the
+   * filters of a QueryInput. Columns are qualified so the query may join.
+   */
+  private applyFilters(
+    dbQuery: Knex.QueryBuilder,
+    collection: CollectionRow,
+    { embeddingIds, documentId, where, whereDocument }: QueryInput
+  ) {
+    dbQuery.where(`${EMBEDDINGS_TABLE_NAME}.collectionId`, collection.id);
+
+    if (documentId) {
+      dbQuery.where(`${EMBEDDINGS_TABLE_NAME}.documentId`, documentId);
+    }
+    if (embeddingIds && embeddingIds.length) {
+      dbQuery.whereIn(`${EMBEDDINGS_TABLE_NAME}.id`, embeddingIds);
+    }
+    if (where && Object.keys(where).length) {
+      const { sql, bindings } = compileWhereFilter(
+        where,
+        `${EMBEDDINGS_TABLE_NAME}.metadata`
+      );
+      dbQuery.whereRaw(sql, bindings);
+    }
+    if (whereDocument) {
+      const { sql, bindings } = compileWhereDocumentFilter(
+        whereDocument,
+        DOCUMENTS_FTS_TABLE_NAME,
+        `${EMBEDDINGS_TABLE_NAME}.id`
+      );
+      dbQuery.whereRaw(sql, bindings);
+    }
   }
 
   public async getNearestNeighbors(queryInput: SearchQueryInput): Promise<SearchResult[]> {
-    this._validator.validateSearchQueryInput(queryInput);
+    if (queryInput.searchEmbeddings || queryInput.searchTexts) {
+      throw new InvalidArgumentError(
+        "Several queries return several result lists, use getNearestNeighborsBatch"
+      );
+    }
+
+    const [results] = await this.getNearestNeighborsBatch(queryInput);
+    return results;
+  }
+
+  /**
+   * Runs every query of the input against the same filters and returns one
+   * result list per query, in order. A single searchEmbedding or searchText
+   * counts as one query.
+   */
+  public async getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]> {
+    this._validator.assertValid(this._validator.validateSearchQueryInput(queryInput));
+    if (queryInput.hybrid && queryInput.mmr) {
+      throw new InvalidArgumentError("A search cannot be both hybrid and mmr");
+    }
 
     const collection = await this.getCollectionByName(queryInput.collectionName);
     if (!collection) {
-      throw new Error(`Invalid collection name specified: ${queryInput.collectionName}`);
+      throw new NotFoundError(`Invalid collection name specified: ${queryInput.collectionName}`);
     }
-    const embeddingIds = (await this.get(queryInput)).map(r => r.id);
 
-    const index = this._indexCache[collection.id];
-    const indexSearchResults: IndexSearchResult[] = await index.search(queryInput.searchEmbedding,  queryInput.nearestNeighbors, embeddingIds);
+    const queries = await this.resolveSearchQueries(collection, queryInput);
 
-    // Hydrate the index results with the actual document and documentId if available
-    const searchResults: SearchResult[] = [];
-    for await (const result of indexSearchResults) {
-      const { document, documentId } = await this.getEmbeddingById(result.id);
-      searchResults.push({
-        ...result,
+    // Pre-filter through SQLite, then restrict the index search to the matches
+    let embeddingIds: string[] = [];
+    if (this.hasFilter(queryInput)) {
+      const { collectionName, documentId, where, whereDocument } = queryInput;
+      const rows = await this.get({
+        collectionName,
+        embeddingIds: queryInput.embeddingIds,
         documentId,
-        document,
+        where,
+        whereDocument,
+        include: [],
       });
+      embeddingIds = rows.map((r) => r.id);
+      if (!embeddingIds.length) {
+        return queries.map(() => []);
+      }
+    }
+
+    const index = await this.createIndexForCollection(collection.id);
+    const results: SearchResult[][] = [];
+    for (const { searchEmbedding, searchText } of queries) {
+      if (queryInput.hybrid) {
+        results.push(
+          await this.hybridSearch(collection, index, queryInput, searchEmbedding, searchText, embeddingIds)
+        );
+        continue;
+      }
+
+      const indexSearchResults: IndexSearchResult[] = queryInput.mmr
+        ? await this.mmrSearch(index, queryInput, searchEmbedding, embeddingIds)
+        : await index.search(
+            searchEmbedding,
+            queryInput.nearestNeighbors,
+            embeddingIds,
+            queryInput.ef
+          );
+      results.push(
+        await this.hydrateSearchResults(
+          collection,
+          indexSearchResults,
+          queryInput.include
+        )
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Pairs up each query's embedding with its text, embedding the texts of
+   * queries given as text only in one call.
+   */
+  private async resolveSearchQueries(
+    collection: CollectionRow,
+    queryInput: SearchQueryInput
+  ): Promise<{ searchEmbedding: number[]; searchText?: string }[]> {
+    const { searchEmbedding, searchText, searchEmbeddings, searchTexts } = queryInput;
+    const batch = Boolean(searchEmbeddings || searchTexts);
+    if (batch && (searchEmbedding || searchText !== undefined)) {
+      throw new InvalidArgumentError(
+        "Pass either searchEmbedding/searchText or searchEmbeddings/searchTexts"
+      );
     }
 
-    return searchResults;
+    const texts = batch ? searchTexts : searchText !== undefined ? [searchText] : undefined;
+    let embeddings = batch ? searchEmbeddings : searchEmbedding && [searchEmbedding];
+    if (embeddings && texts && embeddings.length !== texts.length) {
+      throw new InvalidArgumentError(
+        `Got ${embeddings.length} searchEmbeddings but ${texts.length} searchTexts`
+      );
+    }
+    if (!embeddings) {
+      if (!texts) {
+        throw new InvalidArgumentError("Either searchEmbedding or searchText must be provided");
+      }
+      embeddings = await this.embed(collection, texts);
+    }
+    if (queryInput.hybrid && !texts) {
+      throw new InvalidArgumentError("A hybrid search needs a searchText");
+    }
+
+    return embeddings.map((embedding, i) => ({
+      searchEmbedding: embedding,
+      searchText: texts?.[i],
+    }));
   }
 
-  public async countEmbeddingsByCollectionName(collectionName: string) {
+  /**
+   * Picks the results by maximal marginal relevance among the nearest
+   * candidates, using the embeddings the index search returns with them.
+   */
+  private async mmrSearch(
+    index: VectorIndex,
+    queryInput: SearchQueryInput,
+    searchEmbedding: number[],
+    embeddingIds: string[]
+  ): Promise<IndexSearchResult[]> {
+    const { nearestNeighbors, mmr } = queryInput;
+
+    const fetchK = Math.min(
+      Math.max(mmr.fetchK ?? nearestNeighbors * MMR_FETCH_MULTIPLIER, nearestNeighbors),
+      embeddingIds.length || index.getElementCount()
+    );
+    if (!fetchK) {
+      return [];
+    }
+
+    const candidates = await index.search(searchEmbedding, fetchK, embeddingIds, queryInput.ef);
+    return rerankMmr(candidates, nearestNeighbors, index.space, mmr.lambda);
+  }
+
+  /**
+   * Runs the vector search and a BM25 keyword search over the documents side
+   * by side, then fuses both candidate lists into one ranking.
+   */
+  private async hybridSearch(
+    collection: CollectionRow,
+    index: VectorIndex,
+    queryInput: SearchQueryInput,
+    searchEmbedding: number[],
+    searchText: string,
+    embeddingIds: string[]
+  ): Promise<SearchResult[]> {
+    const { nearestNeighbors, hybrid } = queryInput;
+
+    const fetchK = Math.min(
+      hybrid.fetchK ?? nearestNeighbors * HYBRID_FETCH_MULTIPLIER,
+      embeddingIds.length || index.getElementCount()
+    );
+    if (!fetchK) {
+      return [];
+    }
+
+    const vectorResults = await index.search(
+      searchEmbedding,
+      fetchK,
+      embeddingIds,
+      queryInput.ef
+    );
+
+    const keywordQuery = this._knex(EMBEDDINGS_TABLE_NAME)
+      .join(
+        DOCUMENTS_FTS_TABLE_NAME,
+        `${DOCUMENTS_FTS_TABLE_NAME}.id`,
+        `${EMBEDDINGS_TABLE_NAME}.id`
+      )
+      .select(
+        `${EMBEDDINGS_TABLE_NAME}.id`,
+        // bm25() is negative, with better matches further below zero
+        this._knex.raw(`-bm25(${DOCUMENTS_FTS_TABLE_NAME}) AS keywordScore`)
+      )
+      .whereRaw(`${DOCUMENTS_FTS_TABLE_NAME} MATCH ?`, [
+        toFtsQuery(searchText, "OR"),
+      ])
+      .orderBy("keywordScore", "desc")
+      .limit(fetchK);
+    this.applyFilters(keywordQuery, collection, queryInput);
+    const keywordResults: { id: string; keywordScore: number }[] =
+      await keywordQuery;
+
+    const fused = fuseRankings(vectorResults, keywordResults, hybrid).slice(
+      0,
+      nearestNeighbors
+    );
+
+    // Keyword-only matches still report their exact vector distance
+    const vectorById = new Map(vectorResults.map((r) => [r.id, r]));
+    const keywordOnlyIds = fused
+      .map(({ id }) => id)
+      .filter((id) => !vectorById.has(id));
+    for (const result of await index.distances(searchEmbedding, keywordOnlyIds)) {
+      vectorById.set(result.id, result);
+    }
+    const keywordById = new Map(
+      keywordResults.map(({ id, keywordScore }) => [id, keywordScore])
+    );
+    const scoreById = new Map(fused.map(({ id, score }) => [id, score]));
+
+    // A keyword match the index does not hold yet has no distance to report
+    const searchResults = await this.hydrateSearchResults(
+      collection,
+      fused
+        .map(({ id }) => vectorById.get(id))
+        .filter((result) => result !== undefined),
+      queryInput.include
+    );
+    return searchResults.map((result) => ({
+      ...result,
+      keywordScore: keywordById.get(result.id),
+      score: scoreById.get(result.id),
+    }));
+  }
+
+  /**
+   * Adds the stored embedding, document, documentId and metadata to index
+   * results, keeping their order, and leaves out what `include` does not ask
+   * for. Embeddings come from the table as `get` returns them, since an index
+   * may hold them normalized.
+   */
+  private async hydrateSearchResults(
+    collection: CollectionRow,
+    indexSearchResults: IndexSearchResult[],
+    include: IncludeField[] = INCLUDE_FIELDS
+  ): Promise<SearchResult[]> {
+    const withEmbeddings = include.includes("embeddings");
+    const withDocuments = include.includes("documents");
+    const withMetadatas = include.includes("metadatas");
+    const withRows = withEmbeddings || withDocuments || withMetadatas;
+    const rowsById = new Map<string, ProjectedEmbeddingRow>();
+    if (withRows) {
+      const rows = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+        .select(
+          "id",
+          "document",
+          "documentId",
+          "metadata",
+          ...(withEmbeddings ? ["embedding"] : [])
+        )
+        .whereIn(
+          "id",
+          indexSearchResults.map(({ id }) => id)
+        );
+      for (const row of this.decodeRows(collection, rows)) {
+        rowsById.set(row.id, row);
+      }
+    }
+
+    return indexSearchResults
+      // Skips rows deleted by a write that committed after the index search
+      .filter(({ id }) => !withRows || rowsById.has(id))
+      .map(({ id, distance }) => {
+        const result: SearchResult = { id };
+        if (include.includes("distances")) {
+          result.distance = distance;
+        }
+        const row = rowsById.get(id);
+        if (withEmbeddings) {
+          result.embedding = row.embedding;
+        }
+        if (withDocuments) {
+          result.documentId = row.documentId;
+          result.document = row.document;
+        }
+        if (withMetadatas) {
+          result.metadata = row.metadata;
+        }
+        return result;
+      });
+  }
+
+  public async countEmbeddingsByCollectionName(
+    collectionName: string
+  ): Promise<number> {
     const collection = await this.getCollectionByName(collectionName);
     if (!collection) {
-      throw new Error(
+      throw new NotFoundError(
         `Unable to get a count for a non-existent collection by name ${collectionName}`
       );
     }
 
-    return this._knex<EmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+    const { count } = await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
       .where("collectionId", collection.id)
-      .count();
+      .count({ count: "*" })
+      .first();
+
+    return Number(count);
   }
 
-  public async deleteEmbedding(collectionName: string, embeddingId: string) {
+  public async deleteEmbedding(
+    collectionName: string,
+    embeddingId: string
+  ): Promise<void> {
     const collection = await this.getCollectionByName(collectionName);
     if (!collection) {
-      throw new Error(
+      throw new NotFoundError(
         `Unable to perform a delete on a non-existent collection by name ${collectionName}`
       );
     }
 
-    const embeddingFromDb = await this.getEmbeddingById(embeddingId);
-    if (!embeddingFromDb) {
-      throw new Error(`Cannot delete an unknown embedding: ${embeddingId}`);
-    }
+    await this.lockCollection(collection, async (current) => {
+      const embeddingFromDb = await this.getEmbeddingById(embeddingId);
+      if (!embeddingFromDb) {
+        throw new NotFoundError(
+          `Cannot delete an unknown embedding: ${embeddingId}`
+        );
+      }
 
-    if (embeddingFromDb.collectionId !== collection.id) {
-      throw new Error(
-        `Embedding with id ${embeddingId} does not belong to collection ${collectionName}`
+      if (embeddingFromDb.collectionId !== current.id) {
+        throw new NotFoundError(
+          `Embedding with id ${embeddingId} does not belong to collection ${collectionName}`
+        );
+      }
+
+      const index = await this.createIndexForCollection(current.id);
+      await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+        .where("id", embeddingId)
+        .delete();
+      await this.applyToIndex(current.id, index, () =>
+        index.delete([embeddingId])
       );
+    });
+  }
+
+  /**
+   * Collections created before the space was stored in their metadata were
+   * always indexed with cosine distance.
+   */
+  private withResolvedSpace(collection: CollectionRow): CollectionRow {
+    const metadata: CollectionRowMetadata = JSON.parse(collection.metadata);
+    if (metadata.space) {
+      return collection;
     }
 
-    return this._knex.transaction((trx) => {
-      const index = this._indexCache[collection.id];
+    return {
+      ...collection,
+      metadata: JSON.stringify({ ...metadata, space: DEFAULT_SPACE }),
+    };
+  }
 
-      return index
-        .delete([embeddingId])
-        .then(() =>
-          trx<EmbeddingRow>(EMBEDDINGS_TABLE_NAME)
-            .where("id", embeddingId)
-            .delete()
-        );
-    });
+  private hasFilter({
+    embeddingIds,
+    documentId,
+    where,
+    whereDocument,
+  }: QueryInput) {
+    return Boolean(
+      (embeddingIds && embeddingIds.length) ||
+        documentId ||
+        (where && Object.keys(where).length) ||
+        whereDocument
+    );
   }
 
-  private async dropCollectionIndex(collectionId: string) {
-    const index = this._indexCache[collectionId];
-    if (!index) {
-      return;
-    }
+  /**
+   * Removes an index from the cache after writing its pending mutations, so
+   * its flush timer cannot later overwrite the files of its replacement.
+   */
+  private async evictIndex(collectionId: string) {
+    await this._indexCache[collectionId]?.flush();
+    delete this._indexCache[collectionId];
+  }
+
+  private async dropCollectionIndex(collection: CollectionRow) {
+    const index =
+      this._indexCache[collection.id] ??
+      createVectorIndex(this.indexConfigFor(collection), this.logger);
 
     await index.dropIndex();
-    delete this._indexCache[collectionId];
+    delete this._indexCache[collection.id];
+    delete this._indexErrors[collection.id];
   }
 
   private async getCollectionById(
     collectionId: string
   ): Promise<CollectionRow> {
+    this.assertInitialized();
     return await this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME)
       .where("id", collectionId)
       .first();
@@ -382,13 +1764,16 @@ export class SqliteDb implements Db {
   private async getCollectionByName(
     collectionName: string
   ): Promise<CollectionRow> {
+    this.assertInitialized();
     return await this._knex<CollectionRow>(COLLECTIONS_TABLE_NAME)
-      .where("id", collectionName)
+      .where("name", collectionName)
       .first();
   }
 
-  private async getEmbeddingById(embeddingId: string): Promise<EmbeddingRow> {
-    return await this._knex<EmbeddingRow>(EMBEDDINGS_TABLE_NAME)
+  private async getEmbeddingById(
+    embeddingId: string
+  ): Promise<StoredEmbeddingRow> {
+    return await this._knex<StoredEmbeddingRow>(EMBEDDINGS_TABLE_NAME)
       .where("id", embeddingId)
       .first();
   }
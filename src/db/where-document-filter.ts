@@ -0,0 +1,179 @@
+import { WhereDocumentFilter } from "../types/where-document-filter";
+import { InvalidArgumentError } from "../utils/errors";
+import { CompiledFilter } from "./where-filter";
+
+/**
+ * Tells whether a record's document matches a filter, undefined when the
+ * record has none.
+ */
+export type DocumentMatcher = (document: string | undefined) => boolean;
+
+/**
+ * Compiles a whereDocument filter into a SQL fragment over the FTS5 table
+ * holding the documents, suitable for `whereRaw`. `idColumn` is the
+ * embeddings id column to match against.
+ */
+export function compileWhereDocumentFilter(
+  whereDocument: WhereDocumentFilter,
+  ftsTable: string,
+  idColumn: string
+): CompiledFilter {
+  const entries = Object.entries(whereDocument ?? {});
+  if (entries.length !== 1) {
+    throw new InvalidArgumentError(
+      "A whereDocument filter must have exactly one operator"
+    );
+  }
+
+  const [[operator, operand]] = entries;
+  const matches = `${idColumn} IN (SELECT id FROM ${ftsTable} WHERE ${ftsTable} MATCH ?)`;
+
+  switch (operator) {
+    case "$contains":
+      return { sql: matches, bindings: [toFtsQuery(operand, "AND")] };
+    case "$not_contains":
+      return { sql: `NOT ${matches}`, bindings: [toFtsQuery(operand, "AND")] };
+    case "$phrase":
+      return { sql: matches, bindings: [toFtsPhrase(operand)] };
+    case "$and":
+    case "$or": {
+      if (!Array.isArray(operand) || !operand.length) {
+        throw new InvalidArgumentError(
+          `${operator} expects a non-empty array of filters`
+        );
+      }
+      const parts = operand.map((filter) =>
+        compileWhereDocumentFilter(filter, ftsTable, idColumn)
+      );
+      return {
+        sql: parts
+          .map((part) => `(${part.sql})`)
+          .join(operator === "$and" ? " AND " : " OR "),
+        bindings: parts.flatMap((part) => part.bindings),
+      };
+    }
+    default:
+      throw new InvalidArgumentError(
+        `Unknown whereDocument operator ${operator}`
+      );
+  }
+}
+
+/**
+ * Compiles a whereDocument filter into a predicate over documents, selecting
+ * the same records as compileWhereDocumentFilter does through FTS5 and
+ * throwing on the same malformed filters.
+ */
+export function compileWhereDocumentMatcher(
+  whereDocument: WhereDocumentFilter
+): DocumentMatcher {
+  const entries = Object.entries(whereDocument ?? {});
+  if (entries.length !== 1) {
+    throw new InvalidArgumentError(
+      "A whereDocument filter must have exactly one operator"
+    );
+  }
+
+  const [[operator, operand]] = entries;
+  const containsAll = (phrases: string[][]) => (document?: string) => {
+    const tokens = tokenize(document ?? "");
+    return phrases.every((phrase) => countPhrase(tokens, phrase) > 0);
+  };
+
+  switch (operator) {
+    case "$contains":
+      return containsAll(toPhrases(operand));
+    case "$not_contains": {
+      const contains = containsAll(toPhrases(operand));
+      return (document) => !contains(document);
+    }
+    case "$phrase":
+      return containsAll([tokenize(toWords(operand).join(" "))]);
+    case "$and":
+    case "$or": {
+      if (!Array.isArray(operand) || !operand.length) {
+        throw new InvalidArgumentError(
+          `${operator} expects a non-empty array of filters`
+        );
+      }
+      const matchers = operand.map((filter) =>
+        compileWhereDocumentMatcher(filter)
+      );
+      return operator === "$and"
+        ? (document) => matchers.every((match) => match(document))
+        : (document) => matchers.some((match) => match(document));
+    }
+    default:
+      throw new InvalidArgumentError(
+        `Unknown whereDocument operator ${operator}`
+      );
+  }
+}
+
+/**
+ * Splits text into tokens like FTS5's default unicode61 tokenizer: runs of
+ * letters and digits, lowercased and without diacritics.
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+/**
+ * The words of a search text as the token sequences FTS5 matches them by,
+ * since a quoted word like `e-mail` is the phrase `e mail`.
+ */
+export function toPhrases(text: unknown): string[][] {
+  return toWords(text).map(tokenize);
+}
+
+/**
+ * Number of times a phrase occurs in a document's tokens. A phrase without
+ * tokens occurs nowhere.
+ */
+export function countPhrase(tokens: string[], phrase: string[]): number {
+  if (!phrase.length) {
+    return 0;
+  }
+
+  let count = 0;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((token, j) => tokens[i + j] === token)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Builds an FTS5 query matching the words of `text`, joined with `glue`. Every
+ * word is quoted so user input is never parsed as FTS5 query syntax.
+ */
+export function toFtsQuery(text: unknown, glue: "AND" | "OR"): string {
+  return toWords(text).map(quote).join(` ${glue} `);
+}
+
+function toFtsPhrase(text: unknown): string {
+  return quote(toWords(text).join(" "));
+}
+
+function toWords(text: unknown): string[] {
+  if (typeof text !== "string") {
+    throw new InvalidArgumentError("Document search expects a string");
+  }
+
+  const words = text.split(/\s+/).filter((word) => word.length);
+  if (!words.length) {
+    throw new InvalidArgumentError("Document search text cannot be empty");
+  }
+  return words;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,375 @@
+import { Metadata, WhereFilter } from "../types/where-filter";
+import { InvalidArgumentError } from "../utils/errors";
+
+export type CompiledFilter = {
+  sql: string;
+  bindings: (string | number)[];
+};
+
+const COMPARISON_OPERATORS = {
+  $gt: ">",
+  $gte: ">=",
+  $lt: "<",
+  $lte: "<=",
+} as const;
+
+/**
+ * Tells whether a record's parsed metadata matches a filter, undefined when
+ * the record has none.
+ */
+export type MetadataMatcher = (metadata: Metadata | undefined) => boolean;
+
+const COMPARATORS = {
+  $gt: (a: number | string, b: number | string) => a > b,
+  $gte: (a: number | string, b: number | string) => a >= b,
+  $lt: (a: number | string, b: number | string) => a < b,
+  $lte: (a: number | string, b: number | string) => a <= b,
+} as const;
+
+const FIELD_OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$in",
+  "$nin",
+  ...Object.keys(COMPARISON_OPERATORS),
+]);
+
+/**
+ * Compiles a where filter into a SQL fragment over SQLite's JSON functions,
+ * suitable for `whereRaw`. Throws an InvalidArgumentError on malformed filters.
+ */
+export function compileWhereFilter(
+  where: WhereFilter,
+  column: string = "metadata"
+): CompiledFilter {
+  if (!isPlainObject(where)) {
+    throw new InvalidArgumentError("A where filter must be an object");
+  }
+
+  const parts: CompiledFilter[] = [];
+  for (const [key, value] of Object.entries(where)) {
+    if (key === "$and" || key === "$or") {
+      parts.push(compileLogical(key, value, column));
+    } else if (key.startsWith("$")) {
+      throw new InvalidArgumentError(`Unknown top-level operator ${key}`);
+    } else {
+      parts.push(compileField(key, value, column));
+    }
+  }
+
+  return join(parts, "AND");
+}
+
+function compileLogical(
+  operator: "$and" | "$or",
+  value: unknown,
+  column: string
+): CompiledFilter {
+  if (!Array.isArray(value) || !value.length) {
+    throw new InvalidArgumentError(
+      `${operator} expects a non-empty array of filters`
+    );
+  }
+
+  return join(
+    value.map((filter) => compileWhereFilter(filter, column)),
+    operator === "$and" ? "AND" : "OR"
+  );
+}
+
+function compileField(
+  field: string,
+  value: unknown,
+  column: string
+): CompiledFilter {
+  const path = toJsonPath(field);
+
+  if (!isPlainObject(value)) {
+    return compileOperator(column, path, field, "$eq", value);
+  }
+
+  const operators = Object.entries(value);
+  if (!operators.length) {
+    throw new InvalidArgumentError(`Empty operator expression for ${field}`);
+  }
+
+  return join(
+    operators.map(([operator, operand]) =>
+      compileOperator(column, path, field, operator, operand)
+    ),
+    "AND"
+  );
+}
+
+function compileOperator(
+  column: string,
+  path: string,
+  field: string,
+  operator: string,
+  operand: unknown
+): CompiledFilter {
+  if (!FIELD_OPERATORS.has(operator)) {
+    throw new InvalidArgumentError(`Unknown operator ${operator} on ${field}`);
+  }
+
+  const extract = `json_extract(${column}, ?)`;
+
+  if (operator === "$in" || operator === "$nin") {
+    if (!Array.isArray(operand) || !operand.length) {
+      throw new InvalidArgumentError(
+        `${operator} on ${field} expects a non-empty array`
+      );
+    }
+    const values = operand.map((v) => toSqlValue(field, operator, v));
+    const placeholders = values.map(() => "?").join(", ");
+
+    // Like Mongo, $nin also matches records where the field is missing
+    return operator === "$in"
+      ? { sql: `${extract} IN (${placeholders})`, bindings: [path, ...values] }
+      : {
+          sql: `(${extract} IS NULL OR ${extract} NOT IN (${placeholders}))`,
+          bindings: [path, path, ...values],
+        };
+  }
+
+  const sqlValue = toSqlValue(field, operator, operand);
+
+  if (operator === "$eq") {
+    return { sql: `${extract} = ?`, bindings: [path, sqlValue] };
+  }
+  if (operator === "$ne") {
+    return { sql: `${extract} IS NOT ?`, bindings: [path, sqlValue] };
+  }
+
+  if (typeof operand !== "number" && typeof operand !== "string") {
+    throw new InvalidArgumentError(
+      `${operator} on ${field} expects a number or a string`
+    );
+  }
+
+  // Guard on the JSON type so numbers are never compared against strings,
+  // which SQLite would otherwise order by storage class.
+  const types =
+    typeof operand === "number" ? "('integer', 'real')" : "('text')";
+  const sqlOperator =
+    COMPARISON_OPERATORS[operator as keyof typeof COMPARISON_OPERATORS];
+  return {
+    sql: `(json_type(${column}, ?) IN ${types} AND ${extract} ${sqlOperator} ?)`,
+    bindings: [path, path, sqlValue],
+  };
+}
+
+function toSqlValue(
+  field: string,
+  operator: string,
+  value: unknown
+): string | number {
+  if (typeof value === "boolean") {
+    // json_extract yields 1/0 for JSON booleans
+    return value ? 1 : 0;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return value;
+  }
+
+  throw new InvalidArgumentError(
+    `${operator} on ${field} expects string, number or boolean values`
+  );
+}
+
+export function toJsonPath(field: string) {
+  return (
+    "$" +
+    toPathSegments(field)
+      .map((segment) => `."${segment}"`)
+      .join("")
+  );
+}
+
+function toPathSegments(field: string): string[] {
+  const segments = field.split(".");
+  if (segments.some((segment) => !segment.length)) {
+    throw new InvalidArgumentError(`Invalid metadata field ${field}`);
+  }
+  // SQLite JSON paths cannot escape a quote inside a quoted key
+  if (field.includes('"')) {
+    throw new InvalidArgumentError(
+      `Metadata field ${field} cannot contain double quotes`
+    );
+  }
+  return segments;
+}
+
+/**
+ * Compiles a where filter into a predicate over parsed metadata, selecting
+ * the same records as compileWhereFilter does in SQLite and throwing on the
+ * same malformed filters.
+ */
+export function compileWhereMatcher(where: WhereFilter): MetadataMatcher {
+  if (!isPlainObject(where)) {
+    throw new InvalidArgumentError("A where filter must be an object");
+  }
+
+  const matchers: MetadataMatcher[] = [];
+  for (const [key, value] of Object.entries(where)) {
+    if (key === "$and" || key === "$or") {
+      matchers.push(matchLogical(key, value));
+    } else if (key.startsWith("$")) {
+      throw new InvalidArgumentError(`Unknown top-level operator ${key}`);
+    } else {
+      matchers.push(matchField(key, value));
+    }
+  }
+
+  return (metadata) => matchers.every((match) => match(metadata));
+}
+
+function matchLogical(
+  operator: "$and" | "$or",
+  value: unknown
+): MetadataMatcher {
+  if (!Array.isArray(value) || !value.length) {
+    throw new InvalidArgumentError(
+      `${operator} expects a non-empty array of filters`
+    );
+  }
+
+  const matchers = value.map((filter) => compileWhereMatcher(filter));
+  return operator === "$and"
+    ? (metadata) => matchers.every((match) => match(metadata))
+    : (metadata) => matchers.some((match) => match(metadata));
+}
+
+function matchField(field: string, value: unknown): MetadataMatcher {
+  const segments = toPathSegments(field);
+
+  if (!isPlainObject(value)) {
+    return matchOperator(segments, field, "$eq", value);
+  }
+
+  const operators = Object.entries(value);
+  if (!operators.length) {
+    throw new InvalidArgumentError(`Empty operator expression for ${field}`);
+  }
+
+  const matchers = operators.map(([operator, operand]) =>
+    matchOperator(segments, field, operator, operand)
+  );
+  return (metadata) => matchers.every((match) => match(metadata));
+}
+
+function matchOperator(
+  segments: string[],
+  field: string,
+  operator: string,
+  operand: unknown
+): MetadataMatcher {
+  if (!FIELD_OPERATORS.has(operator)) {
+    throw new InvalidArgumentError(`Unknown operator ${operator} on ${field}`);
+  }
+
+  const extract = (metadata: Metadata | undefined) =>
+    toExtractedValue(valueAt(metadata, segments));
+
+  if (operator === "$in" || operator === "$nin") {
+    if (!Array.isArray(operand) || !operand.length) {
+      throw new InvalidArgumentError(
+        `${operator} on ${field} expects a non-empty array`
+      );
+    }
+    const values = operand.map((v) => toSqlValue(field, operator, v));
+
+    // Like the SQL, $nin also matches records where the field is missing
+    return operator === "$in"
+      ? (metadata) => {
+          const value = extract(metadata);
+          return value !== null && values.includes(value);
+        }
+      : (metadata) => {
+          const value = extract(metadata);
+          return value === null || !values.includes(value);
+        };
+  }
+
+  const sqlValue = toSqlValue(field, operator, operand);
+
+  if (operator === "$eq") {
+    return (metadata) => extract(metadata) === sqlValue;
+  }
+  if (operator === "$ne") {
+    return (metadata) => extract(metadata) !== sqlValue;
+  }
+
+  if (typeof operand !== "number" && typeof operand !== "string") {
+    throw new InvalidArgumentError(
+      `${operator} on ${field} expects a number or a string`
+    );
+  }
+
+  // Same guard as the JSON type check in SQL, booleans are not numbers here
+  const compare = COMPARATORS[operator as keyof typeof COMPARATORS];
+  return (metadata) => {
+    const value = valueAt(metadata, segments);
+    return (
+      typeof value === typeof operand &&
+      compare(value as number | string, operand)
+    );
+  };
+}
+
+/**
+ * The value json_extract yields for a field of parsed metadata, e.g. to sort
+ * records outside SQLite the way it does.
+ */
+export function extractMetadataValue(
+  metadata: Metadata | undefined,
+  field: string
+): string | number | null {
+  return toExtractedValue(valueAt(metadata, toPathSegments(field)));
+}
+
+function valueAt(metadata: Metadata | undefined, segments: string[]): unknown {
+  let value: unknown = metadata;
+  for (const segment of segments) {
+    if (!isPlainObject(value) || !Object.hasOwn(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Booleans come out of json_extract as 1/0, objects and arrays as their JSON
+ * text and missing fields as NULL.
+ */
+function toExtractedValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function join(parts: CompiledFilter[], glue: "AND" | "OR"): CompiledFilter {
+  if (!parts.length) {
+    return { sql: "1 = 1", bindings: [] };
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  return {
+    sql: parts.map((part) => `(${part.sql})`).join(` ${glue} `),
+    bindings: parts.flatMap((part) => part.bindings),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
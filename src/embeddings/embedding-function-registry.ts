@@ -0,0 +1,91 @@
+import {
+  EmbeddingFunctionConfig,
+  HashingEmbeddingFunctionConfig,
+  HttpEmbeddingFunctionConfig,
+} from "../types/embedding-function-config";
+import { InvalidArgumentError } from "../utils/errors";
+import { EmbeddingFunction } from "./embedding-function";
+import { HashingEmbeddingFunction } from "./hashing-embedding-function";
+import { HttpEmbeddingFunction } from "./http-embedding-function";
+
+export type EmbeddingFunctionFactory = (
+  config: EmbeddingFunctionConfig,
+  numberOfDimensions: number
+) => EmbeddingFunction;
+
+const DIMENSION_PROBE_TEXT = "ad-chroma dimension probe";
+
+/**
+ * Maps the `name` of a collection's embedding function config to a factory.
+ * The built-in `hashing` and `http` functions are always registered.
+ */
+export class EmbeddingFunctionRegistry {
+  private _factories: Record<string, EmbeddingFunctionFactory>;
+
+  constructor() {
+    this._factories = {};
+
+    this.register(
+      "hashing",
+      (config, numberOfDimensions) =>
+        new HashingEmbeddingFunction(
+          (config as HashingEmbeddingFunctionConfig).dimensions ??
+            numberOfDimensions
+        )
+    );
+    this.register(
+      "http",
+      (config) => new HttpEmbeddingFunction(config as HttpEmbeddingFunctionConfig)
+    );
+  }
+
+  public register(name: string, factory: EmbeddingFunctionFactory) {
+    this._factories[name] = factory;
+  }
+
+  public create(
+    config: EmbeddingFunctionConfig,
+    numberOfDimensions: number
+  ): EmbeddingFunction {
+    const factory = this._factories[config.name];
+    if (!factory) {
+      throw new InvalidArgumentError(
+        `Unknown embedding function ${config.name}`
+      );
+    }
+
+    return factory(config, numberOfDimensions);
+  }
+
+  /**
+   * Embeds a probe text to check the function produces vectors of the
+   * collection's dimension, so a mismatch is caught before any data is added.
+   */
+  public async verify(
+    config: EmbeddingFunctionConfig,
+    numberOfDimensions: number
+  ) {
+    let embeddings: number[][];
+    try {
+      embeddings = await this.create(config, numberOfDimensions).generate([
+        DIMENSION_PROBE_TEXT,
+      ]);
+    } catch (err) {
+      if (err instanceof InvalidArgumentError) {
+        throw err;
+      }
+      throw new InvalidArgumentError(
+        `Unable to verify embedding function ${config.name}: ${
+          (err as Error).message
+        }`
+      );
+    }
+
+    const dimension = embeddings[0]?.length;
+    if (dimension !== numberOfDimensions) {
+      throw new InvalidArgumentError(
+        `Embedding function ${config.name} produces embeddings of dimension ${dimension}, but the collection expects ${numberOfDimensions}`
+      );
+    }
+  }
+}
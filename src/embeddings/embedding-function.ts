@@ -0,0 +1,7 @@
+/**
+ * Turns documents or query texts into embeddings on the server, so clients can
+ * send raw text instead of precomputed vectors.
+ */
+export interface EmbeddingFunction {
+  generate(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,46 @@
+import { EmbeddingFunction } from "./embedding-function";
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const SIGN_SEED = 0x9e3779b9;
+
+/**
+ * Offline embedder based on the hashing trick: every word and pair of
+ * adjacent words is hashed into one of `dimensions` buckets with a hashed
+ * sign, and the result is L2-normalised. It needs no model, so it is a cheap
+ * default for keyword-like similarity and for tests.
+ */
+export class HashingEmbeddingFunction implements EmbeddingFunction {
+  constructor(private dimensions: number) {}
+
+  public async generate(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words: string[] =
+      text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = words.concat(
+      words.slice(1).map((word, i) => `${words[i]} ${word}`)
+    );
+
+    for (const feature of features) {
+      const bucket = fnv1a(feature, FNV_OFFSET_BASIS) % this.dimensions;
+      const sign = fnv1a(feature, SIGN_SEED) & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  }
+}
+
+function fnv1a(value: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,110 @@
+import * as http from "http";
+import * as https from "https";
+import { HttpEmbeddingFunctionConfig } from "../types/embedding-function-config";
+import { EmbeddingFunction } from "./embedding-function";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+type EmbeddingResponse = {
+  // OpenAI-compatible servers, e.g. vLLM, llama.cpp or text-embeddings-inference
+  data?: { embedding: number[]; index?: number }[];
+  // Ollama's /api/embed
+  embeddings?: number[][];
+};
+
+/**
+ * Calls an embedding server over HTTP. The request body is
+ * `{ input: string[], model?: string }` and either an OpenAI-style
+ * `{ data: [{ embedding }] }` or an `{ embeddings: number[][] }` response is
+ * accepted, which covers most local model servers. Headers named in
+ * `headerEnv` are read from the environment on every request.
+ */
+export class HttpEmbeddingFunction implements EmbeddingFunction {
+  constructor(private config: HttpEmbeddingFunctionConfig) {}
+
+  public async generate(texts: string[]): Promise<number[][]> {
+    const body = JSON.stringify({ input: texts, model: this.config.model });
+    const response: EmbeddingResponse = JSON.parse(await this.post(body));
+
+    let embeddings: number[][];
+    if (response.data) {
+      embeddings = [...response.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(({ embedding }) => embedding);
+    } else if (response.embeddings) {
+      embeddings = response.embeddings;
+    } else {
+      throw new Error(
+        `Embedding server at ${this.config.url} returned no embeddings`
+      );
+    }
+
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `Embedding server at ${this.config.url} returned ${embeddings.length} embeddings for ${texts.length} texts`
+      );
+    }
+
+    return embeddings;
+  }
+
+  private headersFromEnv(): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.config.headerEnv ?? {}).map(([header, variable]) => {
+        const value = process.env[variable];
+        if (value === undefined) {
+          throw new Error(
+            `Environment variable ${variable} for the ${header} header of the embedding server at ${this.config.url} is not set`
+          );
+        }
+        return [header, value];
+      })
+    );
+  }
+
+  private post(body: string): Promise<string> {
+    const url = new URL(this.config.url);
+    const client = url.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+            ...this.config.headers,
+            ...this.headersFromEnv(),
+          },
+          timeout: this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("error", reject);
+          response.on("end", () => {
+            const text = Buffer.concat(chunks).toString("utf8");
+            if (response.statusCode < 200 || response.statusCode >= 300) {
+              reject(
+                new Error(
+                  `Embedding server at ${this.config.url} responded with ${response.statusCode}: ${text}`
+                )
+              );
+              return;
+            }
+            resolve(text);
+          });
+        }
+      );
+
+      request.on("timeout", () => {
+        request.destroy(
+          new Error(`Embedding server at ${this.config.url} timed out`)
+        );
+      });
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { CollectionRow, CollectionRowMetadata } from "../types/collection-row";
+
+/**
+ * Collection metadata as it may leave the server, without the literal
+ * `headers` of its embedding function, which tend to carry tokens. Secret
+ * headers belong in `headerEnv`, which only names environment variables.
+ */
+export function redactCollectionMetadata(
+  metadata: CollectionRowMetadata
+): CollectionRowMetadata {
+  if (!metadata.embeddingFunction) {
+    return metadata;
+  }
+
+  const { headers, ...embeddingFunction } = metadata.embeddingFunction as {
+    name: string;
+    headers?: unknown;
+  };
+  return { ...metadata, embeddingFunction };
+}
+
+export function redactCollectionRow(row: CollectionRow): CollectionRow {
+  const metadata = redactCollectionMetadata(JSON.parse(row.metadata));
+  return { ...row, metadata: JSON.stringify(metadata) };
+}
@@ -0,0 +1,223 @@
+import {
+  existsSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { basename, resolve } from "path";
+import { CollectionRowMetadata } from "../types/collection-row";
+import { Db } from "../types/db";
+import {
+  ImportCheckpoint,
+  ImportOptions,
+  ImportPosition,
+  ImportRecord,
+  ImportResult,
+} from "../types/import-options";
+import { Logger } from "../types/logger";
+import { InvalidArgumentError, NotFoundError } from "../utils/errors";
+import { Validators } from "../utils/validators";
+import { CsvSource } from "./csv-source";
+import { JsonlSource } from "./jsonl-source";
+import { NpySource } from "./npy-source";
+import { RecordSource, SourceRecord } from "./record-source";
+
+// A Db, or anything with the same two operations such as a client transport
+export type ImportTarget = Pick<Db, "listCollections" | "upsertEmbeddings">;
+
+const DEFAULT_BATCH_SIZE = 1000;
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Streams records from a JSONL, CSV or `.npy` file into a collection in
+ * batches. Batches are upserted, so a batch written again after an
+ * interruption replaces itself rather than failing. Records without an id get
+ * one derived from the file name and their position, which keeps that true
+ * for them as well.
+ */
+export class CollectionImporter {
+  private _validator: Validators;
+
+  constructor(private db: ImportTarget, private logger: Logger) {
+    this._validator = new Validators();
+  }
+
+  public async run(options: ImportOptions): Promise<ImportResult> {
+    this._validator.assertValid(this._validator.validateImportOptions(options));
+
+    const { collectionName, path, checkpointPath, onProgress } = options;
+    const collection = (await this.db.listCollections()).find(
+      ({ name }) => name === collectionName
+    );
+    if (!collection) {
+      throw new NotFoundError(
+        `Unable to import into a non-existent collection by name ${collectionName}`
+      );
+    }
+    const { numberOfDimensions }: CollectionRowMetadata = JSON.parse(
+      collection.metadata
+    );
+
+    const totalBytes = statSync(path).size;
+    const resumedFrom = checkpointPath
+      ? this.readCheckpoint(options)
+      : undefined;
+    if (resumedFrom) {
+      this.logger.info(
+        `Resuming import of ${path} into ${collectionName} after record ${resumedFrom.records}`
+      );
+    }
+
+    let position: ImportPosition = resumedFrom ?? { records: 0, byteOffset: 0 };
+    let imported = 0;
+    let batch: SourceRecord[] = [];
+
+    const flush = async () => {
+      if (!batch.length) {
+        return;
+      }
+
+      await this.writeBatch(collectionName, batch.map(({ record }) => record));
+      imported += batch.length;
+      position = batch[batch.length - 1].position;
+      batch = [];
+
+      if (checkpointPath) {
+        this.writeCheckpoint(options, position);
+      }
+      onProgress?.({
+        collectionName,
+        processed: position.records,
+        imported,
+        bytesRead: position.byteOffset,
+        totalBytes,
+      });
+    };
+
+    const source = this.createSource(options);
+    for await (const sourceRecord of source.read(resumedFrom)) {
+      const { record, position: recordPosition } = sourceRecord;
+      if (record.embedding && record.embedding.length !== numberOfDimensions) {
+        throw new InvalidArgumentError(
+          `Record ${recordPosition.records} of ${path} has dimension ${record.embedding.length}, but collection ${collectionName} expects ${numberOfDimensions}`
+        );
+      }
+      record.id ??= `${basename(path)}:${recordPosition.records}`;
+
+      batch.push(sourceRecord);
+      if (batch.length >= (options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+        await flush();
+      }
+    }
+    await flush();
+
+    if (checkpointPath && existsSync(checkpointPath)) {
+      rmSync(checkpointPath);
+    }
+    this.logger.info(
+      `Imported ${imported} records from ${path} into ${collectionName}`
+    );
+
+    return { processed: position.records, imported, resumedFrom };
+  }
+
+  private createSource(options: ImportOptions): RecordSource {
+    const { format, path, mapping, delimiter, idsPath } = options;
+    switch (format) {
+      case "jsonl":
+        return new JsonlSource(path, mapping);
+      case "csv":
+        return new CsvSource(path, mapping, delimiter);
+      case "npy":
+        if (!idsPath) {
+          throw new InvalidArgumentError(
+            "Importing a .npy file needs an idsPath with one id per row"
+          );
+        }
+        return new NpySource(path, idsPath);
+    }
+  }
+
+  /**
+   * Records within a batch must all carry an embedding, or all be embedded by
+   * the collection's embedding function from their documents.
+   */
+  private async writeBatch(collectionName: string, records: ImportRecord[]) {
+    const withEmbedding = records.filter(({ embedding }) => embedding).length;
+    if (withEmbedding && withEmbedding !== records.length) {
+      throw new InvalidArgumentError(
+        "Either every record or none must have an embedding"
+      );
+    }
+
+    await this.db.upsertEmbeddings({
+      collectionName,
+      ids: records.map(({ id }) => id),
+      embeddings: withEmbedding
+        ? records.map(({ embedding }) => embedding)
+        : undefined,
+      documents: records.some(({ document }) => document !== undefined)
+        ? records.map(({ document }) => document ?? "")
+        : undefined,
+      documentIds: records.some(({ documentId }) => documentId !== undefined)
+        ? records.map(({ documentId }) => documentId ?? "")
+        : undefined,
+      metadatas: records.some(({ metadata }) => metadata)
+        ? records.map(({ metadata }) => metadata ?? {})
+        : undefined,
+    });
+  }
+
+  /**
+   * Returns where to resume from, or undefined when there is no checkpoint.
+   * A checkpoint of another collection or of a file that changed since is
+   * refused rather than silently ignored.
+   */
+  private readCheckpoint(options: ImportOptions): ImportPosition | undefined {
+    if (!existsSync(options.checkpointPath)) {
+      return undefined;
+    }
+
+    const checkpoint: ImportCheckpoint = JSON.parse(
+      readFileSync(options.checkpointPath, "utf8")
+    );
+    const expected = this.checkpointFor(options, checkpoint.position);
+    if (
+      checkpoint.version !== CHECKPOINT_VERSION ||
+      JSON.stringify({ ...checkpoint, position: undefined }) !==
+        JSON.stringify({ ...expected, position: undefined })
+    ) {
+      throw new InvalidArgumentError(
+        `Checkpoint ${options.checkpointPath} does not belong to this import of ${options.path}, or the file changed since. Remove it to start over`
+      );
+    }
+
+    return checkpoint.position;
+  }
+
+  private writeCheckpoint(options: ImportOptions, position: ImportPosition) {
+    // Written aside and renamed so an interruption never leaves half a file
+    const temporaryPath = `${options.checkpointPath}.tmp`;
+    writeFileSync(
+      temporaryPath,
+      JSON.stringify(this.checkpointFor(options, position))
+    );
+    renameSync(temporaryPath, options.checkpointPath);
+  }
+
+  private checkpointFor(
+    { collectionName, format, path }: ImportOptions,
+    position: ImportPosition
+  ): ImportCheckpoint {
+    const { size, mtimeMs } = statSync(path);
+    return {
+      version: CHECKPOINT_VERSION,
+      collectionName,
+      format,
+      source: { path: resolve(path), size, mtimeMs },
+      position,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { ImportColumnMapping, ImportPosition } from "../types/import-options";
+import { InvalidArgumentError } from "../utils/errors";
+import { Line, readLines } from "./read-lines";
+import { mapRecord, RecordSource, SourceRecord } from "./record-source";
+
+/**
+ * Reads CSV with a header row naming the columns. Fields may be quoted with
+ * `"`, in which case they can contain the delimiter, line breaks and doubled
+ * quotes. Blank lines are skipped.
+ */
+export class CsvSource implements RecordSource {
+  constructor(
+    private path: string,
+    private mapping: ImportColumnMapping = {},
+    private delimiter: string = ","
+  ) {}
+
+  public async *read(from?: ImportPosition): AsyncGenerator<SourceRecord> {
+    let columns: string[] | undefined;
+    let records = from?.records ?? 0;
+
+    // The header is read again on resume, then reading skips to the position
+    const lines = readLines(this.path);
+    for await (const { fields, end } of this.readRows(lines)) {
+      if (!columns) {
+        columns = fields;
+        if (from && from.byteOffset > end) {
+          yield* this.readRecords(columns, records, from.byteOffset);
+          return;
+        }
+        continue;
+      }
+
+      records += 1;
+      yield this.toSourceRecord(columns, fields, records, end);
+    }
+  }
+
+  private async *readRecords(
+    columns: string[],
+    records: number,
+    byteOffset: number
+  ): AsyncGenerator<SourceRecord> {
+    for await (const { fields, end } of this.readRows(
+      readLines(this.path, byteOffset)
+    )) {
+      records += 1;
+      yield this.toSourceRecord(columns, fields, records, end);
+    }
+  }
+
+  private toSourceRecord(
+    columns: string[],
+    fields: string[],
+    records: number,
+    end: number
+  ): SourceRecord {
+    if (fields.length !== columns.length) {
+      throw new InvalidArgumentError(
+        `Record ${records} of ${this.path} has ${fields.length} fields, but the header has ${columns.length}`
+      );
+    }
+
+    const named = Object.fromEntries(
+      columns.map((column, i) => [column, fields[i]])
+    );
+    return {
+      record: mapRecord(named, this.mapping, records),
+      position: { records, byteOffset: end },
+    };
+  }
+
+  /**
+   * Splits lines into rows of fields, joining lines while a quoted field is
+   * still open.
+   */
+  private async *readRows(
+    lines: AsyncIterable<Line>
+  ): AsyncGenerator<{ fields: string[]; end: number }> {
+    let fields: string[] = [];
+    let field = "";
+    let quoted = false;
+    let open = false;
+
+    for await (const { text, end } of lines) {
+      if (!open && !text.trim()) {
+        continue;
+      }
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+          if (char === '"' && text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else if (char === '"') {
+            quoted = false;
+          } else {
+            field += char;
+          }
+        } else if (char === '"') {
+          quoted = true;
+        } else if (char === this.delimiter) {
+          fields.push(field);
+          field = "";
+        } else {
+          field += char;
+        }
+      }
+
+      if (quoted) {
+        field += "\n";
+        open = true;
+        continue;
+      }
+
+      fields.push(field);
+      yield { fields, end };
+      fields = [];
+      field = "";
+      open = false;
+    }
+
+    if (open) {
+      throw new InvalidArgumentError(
+        `${this.path} ends inside a quoted field`
+      );
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { ImportColumnMapping, ImportPosition } from "../types/import-options";
+import { InvalidArgumentError } from "../utils/errors";
+import { readLines } from "./read-lines";
+import { mapRecord, RecordSource, SourceRecord } from "./record-source";
+
+/**
+ * Reads one JSON object per line. Blank lines are skipped.
+ */
+export class JsonlSource implements RecordSource {
+  constructor(private path: string, private mapping: ImportColumnMapping = {}) {}
+
+  public async *read(
+    from: ImportPosition = { records: 0, byteOffset: 0 }
+  ): AsyncGenerator<SourceRecord> {
+    let records = from.records;
+
+    for await (const { text, end } of readLines(this.path, from.byteOffset)) {
+      if (!text.trim()) {
+        continue;
+      }
+
+      records += 1;
+      let fields: unknown;
+      try {
+        fields = JSON.parse(text);
+      } catch (err) {
+        throw new InvalidArgumentError(
+          `Record ${records} of ${this.path} is not valid JSON: ${
+            (err as Error).message
+          }`
+        );
+      }
+      if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+        throw new InvalidArgumentError(
+          `Record ${records} of ${this.path} is not a JSON object`
+        );
+      }
+
+      yield {
+        record: mapRecord(fields as Record<string, unknown>, this.mapping, records),
+        position: { records, byteOffset: end },
+      };
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { createReadStream } from "fs";
+import { open } from "fs/promises";
+import { ImportPosition } from "../types/import-options";
+import { InvalidArgumentError } from "../utils/errors";
+import { readLines } from "./read-lines";
+import { RecordSource, SourceRecord } from "./record-source";
+
+const NPY_MAGIC = Buffer.from([0x93, ...Buffer.from("NUMPY")]);
+const FLOAT32_BYTES = 4;
+
+type NpyHeader = {
+  rows: number;
+  columns: number;
+  dataOffset: number;
+};
+
+/**
+ * Reads a little-endian float32 `.npy` matrix with one embedding per row.
+ * Ids come from a text file holding one id per line, in row order.
+ */
+export class NpySource implements RecordSource {
+  constructor(private path: string, private idsPath: string) {}
+
+  public async *read(from?: ImportPosition): AsyncGenerator<SourceRecord> {
+    const { rows, columns, dataOffset } = await this.readHeader();
+    const rowBytes = columns * FLOAT32_BYTES;
+    let records = from?.records ?? 0;
+
+    const ids = this.readIds(records)[Symbol.asyncIterator]();
+    let pending = Buffer.alloc(0);
+    const rowsData = createReadStream(this.path, {
+      start: dataOffset + records * rowBytes,
+    });
+
+    try {
+      for await (const chunk of rowsData) {
+        pending = Buffer.concat([pending, chunk as Buffer]);
+
+        while (pending.length >= rowBytes && records < rows) {
+          const { value: id, done } = await ids.next();
+          if (done) {
+            throw new InvalidArgumentError(
+              `${this.idsPath} has fewer ids than the ${rows} rows of ${this.path}`
+            );
+          }
+
+          const embedding: number[] = [];
+          for (let i = 0; i < columns; i++) {
+            embedding.push(pending.readFloatLE(i * FLOAT32_BYTES));
+          }
+          pending = pending.subarray(rowBytes);
+          records += 1;
+
+          yield {
+            record: { id, embedding },
+            position: {
+              records,
+              byteOffset: dataOffset + records * rowBytes,
+            },
+          };
+        }
+      }
+
+      if (records < rows) {
+        throw new InvalidArgumentError(
+          `${this.path} is truncated after ${records} of ${rows} rows`
+        );
+      }
+      if (!(await ids.next()).done) {
+        throw new InvalidArgumentError(
+          `${this.idsPath} has more ids than the ${rows} rows of ${this.path}`
+        );
+      }
+    } finally {
+      await ids.return(undefined);
+    }
+  }
+
+  private async *readIds(skip: number): AsyncGenerator<string> {
+    let skipped = 0;
+    for await (const { text } of readLines(this.idsPath)) {
+      const id = text.trim();
+      if (!id) {
+        continue;
+      }
+      if (skipped < skip) {
+        skipped += 1;
+        continue;
+      }
+      yield id;
+    }
+  }
+
+  /**
+   * Parses the header of format versions 1 to 3, e.g.
+   * `{'descr': '<f4', 'fortran_order': False, 'shape': (1000, 384), }`.
+   */
+  private async readHeader(): Promise<NpyHeader> {
+    const file = await open(this.path, "r");
+    try {
+      const prefix = Buffer.alloc(12);
+      await file.read(prefix, 0, 12, 0);
+      if (!prefix.subarray(0, 6).equals(NPY_MAGIC)) {
+        throw new InvalidArgumentError(`${this.path} is not a .npy file`);
+      }
+
+      const majorVersion = prefix[6];
+      const headerStart = majorVersion === 1 ? 10 : 12;
+      const headerLength =
+        majorVersion === 1 ? prefix.readUInt16LE(8) : prefix.readUInt32LE(8);
+      const header = Buffer.alloc(headerLength);
+      await file.read(header, 0, headerLength, headerStart);
+      const text = header.toString(majorVersion === 3 ? "utf8" : "latin1");
+
+      const descr = text.match(/'descr':\s*'([^']*)'/)?.[1];
+      const fortranOrder = text.match(/'fortran_order':\s*(True|False)/)?.[1];
+      const shape = text
+        .match(/'shape':\s*\(([^)]*)\)/)?.[1]
+        .split(",")
+        .map((dimension) => dimension.trim())
+        .filter((dimension) => dimension.length)
+        .map(Number);
+
+      if (descr !== "<f4") {
+        throw new InvalidArgumentError(
+          `${this.path} holds ${descr} values, but only little-endian float32 (<f4) is supported`
+        );
+      }
+      if (fortranOrder !== "False") {
+        throw new InvalidArgumentError(
+          `${this.path} is in Fortran order, but only C order is supported`
+        );
+      }
+      if (!shape || shape.length !== 2 || !shape[1]) {
+        throw new InvalidArgumentError(
+          `${this.path} must hold a two-dimensional matrix with at least one column`
+        );
+      }
+
+      return {
+        rows: shape[0],
+        columns: shape[1],
+        dataOffset: headerStart + headerLength,
+      };
+    } finally {
+      await file.close();
+    }
+  }
+}
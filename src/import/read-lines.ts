@@ -0,0 +1,40 @@
+import { createReadStream } from "fs";
+
+export type Line = {
+  text: string;
+  // Byte offset just past the line and its line break
+  end: number;
+};
+
+/**
+ * Streams the lines of a UTF-8 file from a byte offset, keeping track of
+ * where each one ends so a reader can later resume after it. Line breaks,
+ * including a `\r` before the `\n`, are stripped.
+ */
+export async function* readLines(
+  path: string,
+  start: number = 0
+): AsyncGenerator<Line> {
+  let pending = Buffer.alloc(0);
+  let offset = start;
+
+  for await (const chunk of createReadStream(path, { start })) {
+    pending = Buffer.concat([pending, chunk as Buffer]);
+
+    let newline: number;
+    while ((newline = pending.indexOf(0x0a)) !== -1) {
+      offset += newline + 1;
+      yield { text: decodeLine(pending.subarray(0, newline)), end: offset };
+      pending = pending.subarray(newline + 1);
+    }
+  }
+
+  if (pending.length) {
+    yield { text: decodeLine(pending), end: offset + pending.length };
+  }
+}
+
+function decodeLine(bytes: Buffer) {
+  const text = bytes.toString("utf8");
+  return text.endsWith("\r") ? text.slice(0, -1) : text;
+}
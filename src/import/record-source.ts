@@ -0,0 +1,108 @@
+import {
+  ImportColumnMapping,
+  ImportPosition,
+  ImportRecord,
+} from "../types/import-options";
+import { Metadata } from "../types/where-filter";
+import { InvalidArgumentError } from "../utils/errors";
+
+export type SourceRecord = {
+  record: ImportRecord;
+  // Where reading resumes to continue after this record
+  position: ImportPosition;
+};
+
+/**
+ * A file of records that can be read from the start or resumed from a
+ * position an earlier read reported.
+ */
+export interface RecordSource {
+  read(from?: ImportPosition): AsyncIterable<SourceRecord>;
+}
+
+/**
+ * Builds a record from named fields, reading each part from the field the
+ * mapping names for it. Text fields, as found in CSV, are parsed: embeddings
+ * as a JSON array or a list of numbers and a single metadata field as JSON.
+ */
+export function mapRecord(
+  fields: Record<string, unknown>,
+  mapping: ImportColumnMapping,
+  recordNumber: number
+): ImportRecord {
+  const field = (name: string) =>
+    fields[name] === "" || fields[name] === null ? undefined : fields[name];
+
+  const record: ImportRecord = {
+    id: optionalString(field(mapping.id ?? "id")),
+    document: optionalString(field(mapping.document ?? "document")),
+    documentId: optionalString(field(mapping.documentId ?? "documentId")),
+  };
+
+  const embedding = field(mapping.embedding ?? "embedding");
+  if (embedding !== undefined) {
+    record.embedding = parseEmbeddingField(embedding, recordNumber);
+  }
+
+  if (Array.isArray(mapping.metadata)) {
+    const metadata: Metadata = {};
+    for (const name of mapping.metadata) {
+      if (field(name) !== undefined) {
+        metadata[name] = field(name);
+      }
+    }
+    record.metadata = metadata;
+  } else {
+    const metadata = field(mapping.metadata ?? "metadata");
+    if (metadata !== undefined) {
+      record.metadata = parseMetadataField(metadata, recordNumber);
+    }
+  }
+
+  return record;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+function parseEmbeddingField(value: unknown, recordNumber: number): number[] {
+  let embedding = value;
+  if (typeof value === "string") {
+    try {
+      embedding = value.trim().startsWith("[")
+        ? JSON.parse(value)
+        : value.trim().split(/[\s,;]+/).map(Number);
+    } catch {
+      embedding = undefined;
+    }
+  }
+
+  if (
+    !Array.isArray(embedding) ||
+    !embedding.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    throw new InvalidArgumentError(
+      `Record ${recordNumber} has an embedding that is not a list of numbers`
+    );
+  }
+  return embedding;
+}
+
+function parseMetadataField(value: unknown, recordNumber: number): Metadata {
+  let metadata = value;
+  if (typeof value === "string") {
+    try {
+      metadata = JSON.parse(value);
+    } catch {
+      metadata = undefined;
+    }
+  }
+
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    throw new InvalidArgumentError(
+      `Record ${recordNumber} has metadata that is not a JSON object`
+    );
+  }
+  return metadata as Metadata;
+}
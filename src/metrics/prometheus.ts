@@ -0,0 +1,174 @@
+type Labels = Record<string, string>;
+
+// Prometheus' own defaults, in seconds
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string) {
+  return escapeHelp(value).replace(/"/g, '\\"');
+}
+
+function escapeHelp(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number) {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
+
+/**
+ * A metric family with one series per distinct set of labels, rendered in
+ * the Prometheus text exposition format.
+ */
+abstract class Metric<Series> {
+  protected series = new Map<string, { labels: Labels; value: Series }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    private type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected seriesFor(labels: Labels, create: () => Series): Series {
+    const key = JSON.stringify(Object.entries(labels).sort());
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  public reset() {
+    this.series.clear();
+  }
+
+  public render(): string {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.samples(labels, value));
+    }
+    return lines.join("\n");
+  }
+
+  protected abstract samples(labels: Labels, value: Series): string[];
+}
+
+export class Counter extends Metric<{ count: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  public inc(labels: Labels = {}, amount: number = 1) {
+    this.seriesFor(labels, () => ({ count: 0 })).count += amount;
+  }
+
+  protected samples(labels: Labels, { count }: { count: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(count)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  public set(labels: Labels, value: number) {
+    this.seriesFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected samples(labels: Labels, { value }: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+type HistogramSeries = { bucketCounts: number[]; sum: number; count: number };
+
+export class Histogram extends Metric<HistogramSeries> {
+  constructor(
+    name: string,
+    help: string,
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, "histogram");
+  }
+
+  public observe(labels: Labels, value: number) {
+    const series = this.seriesFor(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.bucketCounts[i] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  protected samples(labels: Labels, series: HistogramSeries) {
+    const lines = this.buckets.map(
+      (bound, i) =>
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: formatValue(bound),
+        })} ${series.bucketCounts[i]}`
+    );
+    lines.push(
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${series.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${series.count}`
+    );
+    return lines;
+  }
+}
+
+/**
+ * Holds metric families and renders them together for a scrape.
+ */
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.some(({ name }) => name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  public render(): string {
+    return this.metrics.map((metric) => metric.render()).join("\n") + "\n";
+  }
+}
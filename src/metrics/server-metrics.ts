@@ -0,0 +1,114 @@
+import { CollectionStats } from "../types/index-stats";
+import { DbMetrics, IndexOperation } from "../types/db-metrics";
+import { MetricsRegistry } from "./prometheus";
+
+const PREFIX = "adchroma";
+// SQLite answers most queries well under the default 5ms bucket
+const SQL_QUERY_BUCKETS = [
+  0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1,
+  0.25, 1,
+];
+
+/**
+ * The metrics the server exposes on /metrics. Request and timing metrics
+ * accumulate as the server runs, collection gauges are replaced on every
+ * scrape.
+ */
+export class ServerMetrics implements DbMetrics {
+  private registry = new MetricsRegistry();
+
+  private requests = this.registry.counter(
+    `${PREFIX}_http_requests_total`,
+    "HTTP requests by route and status code"
+  );
+  private requestDuration = this.registry.histogram(
+    `${PREFIX}_http_request_duration_seconds`,
+    "HTTP request latency by route and status code"
+  );
+  private indexOperationDuration = this.registry.histogram(
+    `${PREFIX}_index_operation_duration_seconds`,
+    "Latency of index searches, adds and saves by backend"
+  );
+  private sqlQueryDuration = this.registry.histogram(
+    `${PREFIX}_sqlite_query_duration_seconds`,
+    "Latency of SQLite queries",
+    SQL_QUERY_BUCKETS
+  );
+  private collectionEmbeddings = this.registry.gauge(
+    `${PREFIX}_collection_embeddings`,
+    "Embeddings stored for a collection"
+  );
+  private indexElements = this.registry.gauge(
+    `${PREFIX}_index_elements`,
+    "Live embeddings in a collection's index"
+  );
+  private indexDeletedElements = this.registry.gauge(
+    `${PREFIX}_index_deleted_elements`,
+    "Embeddings marked deleted that still take up room in a collection's index"
+  );
+  private indexCurrentCount = this.registry.gauge(
+    `${PREFIX}_index_current_count`,
+    "Slots in use in a collection's index, live or deleted"
+  );
+  private indexCapacity = this.registry.gauge(
+    `${PREFIX}_index_capacity`,
+    "Slots allocated in a collection's index before it has to grow"
+  );
+  private indexFileBytes = this.registry.gauge(
+    `${PREFIX}_index_file_bytes`,
+    "Size of a collection's persisted index and sidecar"
+  );
+
+  public observeRequest(
+    method: string,
+    route: string,
+    status: number,
+    seconds: number
+  ) {
+    const labels = { method, route, status: String(status) };
+    this.requests.inc(labels);
+    this.requestDuration.observe(labels, seconds);
+  }
+
+  public observeIndexOperation(
+    backend: "hnsw" | "flat",
+    operation: IndexOperation,
+    seconds: number
+  ) {
+    this.indexOperationDuration.observe({ backend, operation }, seconds);
+  }
+
+  public observeSqlQuery(seconds: number) {
+    this.sqlQueryDuration.observe({}, seconds);
+  }
+
+  /**
+   * Renders every metric, with the collection gauges set from `collections`
+   * so that deleted collections drop out.
+   */
+  public render(collections: CollectionStats[]): string {
+    const gauges = [
+      this.collectionEmbeddings,
+      this.indexElements,
+      this.indexDeletedElements,
+      this.indexCurrentCount,
+      this.indexCapacity,
+      this.indexFileBytes,
+    ];
+    for (const gauge of gauges) {
+      gauge.reset();
+    }
+
+    for (const { name, embeddingCount, index } of collections) {
+      const labels = { collection: name, backend: index.backend };
+      this.collectionEmbeddings.set({ collection: name }, embeddingCount);
+      this.indexElements.set(labels, index.elementCount);
+      this.indexDeletedElements.set(labels, index.deletedCount);
+      this.indexCurrentCount.set(labels, index.currentCount);
+      this.indexCapacity.set(labels, index.capacity);
+      this.indexFileBytes.set(labels, index.fileBytes);
+    }
+
+    return this.registry.render();
+  }
+}
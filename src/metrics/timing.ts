@@ -0,0 +1,36 @@
+import { DbMetrics, IndexOperation } from "../types/db-metrics";
+
+export function elapsedSeconds(start: bigint) {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+/**
+ * Runs an index operation, sync or async, and reports how long it took to
+ * `metrics` when there are any, whether it succeeded or not.
+ */
+export function timeIndexOperation<T>(
+  metrics: DbMetrics | undefined,
+  backend: "hnsw" | "flat",
+  operation: IndexOperation,
+  run: () => T
+): T {
+  if (!metrics) {
+    return run();
+  }
+
+  const start = process.hrtime.bigint();
+  const observe = () =>
+    metrics.observeIndexOperation(backend, operation, elapsedSeconds(start));
+  let result: T;
+  try {
+    result = run();
+  } catch (err) {
+    observe();
+    throw err;
+  }
+  if (result instanceof Promise) {
+    return result.finally(observe) as T;
+  }
+  observe();
+  return result;
+}
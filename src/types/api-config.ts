@@ -1,11 +1,19 @@
+import { AuthConfig, AuthConfigSchema } from "./auth-config";
 import { DbConfig } from "./db-config";
 
 export type ApiConfig = {
   port: number;
   host?: string;
+  // Requests are not authenticated when omitted
+  auth?: AuthConfig;
+  // Serves Prometheus metrics on /metrics, which needs the admin scope when
+  // requests are authenticated
+  metrics?: boolean;
 } & DbConfig;
 
 export const ApiConfigSchema = {
   port: "number|positive|integer",
   host: "string|optional",
+  auth: AuthConfigSchema,
+  metrics: "boolean|optional",
 } as const;
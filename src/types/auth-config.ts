@@ -0,0 +1,42 @@
+export type AuthRole = "admin" | "writer" | "reader";
+
+export type AuthCredential = {
+  // Shown in logs instead of the secret
+  name: string;
+  secret: string;
+  role: AuthRole;
+  // When set, the credential can only reach collections with these names
+  collections?: string[];
+};
+
+/**
+ * API keys are sent in an `X-Api-Key` header, bearer tokens in an
+ * `Authorization: Bearer <token>` header.
+ */
+export type AuthConfig = {
+  apiKeys?: AuthCredential[];
+  bearerTokens?: AuthCredential[];
+};
+
+const AuthCredentialSchema = {
+  type: "object",
+  props: {
+    name: "string|empty:false",
+    secret: "string|min:16",
+    role: { type: "enum", values: ["admin", "writer", "reader"] },
+    collections: { type: "array", items: "string", optional: true },
+  },
+} as const;
+
+export const AuthConfigSchema = {
+  type: "object",
+  optional: true,
+  props: {
+    apiKeys: { type: "array", items: AuthCredentialSchema, optional: true },
+    bearerTokens: {
+      type: "array",
+      items: AuthCredentialSchema,
+      optional: true,
+    },
+  },
+} as const;
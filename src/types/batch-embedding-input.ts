@@ -0,0 +1,36 @@
+import { Metadata } from "./where-filter";
+
+/**
+ * A batch of embeddings for one collection, given as parallel arrays. Every
+ * array that is present must have the same length. Ids are generated for the
+ * batch when `ids` is omitted, and embeddings are generated from `documents`
+ * when the collection has an embedding function.
+ */
+export type BatchEmbeddingInput = {
+  collectionName: string;
+  ids?: string[];
+  embeddings?: number[][];
+  documents?: string[];
+  documentIds?: string[];
+  metadatas?: Metadata[];
+};
+
+export type BatchItemError = {
+  index: number;
+  id?: string;
+  message: string;
+};
+
+export const BatchEmbeddingInputSchema = {
+  collectionName: "string|required",
+  ids: { type: "array", items: "string|empty:false", optional: true },
+  embeddings: {
+    type: "array",
+    empty: false,
+    optional: true,
+    items: { type: "array", empty: false, items: "number|finite" },
+  },
+  documents: { type: "array", items: "string", optional: true },
+  documentIds: { type: "array", items: "string", optional: true },
+  metadatas: { type: "array", items: "object", optional: true },
+} as const;
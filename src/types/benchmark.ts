@@ -0,0 +1,66 @@
+import { IndexBackend } from "./vector-index";
+
+export type BenchmarkOptions = {
+  // Results per query that recall is measured over
+  k?: number;
+  // Values of sizeOfDynamicListOfNearestNeighbors to search with
+  efValues?: number[];
+  // Query embeddings to use. Without them, queryCount stored embeddings are
+  // sampled as queries
+  queries?: number[][];
+  queryCount?: number;
+  // Makes the sampled query set repeatable
+  seed?: number;
+};
+
+export type LatencyPercentiles = {
+  p50: number;
+  p95: number;
+  p99: number;
+};
+
+export type BenchmarkRun = {
+  ef: number;
+  // Mean share of the exact k nearest neighbours found by the index search
+  recall: number;
+  latencyMs: LatencyPercentiles;
+  queriesPerSecond: number;
+};
+
+/**
+ * Outcome of a benchmark, meant to be stored as JSON and compared across
+ * releases.
+ */
+export type BenchmarkResult = {
+  collectionName: string;
+  backend: IndexBackend;
+  space: string;
+  numberOfDimensions: number;
+  elementCount: number;
+  k: number;
+  querySource: "sampled" | "provided";
+  queryCount: number;
+  seed?: number;
+  // Time taken by the brute force search for the exact neighbours
+  groundTruthMs: number;
+  runs: BenchmarkRun[];
+  createdAt: string;
+};
+
+export const BenchmarkOptionsSchema = {
+  k: "number|positive|integer|optional",
+  efValues: {
+    type: "array",
+    items: "number|positive|integer",
+    min: 1,
+    optional: true,
+  },
+  queries: {
+    type: "array",
+    items: { type: "array", items: "number", min: 1 },
+    min: 1,
+    optional: true,
+  },
+  queryCount: "number|positive|integer|optional",
+  seed: "number|integer|optional",
+} as const;
@@ -1,3 +1,14 @@
+import { SpaceName } from "hnswlib-node";
+import {
+  EmbeddingFunctionConfig,
+  EmbeddingFunctionConfigSchema,
+} from "./embedding-function-config";
+import {
+  EMBEDDING_QUANTIZATIONS,
+  EmbeddingQuantization,
+} from "./embedding-quantization";
+import { INDEX_BACKENDS, IndexBackend } from "./vector-index";
+
 export type CollectionRow = {
   id: string;
   name: string;
@@ -9,6 +20,18 @@ export type CollectionRowMetadata = {
   maxElements?: number;
   sizeOfDynamicListOfNearestNeighbors?: number;
   indexResizeFactor?: number;
+  space?: SpaceName; // Collections created before this was stored use cosine
+  // Used to embed documents and query texts sent without an embedding
+  embeddingFunction?: EmbeddingFunctionConfig;
+  // hnsw graph settings, applied when the index is built. Collections without
+  // them use hnswlib's defaults
+  M?: number;
+  efConstruction?: number;
+  randomSeed?: number;
+  indexBackend?: IndexBackend; // Collections without one use hnsw
+  // Size an `auto` collection is promoted from a flat index to hnsw at
+  flatIndexThreshold?: number;
+  quantization?: EmbeddingQuantization; // Collections without one store float32
 };
 
 export const CollectionRowMetadatachema = {
@@ -16,4 +39,16 @@ export const CollectionRowMetadatachema = {
   maxElements: "number|positive|integer|optional",
   sizeOfDynamicListOfNearestNeighbors: "number|positive|integer|optional",
   indexResizeFactor: { type: "number", positive: true, default: 1 },
+  space: { type: "enum", values: ["l2", "ip", "cosine"], optional: true },
+  embeddingFunction: EmbeddingFunctionConfigSchema,
+  M: "number|integer|min:2|optional",
+  efConstruction: "number|positive|integer|optional",
+  randomSeed: "number|integer|min:0|optional",
+  indexBackend: { type: "enum", values: INDEX_BACKENDS, optional: true },
+  flatIndexThreshold: "number|positive|integer|optional",
+  quantization: {
+    type: "enum",
+    values: EMBEDDING_QUANTIZATIONS,
+    optional: true,
+  },
 } as const;
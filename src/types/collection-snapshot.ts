@@ -0,0 +1,72 @@
+import { CollectionRowMetadata } from "./collection-row";
+import { IndexSidecar } from "./index-metadata";
+import { Metadata } from "./where-filter";
+
+export type SnapshotRecord = {
+  id: string;
+  embedding: number[];
+  document?: string;
+  documentId?: string;
+  metadata?: Metadata;
+};
+
+export const SnapshotRecordSchema = {
+  id: "string|empty:false",
+  embedding: { type: "array", empty: false, items: "number|finite" },
+  document: "string|optional",
+  documentId: "string|optional",
+  metadata: "object|optional",
+} as const;
+
+export type IndexSnapshot = {
+  index: Buffer; // The `.bin` file of the collection's index backend
+  sidecar: IndexSidecar;
+};
+
+/**
+ * Everything needed to recreate a collection, as exported by the Db layer.
+ * The index is omitted when the collection has never had one written.
+ */
+export type CollectionSnapshot = {
+  name: string;
+  metadata: CollectionRowMetadata;
+  records: SnapshotRecord[];
+  index?: IndexSnapshot;
+};
+
+export type SnapshotManifestFile = {
+  sha256: string;
+  bytes: number;
+};
+
+export type SnapshotManifest = {
+  formatVersion: number;
+  createdAt: string;
+  collection: {
+    name: string;
+    numberOfDimensions: number;
+    recordCount: number;
+  };
+  files: Record<string, SnapshotManifestFile>;
+};
+
+export const SnapshotManifestSchema = {
+  formatVersion: "number|integer",
+  createdAt: "string",
+  collection: {
+    type: "object",
+    props: {
+      name: "string",
+      numberOfDimensions: "number|integer|positive",
+      recordCount: "number|integer|min:0",
+    },
+  },
+  files: {
+    type: "record",
+    key: "string",
+    value: {
+      type: "object",
+      props: { sha256: "string", bytes: "number|integer|min:0" },
+    },
+  },
+} as const;
@@ -0,0 +1,36 @@
+import { ClientTransport } from "../client/client-transport";
+import { Db } from "./db";
+
+/**
+ * One behaviour every Db implementation must share. Each case runs against
+ * a fresh, initialized Db and throws when the behaviour differs.
+ */
+export type ConformanceCase = {
+  name: string;
+  run: (db: Db) => Promise<void>;
+};
+
+/**
+ * One behaviour of the HTTP API. Each case runs against a fresh server and
+ * `connect` returns a transport that sends the given API key.
+ */
+export type ApiConformanceCase = {
+  name: string;
+  run: (connect: (apiKey: string) => ClientTransport) => Promise<void>;
+};
+
+export type ConformanceCaseResult = {
+  name: string;
+  passed: boolean;
+  // Why the case failed
+  error?: string;
+  durationMs: number;
+};
+
+export type ConformanceReport = {
+  // Name of the Db implementation or API server the suite ran against
+  implementation: string;
+  results: ConformanceCaseResult[];
+  passed: number;
+  failed: number;
+};
@@ -1,9 +1,17 @@
 export type DbConfig = {
   persistDirectory: string;
   dbName: string;
+  // An index is written to disk once this many of its embeddings changed,
+  // 1 writes it after every change
+  indexFlushEveryMutations?: number;
+  // ...or this long after its first unwritten change, 0 only flushes by count
+  // and on close
+  indexFlushIntervalMs?: number;
 };
 
 export const DbConfigSchema = {
   persistDirectory: "string|required",
   dbName: "string|required",
+  indexFlushEveryMutations: "number|positive|integer|optional",
+  indexFlushIntervalMs: "number|integer|min:0|optional",
 } as const;
@@ -0,0 +1,14 @@
+export type IndexOperation = "search" | "add" | "save";
+
+/**
+ * Receives timings from the Db layer and its indexes, e.g. to expose them
+ * as Prometheus metrics. Durations are in seconds.
+ */
+export interface DbMetrics {
+  observeIndexOperation(
+    backend: "hnsw" | "flat",
+    operation: IndexOperation,
+    seconds: number
+  ): void;
+  observeSqlQuery(seconds: number): void;
+}
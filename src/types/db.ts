@@ -1,10 +1,28 @@
+import { BatchEmbeddingInput } from "./batch-embedding-input";
+import { BenchmarkOptions, BenchmarkResult } from "./benchmark";
 import { CollectionRow, CollectionRowMetadata } from "./collection-row";
+import { CollectionSnapshot } from "./collection-snapshot";
 import { EmbeddingInput } from "./embedding-input";
-import { EmbeddingRow } from "./embedding-row";
+import { EmbeddingPage } from "./embedding-page";
+import { EmbeddingRow, ProjectedEmbeddingRow } from "./embedding-row";
+import { CollectionStats } from "./index-stats";
+import { DbHealth } from "./health";
 import { SearchResult } from "./index-search-result";
-import { QueryInput, SearchQueryInput } from "./query-input";
+import { GetInput, SearchQueryInput } from "./query-input";
 
 export interface Db {
+  /** Prepares the schema, nothing else may be called before it finished */
+  init(): Promise<void>;
+  loadIndexes(): Promise<void>;
+  reindexCollection(name: string): Promise<number>;
+  benchmarkCollection(
+    name: string,
+    options?: BenchmarkOptions
+  ): Promise<BenchmarkResult>;
+  collectionStats(): Promise<CollectionStats[]>;
+  checkHealth(): Promise<DbHealth>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
   createCollection(
     name: string,
     metadata: CollectionRowMetadata,
@@ -13,15 +31,29 @@ export interface Db {
   listCollections(): Promise<CollectionRow[]>;
   updateCollection(
     currentName: string,
-    newName: string,
-    newMetadata: CollectionRowMetadata
-  ): {};
-  addEmbeddingToCollection(input: EmbeddingInput): {};
+    newName?: string,
+    newMetadata?: Partial<CollectionRowMetadata>
+  ): Promise<CollectionRow>;
+  deleteCollection(name: string): Promise<void>;
+  exportCollection(name: string): Promise<CollectionSnapshot>;
+  importCollection(
+    snapshot: CollectionSnapshot,
+    newName?: string,
+    idPrefix?: string
+  ): Promise<CollectionRow>;
+  peek(collectionName: string, n?: number): Promise<EmbeddingRow[]>;
+  addEmbeddingToCollection(input: EmbeddingInput): Promise<string>;
+  addEmbeddings(input: BatchEmbeddingInput): Promise<string[]>;
+  upsertEmbeddings(input: BatchEmbeddingInput): Promise<string[]>;
   updateEmbedding(
     input: EmbeddingInput & { embeddingId: string }
   ): Promise<void>;
-  get(queryInput: QueryInput): Promise<EmbeddingRow[]>;
+  get(queryInput: GetInput): Promise<ProjectedEmbeddingRow[]>;
+  getPage(queryInput: GetInput): Promise<EmbeddingPage>;
   getNearestNeighbors(queryInput: SearchQueryInput): Promise<SearchResult[]>;
-  countEmbeddingsByCollectionName(collectionName: string): {};
-  deleteEmbedding(collectionName: string, embeddingId: string): {};
+  getNearestNeighborsBatch(
+    queryInput: SearchQueryInput
+  ): Promise<SearchResult[][]>;
+  countEmbeddingsByCollectionName(collectionName: string): Promise<number>;
+  deleteEmbedding(collectionName: string, embeddingId: string): Promise<void>;
 }
@@ -0,0 +1,44 @@
+export type HashingEmbeddingFunctionConfig = {
+  name: "hashing";
+  // Defaults to the collection's numberOfDimensions
+  dimensions?: number;
+};
+
+export type HttpEmbeddingFunctionConfig = {
+  name: "http";
+  url: string;
+  model?: string;
+  // Sent as given, but never handed back with the collection's metadata
+  headers?: Record<string, string>;
+  // Header name to the environment variable the server reads its value from
+  // on every request, for tokens that must not be stored with the collection
+  headerEnv?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+/**
+ * Selects the embedding function of a collection. Custom functions registered
+ * with an EmbeddingFunctionRegistry are configured with their own name.
+ */
+export type EmbeddingFunctionConfig =
+  | HashingEmbeddingFunctionConfig
+  | HttpEmbeddingFunctionConfig
+  | { name: string; [option: string]: unknown };
+
+export const EmbeddingFunctionConfigSchema = {
+  type: "object",
+  optional: true,
+  props: {
+    name: "string|empty:false",
+    dimensions: "number|positive|integer|optional",
+    url: "url|optional",
+    model: "string|optional",
+    headers: { type: "record", value: "string", optional: true },
+    headerEnv: {
+      type: "record",
+      value: "string|empty:false",
+      optional: true,
+    },
+    timeoutMs: "number|positive|integer|optional",
+  },
+} as const;
@@ -1,9 +1,10 @@
+import { Metadata } from "./where-filter";
+
 export type EmbeddingInput = {
   collectionName: string;
-  embedding: number[];
+  // Generated from the document when the collection has an embedding function
+  embedding?: number[];
   documentId: string;
   document: string;
-  arg1?: string;
-  arg2?: string;
-  arg3?: string;
+  metadata?: Metadata;
 };
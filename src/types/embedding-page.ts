@@ -0,0 +1,9 @@
+import { ProjectedEmbeddingRow } from "./embedding-row";
+
+export type EmbeddingPage = {
+  rows: ProjectedEmbeddingRow[];
+  // Number of rows matching the filters, across all pages
+  total: number;
+  // Set when more rows follow, pass it as the cursor of the next get
+  nextCursor?: string;
+};
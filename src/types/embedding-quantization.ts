@@ -0,0 +1,9 @@
+/**
+ * How a collection stores its embeddings:
+ * - `none`: little-endian float32, 4 bytes per dimension
+ * - `int8`: one signed byte per dimension plus a float32 scale per embedding,
+ *   so about a quarter of the size at the cost of precision
+ */
+export type EmbeddingQuantization = "none" | "int8";
+
+export const EMBEDDING_QUANTIZATIONS: EmbeddingQuantization[] = ["none", "int8"];
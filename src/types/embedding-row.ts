@@ -1,10 +1,29 @@
+import { Metadata } from "./where-filter";
+
 export type EmbeddingRow = {
   id: string;
   collectionId: string;
-  embedding: string;
+  embedding: number[];
   documentId?: string;
   document?: string;
-  arg1?: string;
-  arg2?: string;
-  arg3?: string;
+  metadata?: Metadata;
 };
+
+/**
+ * A row as the embeddings table holds it, with the embedding encoded as a
+ * BLOB and the metadata as JSON text. Databases not migrated yet hold the
+ * embedding as TEXT instead.
+ */
+export type StoredEmbeddingRow = Omit<
+  EmbeddingRow,
+  "embedding" | "metadata"
+> & {
+  embedding: Buffer | string;
+  metadata?: string;
+};
+
+/**
+ * A row with only the columns an `include` asked for.
+ */
+export type ProjectedEmbeddingRow = Pick<EmbeddingRow, "id" | "collectionId"> &
+  Partial<EmbeddingRow>;
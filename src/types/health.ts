@@ -0,0 +1,37 @@
+export type CollectionHealth = {
+  id: string;
+  name: string;
+  // Whether the index is loaded and cached, indexes load on first use
+  // otherwise
+  loaded: boolean;
+  // Live embeddings in the loaded index
+  elementCount?: number;
+  // Rows in the embeddings table
+  embeddingCount: number;
+  // Why the index last failed to load or rebuild
+  error?: string;
+};
+
+export type DbHealth = {
+  // Whether SQLite answered a probe query
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+  collections: CollectionHealth[];
+};
+
+/**
+ * - `starting`: indexes are still loading
+ * - `ready`: SQLite answers and every loaded index is usable
+ * - `degraded`: SQLite answers but a collection's index failed
+ * - `unavailable`: SQLite does not answer or startup failed
+ */
+export type ReadinessStatus = "starting" | "ready" | "degraded" | "unavailable";
+
+export type ReadinessReport = {
+  status: ReadinessStatus;
+  ready: boolean;
+  db: Omit<DbHealth, "collections">;
+  // Left out for unauthenticated requests when auth is enabled
+  collections?: CollectionHealth[];
+};
@@ -0,0 +1,23 @@
+export type HttpClientOptions = {
+  // Base URL of the server, e.g. http://localhost:8000
+  url: string;
+  // Sent as `x-api-key`
+  apiKey?: string;
+  // Sent as `Authorization: Bearer <token>`
+  bearerToken?: string;
+  // Per attempt, defaults to 30 seconds
+  timeoutMs?: number;
+  // Extra attempts after a failure that is safe to retry, defaults to 2
+  retries?: number;
+  // Doubled after every retry, defaults to 200
+  retryDelayMs?: number;
+};
+
+export const HttpClientOptionsSchema = {
+  url: "url",
+  apiKey: "string|empty:false|optional",
+  bearerToken: "string|empty:false|optional",
+  timeoutMs: "number|positive|integer|optional",
+  retries: "number|integer|min:0|optional",
+  retryDelayMs: "number|integer|min:0|optional",
+} as const;
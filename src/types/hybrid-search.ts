@@ -0,0 +1,24 @@
+/**
+ * Fuses HNSW distances with BM25 keyword scores from the document search.
+ * - `rrf`: reciprocal rank fusion, each list contributes `1 / (rrfK + rank)`
+ * - `alpha`: both scores are min-max normalised over the candidates and
+ *   combined as `alpha * vector + (1 - alpha) * keyword`
+ */
+export type HybridSearchOptions = {
+  mode?: "rrf" | "alpha";
+  alpha?: number;
+  rrfK?: number;
+  // Number of candidates taken from each of the vector and keyword searches
+  fetchK?: number;
+};
+
+export const HybridSearchOptionsSchema = {
+  type: "object",
+  optional: true,
+  props: {
+    mode: { type: "enum", values: ["rrf", "alpha"], optional: true },
+    alpha: "number|min:0|max:1|optional",
+    rrfK: "number|positive|optional",
+    fetchK: "number|positive|integer|optional",
+  },
+} as const;
@@ -0,0 +1,108 @@
+import { Metadata } from "./where-filter";
+
+export type ImportFormat = "jsonl" | "csv" | "npy";
+
+/**
+ * Names the JSONL fields or CSV columns holding each part of a record. Each
+ * defaults to the field of the same name. `metadata` is either one field
+ * holding a JSON object or a list of fields gathered into the metadata.
+ */
+export type ImportColumnMapping = {
+  id?: string;
+  embedding?: string;
+  document?: string;
+  documentId?: string;
+  metadata?: string | string[];
+};
+
+export type ImportRecord = {
+  id?: string;
+  embedding?: number[];
+  document?: string;
+  documentId?: string;
+  metadata?: Metadata;
+};
+
+/**
+ * Where a source stopped reading: records read so far and the byte offset
+ * the next record starts at.
+ */
+export type ImportPosition = {
+  records: number;
+  byteOffset: number;
+};
+
+export type ImportProgress = {
+  collectionName: string;
+  // Records read from the source, including those of an earlier run
+  processed: number;
+  // Records written by this run
+  imported: number;
+  bytesRead: number;
+  totalBytes: number;
+};
+
+export type ImportOptions = {
+  collectionName: string;
+  format: ImportFormat;
+  path: string;
+  mapping?: ImportColumnMapping;
+  // CSV only, defaults to a comma
+  delimiter?: string;
+  // .npy only: a text file with the id of each matrix row on its own line
+  idsPath?: string;
+  // Records upserted per write, defaults to 1000
+  batchSize?: number;
+  // Progress is saved here after every batch, and resumed from when present
+  checkpointPath?: string;
+  onProgress?: (progress: ImportProgress) => void;
+};
+
+export type ImportResult = {
+  processed: number;
+  imported: number;
+  resumedFrom?: ImportPosition;
+};
+
+export type ImportCheckpoint = {
+  version: number;
+  collectionName: string;
+  format: ImportFormat;
+  source: {
+    path: string;
+    size: number;
+    mtimeMs: number;
+  };
+  position: ImportPosition;
+};
+
+const fieldName = "string|empty:false|optional";
+
+export const ImportOptionsSchema = {
+  collectionName: "string|empty:false",
+  format: { type: "enum", values: ["jsonl", "csv", "npy"] },
+  path: "string|empty:false",
+  mapping: {
+    type: "object",
+    optional: true,
+    props: {
+      id: fieldName,
+      embedding: fieldName,
+      document: fieldName,
+      documentId: fieldName,
+      metadata: {
+        type: "multi",
+        optional: true,
+        rules: [
+          { type: "string", empty: false },
+          { type: "array", items: "string|empty:false" },
+        ],
+      },
+    },
+  },
+  delimiter: "string|length:1|optional",
+  idsPath: "string|empty:false|optional",
+  batchSize: "number|positive|integer|optional",
+  checkpointPath: "string|empty:false|optional",
+  onProgress: "function|optional",
+} as const;
@@ -1,3 +1,10 @@
+import { SpaceName } from "hnswlib-node";
+import {
+  EMBEDDING_QUANTIZATIONS,
+  EmbeddingQuantization,
+} from "./embedding-quantization";
+import { INDEX_BACKENDS, IndexBackend } from "./vector-index";
+
 export type IndexConfig = {
   id: string;
   persistDirectory: string;
@@ -5,6 +12,16 @@ export type IndexConfig = {
   maxElements?: number;
   sizeOfDynamicListOfNearestNeighbors?: number;
   indexResizeFactor?: number;
+  space?: SpaceName;
+  M?: number;
+  efConstruction?: number;
+  randomSeed?: number;
+  indexBackend?: IndexBackend;
+  flatIndexThreshold?: number;
+  // A flat index of an int8 collection shortlists candidates on int8 codes
+  quantization?: EmbeddingQuantization;
+  flushEveryMutations?: number;
+  flushIntervalMs?: number;
 };
 
 export const IndexConfigSchema = {
@@ -14,4 +31,17 @@ export const IndexConfigSchema = {
   maxElements: "number|positive|integer|optional",
   sizeOfDynamicListOfNearestNeighbors: "number|positive|integer|optional",
   indexResizeFactor: { type: "number", positive: true, default: 1 },
+  space: { type: "enum", values: ["l2", "ip", "cosine"], optional: true },
+  M: "number|integer|min:2|optional",
+  efConstruction: "number|positive|integer|optional",
+  randomSeed: "number|integer|min:0|optional",
+  indexBackend: { type: "enum", values: INDEX_BACKENDS, optional: true },
+  flatIndexThreshold: "number|positive|integer|optional",
+  quantization: {
+    type: "enum",
+    values: EMBEDDING_QUANTIZATIONS,
+    optional: true,
+  },
+  flushEveryMutations: "number|positive|integer|optional",
+  flushIntervalMs: "number|integer|min:0|optional",
 } as const;
@@ -1,7 +1,20 @@
-import { SpaceName } from "hnswlib-node"
+import { SpaceName } from "hnswlib-node";
 
 export type IndexMetadata = {
-  dimensionality: SpaceName,
+  space: SpaceName;
   elements: number;
   timeCreated: number;
 };
+
+/**
+ * State persisted next to an index's `.bin` file. hnswlib only stores points
+ * by numeric label, so the label mapping has to be kept alongside it. Flat
+ * indexes map ids to their row in the `.bin` file the same way.
+ */
+export type IndexSidecar = IndexMetadata & {
+  version: number;
+  // Sidecars written before flat indexes existed belong to hnsw indexes
+  backend?: "hnsw" | "flat";
+  idToLabel: Record<string, number>;
+  deletedLabels: number[];
+};
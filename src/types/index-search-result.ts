@@ -1,10 +1,28 @@
+import { Metadata } from "./where-filter";
+
 export type IndexSearchResult = {
   id: string;
+  /**
+   * Distance from the query in the collection's space, smaller is closer:
+   * - `l2`: squared Euclidean distance
+   * - `ip`: 1 minus the inner product
+   * - `cosine`: 1 minus the cosine similarity, in [0, 2]
+   */
   distance: number;
   embedding: number[];
 };
 
-export type SearchResult = IndexSearchResult & {
-  document: string;
-  documentId: string;
-};
+/**
+ * Distance, embedding, document and metadata are left out when the query's
+ * `include` does not ask for them.
+ */
+export type SearchResult = Pick<IndexSearchResult, "id"> &
+  Partial<IndexSearchResult> & {
+    document?: string;
+    documentId?: string;
+    metadata?: Metadata;
+    /** Hybrid search only: BM25 relevance to the search text, larger is better */
+    keywordScore?: number;
+    /** Hybrid search only: fused score results are ordered by, larger is better */
+    score?: number;
+  };
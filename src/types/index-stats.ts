@@ -0,0 +1,24 @@
+/**
+ * Counters of an index's internal state, for monitoring.
+ */
+export type IndexStats = {
+  backend: "hnsw" | "flat";
+  // Live embeddings
+  elementCount: number;
+  // Embeddings marked deleted but still taking up room in the index
+  deletedCount: number;
+  // Slots in use, live or deleted
+  currentCount: number;
+  // Slots allocated before the index has to grow
+  capacity: number;
+  // Bytes of the persisted index and its sidecar
+  fileBytes: number;
+};
+
+export type CollectionStats = {
+  id: string;
+  name: string;
+  // Rows in the embeddings table, which the index should match
+  embeddingCount: number;
+  index: IndexStats;
+};
@@ -0,0 +1,20 @@
+/**
+ * Maximal marginal relevance: picks results one at a time, each maximising
+ * `lambda * relevance - (1 - lambda) * redundancy`, where relevance is
+ * closeness to the query and redundancy is closeness to the nearest result
+ * already picked. Lower lambdas give more diverse results.
+ */
+export type MmrOptions = {
+  lambda?: number;
+  // Number of nearest candidates the results are picked from
+  fetchK?: number;
+};
+
+export const MmrOptionsSchema = {
+  type: "object",
+  optional: true,
+  props: {
+    lambda: "number|min:0|max:1|optional",
+    fetchK: "number|positive|integer|optional",
+  },
+} as const;
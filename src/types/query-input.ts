@@ -1,33 +1,110 @@
+import { WhereFilter } from "./where-filter";
+import { WhereDocumentFilter } from "./where-document-filter";
+import {
+  HybridSearchOptions,
+  HybridSearchOptionsSchema,
+} from "./hybrid-search";
+import { MmrOptions, MmrOptionsSchema } from "./mmr";
+
+/**
+ * Parts of a result to return besides its id. `distances` only applies to
+ * searches. Everything is returned when `include` is omitted.
+ */
+export type IncludeField = "embeddings" | "documents" | "metadatas" | "distances";
+
+export const INCLUDE_FIELDS: IncludeField[] = [
+  "embeddings",
+  "documents",
+  "metadatas",
+  "distances",
+];
+
+/**
+ * Orders results by `id` or by a metadata field given as `metadata.<key>`,
+ * with dots reaching into nested objects. Ties are broken by id.
+ */
+export type OrderBy = {
+  field: string;
+  direction?: "asc" | "desc";
+};
+
 export type QueryInput = {
   collectionName: string;
-  where: {
-    embedding: number[];
-    documentId?: string;
-    embeddingIds?: string[];
-    arg1?: string;
-    arg2?: string;
-    arg3?: string;
-  };
+  embeddingIds?: string[];
+  documentId?: string;
+  where?: WhereFilter;
+  whereDocument?: WhereDocumentFilter;
+  include?: IncludeField[];
+};
+
+export type GetInput = QueryInput & {
+  limit?: number;
+  offset?: number;
+  // Opaque, from the nextCursor of the previous page with the same orderBy
+  cursor?: string;
+  orderBy?: OrderBy;
 };
 
 export type SearchQueryInput = QueryInput & {
-  searchEmbedding: number[];
+  searchEmbedding?: number[];
+  // Embedded with the collection's embedding function when searchEmbedding is
+  // omitted, and the keyword query of a hybrid search
+  searchText?: string;
+  // Several queries at once, searched with the same filters. Texts pair up
+  // with embeddings by position, like searchText with searchEmbedding
+  searchEmbeddings?: number[][];
+  searchTexts?: string[];
   nearestNeighbors: number;
+  // sizeOfDynamicListOfNearestNeighbors for this search only, hnsw indexes
+  // trade speed for recall with it and flat indexes ignore it
+  ef?: number;
+  // Ranks by both vector distance and a keyword search for searchText
+  hybrid?: HybridSearchOptions;
+  // Diversifies the results, cannot be combined with hybrid
+  mmr?: MmrOptions;
 };
 
-export const SearchQueryInputSchema = {
+const QueryInputSchema = {
   collectionName: "string|required",
-  where: {
+  embeddingIds: { type: "array", items: "string", optional: true },
+  documentId: "string|optional",
+  where: { type: "object", optional: true },
+  whereDocument: { type: "object", optional: true },
+  include: {
+    type: "array",
+    items: { type: "enum", values: INCLUDE_FIELDS },
+    optional: true,
+  },
+} as const;
+
+export const GetInputSchema = {
+  ...QueryInputSchema,
+  limit: "number|integer:true|min:1|optional",
+  offset: "number|integer:true|min:0|optional",
+  cursor: "string|optional",
+  orderBy: {
     type: "object",
+    optional: true,
     props: {
-      embedding: { type: "array", items: "number" },
-      documentId: "string|optional",
-      embeddingIds: { type: "array", items: "string", optional: true },
-      arg1: "string|optional",
-      arg2: "string|optional",
-      arg3: "string|optional",
+      field: "string",
+      direction: { type: "enum", values: ["asc", "desc"], optional: true },
     },
   },
-  searchEmbedding: { type: "array", items: "number", required: true },
-  nearestNeighbors: "number|positive|integer:true|min:1"
+} as const;
+
+export const SearchQueryInputSchema = {
+  ...QueryInputSchema,
+  searchEmbedding: { type: "array", items: "number", optional: true },
+  searchText: "string|optional",
+  searchEmbeddings: {
+    type: "array",
+    items: { type: "array", items: "number" },
+    min: 1,
+    optional: true,
+  },
+  searchTexts: { type: "array", items: "string", min: 1, optional: true },
+  nearestNeighbors: "number|positive|integer:true|min:1",
+  ef: "number|positive|integer|optional",
+  hybrid: HybridSearchOptionsSchema,
+  mmr: MmrOptionsSchema,
 } as const;
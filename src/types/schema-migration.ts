@@ -0,0 +1,18 @@
+import { Knex } from "knex";
+import { Logger } from "./logger";
+
+/**
+ * One step in the evolution of the SQLite schema. Pending migrations run in
+ * order within one transaction, and each is recorded so it runs only once.
+ */
+export type SchemaMigration = {
+  name: string;
+  up: (knex: Knex, logger: Logger) => Promise<void>;
+};
+
+export type MigrationStatus = {
+  // Names of the migrations already run, in order
+  applied: string[];
+  // Names of the migrations still to run, in order
+  pending: string[];
+};
@@ -0,0 +1,56 @@
+import { SpaceName } from "hnswlib-node";
+import { IndexSnapshot } from "./collection-snapshot";
+import { IndexData } from "./index-data";
+import { IndexSearchResult } from "./index-search-result";
+import { IndexStats } from "./index-stats";
+
+/**
+ * How a collection searches its embeddings:
+ * - `hnsw`: approximate search over an hnswlib graph
+ * - `flat`: exact search comparing the query with every embedding
+ * - `auto`: flat until the collection outgrows `flatIndexThreshold`, then
+ *   promoted to hnsw for good
+ */
+export type IndexBackend = "hnsw" | "flat" | "auto";
+
+export const INDEX_BACKENDS: IndexBackend[] = ["hnsw", "flat", "auto"];
+
+/**
+ * An index over one collection's embeddings, persisted under the collection
+ * id. Indexes that cannot load their saved state report a `loadError` so the
+ * caller can rebuild them from the stored embeddings.
+ */
+export interface VectorIndex {
+  readonly space: SpaceName;
+  readonly loadError: string | null;
+  /** Number of live (not deleted) embeddings in the index */
+  getElementCount(): number;
+  /** Discards the current index and builds a new one from the given data */
+  rebuild(indexData: IndexData[]): Promise<void>;
+  dropIndex(): Promise<void>;
+  add(indexData: IndexData[], update?: boolean): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  /**
+   * Writes mutations that so far only reached the index's log, which are
+   * otherwise written in batches (see `flushEveryMutations`)
+   */
+  flush(): Promise<void>;
+  /**
+   * The k nearest embeddings, or all of them when there are fewer,
+   * restricted to `ids` when any are given. `ef`
+   * overrides the index's sizeOfDynamicListOfNearestNeighbors for this
+   * search, where the backend has one.
+   */
+  search(
+    query: number[],
+    k: number,
+    ids?: string[],
+    ef?: number
+  ): Promise<IndexSearchResult[]>;
+  /** Exact distances to the given ids, in their order, skipping unknown ids */
+  distances(query: number[], ids: string[]): Promise<IndexSearchResult[]>;
+  /** The persisted state, or null when nothing has been saved */
+  readSnapshot(): IndexSnapshot | null;
+  restoreSnapshot(snapshot: IndexSnapshot): void;
+  stats(): IndexStats;
+}
@@ -0,0 +1,12 @@
+/**
+ * Full-text filter over an embedding's document:
+ * - `$contains`: every word of the text appears in the document
+ * - `$not_contains`: the document does not match `$contains` for the text
+ * - `$phrase`: the words of the text appear next to each other, in order
+ */
+export type WhereDocumentFilter =
+  | { $contains: string }
+  | { $not_contains: string }
+  | { $phrase: string }
+  | { $and: WhereDocumentFilter[] }
+  | { $or: WhereDocumentFilter[] };
@@ -0,0 +1,25 @@
+export type Metadata = Record<string, unknown>;
+
+export type WhereValue = string | number | boolean;
+
+export type WhereOperatorExpression = {
+  $eq?: WhereValue;
+  $ne?: WhereValue;
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $in?: WhereValue[];
+  $nin?: WhereValue[];
+};
+
+/**
+ * Mongo-style filter over an embedding's metadata. Field keys may use dots to
+ * reach into nested objects, e.g. `{ "author.name": "Ada" }`. A bare value is
+ * shorthand for `$eq`, and sibling keys are combined with `$and`.
+ */
+export type WhereFilter = {
+  $and?: WhereFilter[];
+  $or?: WhereFilter[];
+  [field: string]: WhereValue | WhereOperatorExpression | WhereFilter[];
+};
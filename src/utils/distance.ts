@@ -0,0 +1,36 @@
+import { SpaceName } from "hnswlib-node";
+
+/**
+ * Distance between two vectors, matching what hnswlib reports for the space.
+ * For `cosine` both vectors are normalised first.
+ */
+export function distance(
+  space: SpaceName,
+  a: ArrayLike<number>,
+  b: ArrayLike<number>
+): number {
+  if (space === "l2") {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      const diff = a[i] - b[i];
+      sum += diff * diff;
+    }
+    return sum;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (space === "ip") {
+    return 1 - dot;
+  }
+
+  const norms = Math.sqrt(normA) * Math.sqrt(normB);
+  return norms ? 1 - dot / norms : 1;
+}
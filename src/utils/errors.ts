@@ -0,0 +1,60 @@
+import { BatchItemError } from "../types/batch-embedding-input";
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class InvalidArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidArgumentError";
+  }
+}
+
+export class BatchValidationError extends InvalidArgumentError {
+  constructor(message: string, public readonly errors: BatchItemError[]) {
+    super(message);
+    this.name = "BatchValidationError";
+  }
+}
+
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * An HTTP error response with no more specific error class.
+ */
+export class HttpError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Runs tasks one at a time per key, in the order they were queued. Tasks
+ * under different keys run concurrently.
+ */
+export class KeyedMutex {
+  private _tails: Map<string, Promise<unknown>>;
+
+  constructor() {
+    this._tails = new Map();
+  }
+
+  public run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this._tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+    // A failed task must not keep the ones queued after it from running
+    const tail = result.catch(() => undefined);
+    this._tails.set(key, tail);
+    tail.then(() => {
+      if (this._tails.get(key) === tail) {
+        this._tails.delete(key);
+      }
+    });
+    return result;
+  }
+}
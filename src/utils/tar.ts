@@ -0,0 +1,108 @@
+const BLOCK_SIZE = 512;
+
+export type TarEntry = {
+  name: string;
+  data: Buffer;
+};
+
+/**
+ * Packs regular files into a ustar archive. Only what snapshots need is
+ * supported: flat names of up to 100 bytes and no links or directories.
+ */
+export function packTar(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const { name, data } of entries) {
+    if (Buffer.byteLength(name) > 100) {
+      throw new Error(`Tar entry name ${name} is longer than 100 bytes`);
+    }
+
+    const header = Buffer.alloc(BLOCK_SIZE);
+    header.write(name, 0, 100, "utf8");
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, data.length, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write("0", 156, 1, "ascii");
+    header.write("ustar\u000000", 257, 8, "ascii");
+
+    // The checksum is computed with its own field filled with spaces
+    header.fill(" ", 148, 156);
+    writeOctal(header, checksum(header), 148, 7);
+
+    blocks.push(header, data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Reads the regular files of a ustar archive written by packTar.
+ */
+export function unpackTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const expectedChecksum = readOctal(header, 148, 8);
+    const headerCopy = Buffer.from(header);
+    headerCopy.fill(" ", 148, 156);
+    if (checksum(headerCopy) !== expectedChecksum) {
+      throw new Error(`Corrupt tar header at offset ${offset}`);
+    }
+
+    const name = readString(header, 0, 100);
+    const size = readOctal(header, 124, 12);
+    const type = readString(header, 156, 1);
+    offset += BLOCK_SIZE;
+
+    if (offset + size > archive.length) {
+      throw new Error(`Tar entry ${name} is truncated`);
+    }
+    if (type === "0" || type === "") {
+      entries.push({
+        name,
+        data: Buffer.from(archive.subarray(offset, offset + size)),
+      });
+    }
+
+    offset += Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+function checksum(header: Buffer) {
+  return header.reduce((sum, byte) => sum + byte, 0);
+}
+
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+) {
+  const octal = value.toString(8).padStart(length - 1, "0");
+  header.write(`${octal}\u0000`, offset, length, "ascii");
+}
+
+function readOctal(header: Buffer, offset: number, length: number) {
+  return parseInt(readString(header, offset, length).trim() || "0", 8);
+}
+
+function readString(header: Buffer, offset: number, length: number) {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
@@ -1,4 +1,7 @@
-import FastestValidator, { ValidationSchema } from "fastest-validator";
+import FastestValidator, {
+  ValidationError,
+  ValidationSchema,
+} from "fastest-validator";
 import { IndexConfig, IndexConfigSchema } from "../types/index-config";
 import { IndexData, IndexDataSchema } from "../types/index-data";
 import { DbConfig, DbConfigSchema } from "../types/db-config";
@@ -6,8 +9,30 @@ import {
   CollectionRowMetadata,
   CollectionRowMetadatachema,
 } from "../types/collection-row";
-import { SearchQueryInput, SearchQueryInputSchema } from "../types/query-input";
+import {
+  GetInput,
+  GetInputSchema,
+  SearchQueryInput,
+  SearchQueryInputSchema,
+} from "../types/query-input";
 import { ApiConfig, ApiConfigSchema } from "../types/api-config";
+import { InvalidArgumentError } from "./errors";
+import { BenchmarkOptions, BenchmarkOptionsSchema } from "../types/benchmark";
+import {
+  BatchEmbeddingInput,
+  BatchEmbeddingInputSchema,
+} from "../types/batch-embedding-input";
+import { ImportOptions, ImportOptionsSchema } from "../types/import-options";
+import {
+  HttpClientOptions,
+  HttpClientOptionsSchema,
+} from "../types/http-client-options";
+import {
+  SnapshotManifest,
+  SnapshotManifestSchema,
+  SnapshotRecord,
+  SnapshotRecordSchema,
+} from "../types/collection-snapshot";
 
 export class Validators {
   private _validator: FastestValidator;
@@ -36,10 +61,49 @@ export class Validators {
     return this.validate(SearchQueryInputSchema, searchInput);
   }
 
+  public validateGetInput(getInput: GetInput) {
+    return this.validate(GetInputSchema, getInput);
+  }
+
   public validateApiConfig(apiConfig: ApiConfig) {
     return this.validate(ApiConfigSchema, apiConfig);
   }
 
+  public validateBatchEmbeddingInput(input: BatchEmbeddingInput) {
+    return this.validate(BatchEmbeddingInputSchema, input);
+  }
+
+  public validateImportOptions(options: ImportOptions) {
+    return this.validate(ImportOptionsSchema, options);
+  }
+
+  public validateBenchmarkOptions(options: BenchmarkOptions) {
+    return this.validate(BenchmarkOptionsSchema, options);
+  }
+
+  public validateHttpClientOptions(options: HttpClientOptions) {
+    return this.validate(HttpClientOptionsSchema, options);
+  }
+
+  public validateSnapshotManifest(manifest: SnapshotManifest) {
+    return this.validate(SnapshotManifestSchema, manifest);
+  }
+
+  public validateSnapshotRecord(record: SnapshotRecord) {
+    return this.validate(SnapshotRecordSchema, record);
+  }
+
+  /**
+   * Throws an InvalidArgumentError listing every failure of a validation.
+   */
+  public assertValid(validation: ReturnType<Validators["validate"]>) {
+    if (validation !== true) {
+      throw new InvalidArgumentError(
+        (validation as ValidationError[]).map((e) => e.message).join(" ")
+      );
+    }
+  }
+
   private validate<T>(schema: ValidationSchema, data: unknown) {
     const check = this._validator.compile(schema);
     return check(data);